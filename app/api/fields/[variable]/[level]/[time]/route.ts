@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { VARIABLES, levelSlug, timeSlug } from "@/lib/dataSource";
+import { loadDataRecords } from "@/lib/dataDirectory";
+import { type FieldCompression, encodeFieldFile } from "@/lib/fieldFormat";
+import { indexVariable, runSelection } from "@/lib/ingest";
+
+export const dynamic = "force-dynamic";
+
+const COMPRESSIONS: FieldCompression[] = ["none", "gzip", "deflate"];
+
+/**
+ * One variable at one level and valid time, e.g. /api/fields/wind/100-850/20250803T0600Z:
+ * a SKYF file with a record per component, or grib2json-style JSON with
+ * ?format=json. SKYF takes ?encoding=int16 and ?compression=gzip|deflate;
+ * ?model= and ?run= pick a run other than the newest, ?member= an ensemble member.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ variable: string; level: string; time: string }> }) {
+  const { variable, level, time } = await params;
+  const query = new URL(request.url).searchParams;
+  const info = VARIABLES.find(v => v.id === variable);
+  const slices = info && indexVariable(info, await loadDataRecords(), runSelection(query));
+  const levelInfo = slices?.levels.find(l => levelSlug(l) === level);
+  const validTime = slices?.times.find(t => timeSlug(t) === time);
+  const components = levelInfo && validTime ? slices!.slice(levelInfo.id, validTime) : undefined;
+  if (!info || !components) {
+    return NextResponse.json({ error: `No ${variable} field at level ${level}, time ${time}` }, { status: 404 });
+  }
+
+  let records;
+  try {
+    records = await Promise.all(info.components.map(async ({ key }) => ({
+      header: components[key].header,
+      data: await components[key].read(),
+    })));
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 422 });
+  }
+
+  if (query.get("format") === "json") {
+    return NextResponse.json(records.map(({ header, data }) => ({
+      header,
+      data: Array.from(data, x => (Number.isNaN(x) ? null : x)),
+    })));
+  }
+  const compression = COMPRESSIONS.find(c => c === query.get("compression")) ?? "none";
+  const encoding = query.get("encoding") === "int16" ? "int16" : "float32";
+  const bytes = await encodeFieldFile(records, { encoding, compression });
+  return new Response(bytes, { headers: { "Content-Type": "application/octet-stream" } });
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { VARIABLES } from "@/lib/dataSource";
+import { loadDataRecords } from "@/lib/dataDirectory";
+import { indexVariable, runSelection, sliceManifest } from "@/lib/ingest";
+
+export const dynamic = "force-dynamic";
+
+// Manifest of a variable's slices in the data directory: the newest run, or the one picked by ?model= and ?run= (and ?member= for an ensemble member)
+export async function GET(request: Request, { params }: { params: Promise<{ variable: string }> }) {
+  const { variable } = await params;
+  const info = VARIABLES.find(v => v.id === variable);
+  if (!info) return NextResponse.json({ error: `Unknown variable: ${variable}` }, { status: 404 });
+  const slices = indexVariable(info, await loadDataRecords(), runSelection(new URL(request.url).searchParams));
+  if (!slices) return NextResponse.json({ error: `No ${info.name} fields in the data directory` }, { status: 404 });
+  return NextResponse.json(sliceManifest(info, slices));
+}
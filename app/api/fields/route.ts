@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { loadDataRecords } from "@/lib/dataDirectory";
+import { buildCatalogue } from "@/lib/ingest";
+
+export const dynamic = "force-dynamic";
+
+// Catalogue of the data directory: model runs with their variables, levels, valid times and grids
+export async function GET() {
+  return NextResponse.json(buildCatalogue(await loadDataRecords()));
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useState } from "react";
+import { scalePosition, scaleValue } from "@/lib/colormaps";
+import type { OverlayScale } from "@/lib/overlays";
+
+const WIDTH = 220;
+const STOPS = 100;
+
+interface OverlayLegendProps {
+  overlay: OverlayScale;
+}
+
+/**
+ * Colour bar for a scalar overlay, with ticks from its definition and the
+ * value under the pointer on hover
+ */
+export default function OverlayLegend({ overlay }: OverlayLegendProps) {
+  const { id, min, max, log, units, ticks, colormap, format } = overlay;
+  const [hover, setHover] = useState<number | null>(null);
+  const toX = (value: number) => scalePosition(value, min, max, log) * WIDTH;
+  const gradientId = `legend-${id}`;
+  const digits = (value: number) => (Math.abs(value) < 1 ? 2 : max - min < 10 ? 1 : 0);
+
+  return (
+    <div className="flex flex-col items-center w-full mb-2 relative group">
+      <svg
+        width={WIDTH} height="22" style={{ display: 'block', cursor: 'pointer' }}
+        onMouseMove={e => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          const x = Math.max(0, Math.min(WIDTH, e.clientX - rect.left));
+          setHover(scaleValue(x / WIDTH, min, max, log));
+        }}
+        onMouseLeave={() => setHover(null)}
+      >
+        <defs>
+          <linearGradient id={gradientId} x1="0%" y1="0%" x2="100%" y2="0%">
+            {Array.from({ length: STOPS }, (_, i) => {
+              const [r, g, b] = colormap(i / (STOPS - 1), 1);
+              return <stop key={i} offset={`${i}%`} stopColor={`rgb(${r},${g},${b})`} />;
+            })}
+          </linearGradient>
+        </defs>
+        <rect x="0" y="4" width={WIDTH} height="14" fill={`url(#${gradientId})`} rx="7" />
+        {ticks.map((value, i) => {
+          const x = toX(value);
+          const anchor = x <= 0 ? 'start' : x >= WIDTH ? 'end' : 'middle';
+          return (
+            <g key={i}>
+              <rect x={x - 0.5} y="2" width="1" height="18" fill="#fff" fillOpacity="0.5" />
+              <text x={x} y="20" textAnchor={anchor} fontSize="10" fill="#e0e0e0">{format ? format(value) : value}</text>
+            </g>
+          );
+        })}
+        {hover !== null && (
+          <rect x={toX(hover) - 1} y="4" width="2" height="14" fill="#fff" fillOpacity="0.7" />
+        )}
+      </svg>
+      {hover !== null && (
+        <div
+          className="absolute left-0 top-[-32px] text-xs bg-black/90 px-2 py-1 rounded pointer-events-none border border-gray-700 shadow"
+          style={{ left: `${toX(hover) - 24}px`, minWidth: '48px', textAlign: 'center', zIndex: 10 }}
+        >
+          <div className="mb-[-4px]">{format ? format(hover) : hover.toFixed(digits(hover))} {units}</div>
+          <svg width="16" height="8" style={{ position: 'absolute', left: '50%', transform: 'translateX(-50%)', top: '100%' }}>
+            <polygon points="8,0 16,8 0,8" fill="#222" fillOpacity="0.9" />
+          </svg>
+        </div>
+      )}
+    </div>
+  );
+}
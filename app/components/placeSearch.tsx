@@ -0,0 +1,109 @@
+"use client";
+
+import { type RefObject, useState } from "react";
+import { type Gazetteer, type Place, loadGazetteer, parseCoordinates } from "@/lib/gazetteer";
+
+interface PlaceSearchProps {
+  onSelect: (place: Place) => void;
+  // Focused by the "/" shortcut
+  inputRef?: RefObject<HTMLInputElement | null>;
+}
+
+const KIND_ICONS: Record<Place["kind"], string> = { city: "●", airport: "✈", coordinates: "⌖" };
+
+/**
+ * Search box for cities, airports (name, IATA or ICAO code) and "lat, lon"
+ * coordinates; the gazetteer is fetched the first time the box gets focus
+ */
+export default function PlaceSearch({ onSelect, inputRef }: PlaceSearchProps) {
+  const [query, setQuery] = useState("");
+  const [gazetteer, setGazetteer] = useState<Gazetteer | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+
+  const load = () => {
+    if (gazetteer) return;
+    loadGazetteer().then(setGazetteer, e => setError(e instanceof Error ? e.message : String(e)));
+  };
+
+  // Coordinates work before (or without) the gazetteer
+  const coordinates = parseCoordinates(query);
+  const results = !query.trim() ? [] : gazetteer ? gazetteer.search(query) : coordinates ? [coordinates] : [];
+
+  const select = (place: Place) => {
+    onSelect(place);
+    setQuery(place.name);
+    setOpen(false);
+    inputRef?.current?.blur();
+  };
+
+  return (
+    <div className="fixed top-6 right-6 z-20 w-[280px] text-white text-xs">
+      <input
+        ref={inputRef}
+        type="search"
+        role="combobox"
+        aria-label="Search places"
+        aria-expanded={open && results.length > 0}
+        aria-controls="place-search-results"
+        placeholder="Search city, airport or lat, lon  ( / )"
+        value={query}
+        onFocus={() => {
+          load();
+          setOpen(true);
+        }}
+        onBlur={() => setOpen(false)}
+        onChange={e => {
+          setQuery(e.target.value);
+          setActive(0);
+          setOpen(true);
+        }}
+        onKeyDown={e => {
+          if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+            e.preventDefault();
+            const step = e.key === "ArrowDown" ? 1 : -1;
+            setActive(i => Math.max(0, Math.min(results.length - 1, i + step)));
+          } else if (e.key === "Enter" && results[active]) {
+            select(results[active]);
+          } else if (e.key === "Escape") {
+            setQuery("");
+            e.currentTarget.blur();
+          }
+        }}
+        className="w-full bg-white/10 backdrop-blur-lg border border-white/20 rounded-full px-4 py-2 shadow-lg placeholder:text-white/50 focus:outline-none focus:border-cyan-400/60"
+      />
+      {open && query.trim() && (
+        <ul
+          id="place-search-results"
+          role="listbox"
+          className="mt-1 bg-black/80 backdrop-blur-lg border border-white/20 rounded-lg shadow-lg overflow-hidden"
+        >
+          {results.map((place, i) => (
+            <li
+              key={`${place.kind}-${place.name}-${place.lon}-${place.lat}`}
+              role="option"
+              aria-selected={i === active}
+              // Before the input's blur closes the list
+              onMouseDown={e => {
+                e.preventDefault();
+                select(place);
+              }}
+              onMouseEnter={() => setActive(i)}
+              className={`flex items-baseline gap-2 px-3 py-1.5 cursor-pointer ${i === active ? "bg-cyan-400/30" : ""}`}
+            >
+              <span className="text-white/60 w-3 text-center">{KIND_ICONS[place.kind]}</span>
+              <span className="truncate">{place.name}</span>
+              <span className="ml-auto shrink-0 text-white/50">{place.detail}</span>
+            </li>
+          ))}
+          {!results.length && (
+            <li className="px-3 py-1.5 text-white/50">
+              {error ? `Search unavailable: ${error}` : gazetteer ? "No matches" : "Loading places…"}
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { barbBasis, barbGeometry } from "@/lib/barbs";
+import { compassPoint, kelvinToC, msToKnots, windDirection, windSpeed } from "@/lib/met";
+import { type UnitPreferences, formatLevel, formatSpeed, formatTemperature } from "@/lib/units";
+
+export interface SoundingPoint {
+  label: string;
+  pressure: number; // hPa
+  tempK: number;
+  u: number;
+  v: number;
+}
+
+interface SoundingPanelProps {
+  title: string;
+  southern: boolean;
+  points: SoundingPoint[];
+  // Readouts on hover; the axes stay in °C and hPa
+  units: UnitPreferences;
+  onClose: () => void;
+}
+
+const WIDTH = 300;
+const HEIGHT = 380;
+const PLOT = { left: 42, right: 222, top: 14, bottom: 350 };
+const BARB_X = 262;
+const BARB_LENGTH = 26;
+const P_TOP = 10;
+const P_BOTTOM = 1050;
+const PRESSURE_TICKS = [1000, 850, 700, 500, 300, 200, 100, 50, 20, 10];
+
+// Log-pressure vertical axis, surface at the bottom
+const yForPressure = (p: number) =>
+  PLOT.top + (Math.log(p) - Math.log(P_TOP)) / (Math.log(P_BOTTOM) - Math.log(P_TOP)) * (PLOT.bottom - PLOT.top);
+
+/**
+ * Vertical profile (sounding) of temperature against pressure with wind barbs
+ * for every loaded level at one location
+ */
+export default function SoundingPanel({ title, southern, points, units, onClose }: SoundingPanelProps) {
+  const sorted = [...points].sort((a, b) => b.pressure - a.pressure);
+  const temps = sorted.map(p => kelvinToC(p.tempK)).filter(Number.isFinite);
+  const tMin = temps.length ? Math.floor((Math.min(...temps) - 5) / 10) * 10 : -80;
+  const tMax = temps.length ? Math.ceil((Math.max(...temps) + 5) / 10) * 10 : 40;
+  const xForTemp = (c: number) => PLOT.left + (c - tMin) / (tMax - tMin) * (PLOT.right - PLOT.left);
+
+  const tempTicks: number[] = [];
+  const tickStep = tMax - tMin > 80 ? 20 : 10;
+  for (let c = Math.ceil(tMin / tickStep) * tickStep; c <= tMax; c += tickStep) tempTicks.push(c);
+
+  const line = sorted
+    .filter(p => Number.isFinite(p.tempK))
+    .map(p => `${xForTemp(kelvinToC(p.tempK)).toFixed(1)},${yForPressure(p.pressure).toFixed(1)}`)
+    .join(" ");
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Vertical profile"
+      className="fixed top-16 right-6 z-30 bg-white/10 backdrop-blur-lg rounded-2xl px-4 py-3 text-white text-sm shadow-2xl border border-white/20 animate-fadein"
+      style={{ width: WIDTH + 32 }}
+    >
+      <button
+        aria-label="Close vertical profile"
+        className="absolute top-2 right-3 text-xl text-white/70 hover:text-white/100 focus:outline-none"
+        style={{ background: 'none', border: 'none', cursor: 'pointer', fontWeight: 700 }}
+        onClick={onClose}
+      >×</button>
+      <div className="font-bold text-base tracking-wide">Vertical profile</div>
+      <div className="text-xs text-cyan-100 font-mono mb-2">{title}</div>
+      <svg width={WIDTH} height={HEIGHT} style={{ display: 'block' }}>
+        {/* Pressure grid */}
+        {PRESSURE_TICKS.map(p => (
+          <g key={p}>
+            <line x1={PLOT.left} x2={PLOT.right} y1={yForPressure(p)} y2={yForPressure(p)} stroke="#fff" strokeOpacity="0.15" />
+            <text x={PLOT.left - 4} y={yForPressure(p) + 3} textAnchor="end" fontSize="9" fill="#e0e0e0">{p}</text>
+          </g>
+        ))}
+        {/* Temperature grid, 0 °C highlighted */}
+        {tempTicks.map(c => (
+          <g key={c}>
+            <line
+              x1={xForTemp(c)} x2={xForTemp(c)} y1={PLOT.top} y2={PLOT.bottom}
+              stroke={c === 0 ? '#22d3ee' : '#fff'} strokeOpacity={c === 0 ? 0.5 : 0.15}
+            />
+            <text x={xForTemp(c)} y={PLOT.bottom + 12} textAnchor="middle" fontSize="9" fill="#e0e0e0">{c}°</text>
+          </g>
+        ))}
+        <text x={(PLOT.left + PLOT.right) / 2} y={HEIGHT - 4} textAnchor="middle" fontSize="9" fill="#a0a0a0">Temperature (°C)</text>
+        <text x={10} y={PLOT.top + 4} fontSize="9" fill="#a0a0a0">hPa</text>
+
+        {/* Temperature profile */}
+        {line && <polyline points={line} fill="none" stroke="#f87171" strokeWidth="2" strokeLinejoin="round" />}
+        {sorted.map(p => Number.isFinite(p.tempK) && (
+          <circle key={p.label} cx={xForTemp(kelvinToC(p.tempK))} cy={yForPressure(p.pressure)} r="3" fill="#f87171">
+            <title>{`${formatLevel(p.label, units.level)}: ${formatTemperature(p.tempK, units.temperature)}`}</title>
+          </circle>
+        ))}
+
+        {/* Wind barbs beside the profile */}
+        <line x1={BARB_X} x2={BARB_X} y1={PLOT.top} y2={PLOT.bottom} stroke="#fff" strokeOpacity="0.1" />
+        {sorted.map(p => {
+          const y = yForPressure(p.pressure);
+          const speed = windSpeed(p.u, p.v);
+          if (!Number.isFinite(speed)) return null;
+          const dir = windDirection(p.u, p.v);
+          const barb = barbGeometry(msToKnots(speed));
+          const { staff, feather } = barbBasis(dir, southern);
+          const L = BARB_LENGTH;
+          return (
+            <g key={p.label}>
+              <title>{`${formatLevel(p.label, units.level)}: ${formatSpeed(speed, units.speed)} from ${Math.round(dir)}° ${compassPoint(dir)}`}</title>
+              {barb.calm ? (
+                <circle cx={BARB_X} cy={y} r="4" fill="none" stroke="#fff" strokeWidth="1.2" />
+              ) : (
+                <g transform={`matrix(${feather[0] * L} ${feather[1] * L} ${staff[0] * L} ${staff[1] * L} ${BARB_X} ${y})`}>
+                  {barb.lines.map(([x1, y1, x2, y2], i) => (
+                    <line key={i} x1={x1} y1={y1} x2={x2} y2={y2} stroke="#fff" strokeWidth={1.4 / L} strokeLinecap="round" />
+                  ))}
+                  {barb.pennants.map((tri, i) => (
+                    <polygon key={i} points={tri.map(([x, yy]) => `${x},${yy}`).join(" ")} fill="#fff" />
+                  ))}
+                </g>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
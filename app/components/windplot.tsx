@@ -3,323 +3,694 @@
 import { useEffect, useRef, useState } from "react";
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
-import { feature } from "topojson-client";
-import type { Feature, FeatureCollection, Geometry, GeoJsonProperties } from "geojson";
-
-const DATA_DIR = "/data/winddata";
-const MANIFEST_URL = `${DATA_DIR}/wind_uv_manifest.json`;
-const WORLD_URL = "https://cdn.jsdelivr.net/npm/world-atlas@2/countries-50m.json";
+import { type GridMeta, gridBounds, gridOutline, normalizeLon, sameGrid, sampleFrames, sampleGrid, timeBlend, wrapsLongitude } from "@/lib/grid";
+import { SURFACE_PRESSURE, compassPoint, levelPressure, windDirection, windSpeed, windSpeedField } from "@/lib/met";
+import { type DataCatalogue, type DataSource, type Field, type VariableId, backgroundRun, loadCatalogue } from "@/lib/dataSource";
+import { createWorkerSource } from "@/lib/workerSource";
+import { createGpuParticles, supportsGpuParticles } from "@/lib/gpuParticles";
+import { type BackgroundFields, createGridTexture } from "@/lib/gridShader";
+import { createColormapTexture, createScalarOverlay } from "@/lib/scalarOverlay";
+import { type EnsembleStats, createEnsembleStats, differenceField, resampleField } from "@/lib/compare";
+import { type ColorSettings, type ComparisonMode, DIAGNOSTICS, type DiagnosticId, OVERLAYS, type OverlayDefinition, type OverlayId, type OverlayScale, comparisonScale, diagnosticById, overlayById, overlayDataSources, withColorSettings } from "@/lib/overlays";
+import { COLORMAPS } from "@/lib/colormaps";
+import { DEFAULT_UNITS, LEVEL_UNITS, SPEED_UNITS, TEMPERATURE_UNITS, type UnitPreferences, formatLevel, formatSpeed, formatTemperature, fromDisplayUnits, loadUnitPreferences, saveUnitPreferences, withUnits } from "@/lib/units";
+import { divergence, relativeVorticity, temperatureAdvection, windShear } from "@/lib/diagnostics";
+import { contourLabels, contourLines } from "@/lib/contours";
+import { type GlyphKind, appendGlyph, glyphSamples, glyphSpacing } from "@/lib/windGlyphs";
+import { type MapProjection, PROJECTIONS, type ProjectionId, createProjection } from "@/lib/projections";
+import { type UrlViewState, createUrlWriter, findValidTime, levelKey, parseUrlState } from "@/lib/urlState";
+import type { Place } from "@/lib/gazetteer";
+import { type Trajectory, type TrajectoryDirection, createTrajectory, timeIndex, traceTrajectory, trajectoriesGeoJson } from "@/lib/trajectory";
+import { EXPORT_SIZES, type ExportAnnotations, canvasBlob, createCanvasRecorder, downloadBlob, drawAnnotations, drawLayers, supportsRecording } from "@/lib/exportView";
+import { type CountryResolution, type MapLayerId, MAP_LAYERS, type Outline, countriesUrl, loadOutlines, resolutionForDistance } from "@/lib/geoLayers";
+import OverlayLegend from "./legend";
+import SoundingPanel, { type SoundingPoint } from "./sounding";
+import PlaceSearch from "./placeSearch";
 
 // ------------ CONFIGURABLE CONSTANTS ------------ //
 const GLOBE_RADIUS = 200;
-const PARTICLE_COUNT = 20000;
+const PARTICLE_COUNT = 20000; // Canvas2D fallback
+const GPU_PARTICLE_COUNT = 262144; // 512 x 512 state texture
+const GPU_PARTICLES_ENABLED = true;
 const PARTICLE_LIFE = 601;
 const SPEED_FACTOR = 0.008;
 const TRAIL_FADE = 0.92;
 const SIGNIFICANT_CAM_MOVE2 = 4;
-
-// Temperature overlay settings
-const TEMP_DATA_DIR = "/data/temperature";
-const TEMP_MANIFEST_URL = `${TEMP_DATA_DIR}/temp_manifest.json`;
-const TEMP_OVERLAY_ALPHA = 0.35;
+const PLAYBACK_STEPS_PER_SECOND = 0.5;
+const PLAYBACK_UI_INTERVAL_MS = 250; // How often playback updates the timeline and time label
+const GLYPH_SPACING_PX = 40; // Target on-screen distance between wind glyphs
+const MAX_GLYPHS = 4000;
+const DEFAULT_DISTANCE = 450; // Globe camera distance at zoom 1
+const FLAT_HALF_HEIGHT = GLOBE_RADIUS * 1.6; // Flat map view half-height at zoom 1
+const SNAPSHOT_TRAIL_STEPS = 40; // Particle steps to rebuild trails at snapshot resolution
+const FLIGHT_DURATION_MS = 1500; // Camera flights to searched places and shortcuts
+const PLACE_ZOOM = 1.8; // Minimum zoom when flying to a searched place
+const TRAJECTORY_COLORS: Record<TrajectoryDirection, number> = { forward: 0xffd166, backward: 0xff6bd6 };
+const TRAJECTORY_HOURS = [6, 12, 24, 48, 72];
 
 // Air mode overlay settings
-const OVERLAY_ALPHA = 0.4;
 const AIR_MODE_ENABLED = true;
 
+const lonLatToVec3 = (lon: number, lat: number, r = GLOBE_RADIUS) => {
+  // Standard mapping: X = r * cos(lat) * sin(lon)
+  //                   Y = r * sin(lat)
+  //                   Z = r * cos(lat) * cos(lon)
+  const φ = THREE.MathUtils.degToRad(lat);
+  const λ = THREE.MathUtils.degToRad(lon);
+  return new THREE.Vector3(
+    r * Math.cos(φ) * Math.sin(λ),
+    r * Math.sin(φ),
+    r * Math.cos(φ) * Math.cos(λ)
+  );
+};
+
+// Scene position of lon/lat: on the globe, or on the z = 0 plane of a flat map
+// lifted by r - GLOBE_RADIUS; null where the map doesn't show the point
+type WorldMapping = (lon: number, lat: number, r?: number) => THREE.Vector3 | null;
+
+const worldMapping = (projection: MapProjection | null): WorldMapping => {
+  if (!projection) return lonLatToVec3;
+  return (lon, lat, r = GLOBE_RADIUS) => {
+    const xy = projection.forward(lon, lat);
+    return xy && new THREE.Vector3(xy[0], xy[1], r - GLOBE_RADIUS);
+  };
+};
+
 /**
- * Nullschool Earth exact wind speed color mapping - uses extendedSinebowColor algorithm
- * Matches earth.nullschool.net wind visualization exactly
+ * Line segments for lon/lat outlines, with smart filtering of segments that
+ * would cut across the globe (or the edge of a flat map)
  */
-const TAU = 2 * Math.PI;
-const BOUNDARY = 0.45;
+function outlineGeometry(lines: Outline[], radius: number, projection: MapProjection | null) {
+  const pos: number[] = [];
+  const toWorld = worldMapping(projection);
+
+  const pushSeg = (a: number[], b: number[]) => {
+    // Skip segments that cross the antimeridian (180°/-180° boundary)
+    if (Math.abs(a[0] - b[0]) > 180) return;
+    
+    // Skip very long segments that could be problematic
+    const distance = Math.sqrt(Math.pow(a[0] - b[0], 2) + Math.pow(a[1] - b[1], 2));
+    if (distance > 30) return; // More conservative filtering
+    
+    // Skip near-vertical segments that could create the black line artifact
+    const lonDiff = Math.abs(a[0] - b[0]);
+    const latDiff = Math.abs(a[1] - b[1]);
+    
+    // This is the key fix: skip segments that are nearly vertical and long
+    if (lonDiff < 0.5 && latDiff > 15) return; // Skip long vertical-like segments
+    
+    // Skip segments very close to problematic meridians (more focused filtering)
+    const tolerance = 0.1; // Much smaller tolerance
+    if (Math.abs(Math.abs(a[0]) - 180) < tolerance && Math.abs(Math.abs(b[0]) - 180) < tolerance) return;
+    if (Math.abs(a[0]) < tolerance && Math.abs(b[0]) < tolerance) return;
+    
+    // Allow most other segments for proper outlines
+    if (projection?.breaks(a[0], b[0])) return;
+    const v1 = toWorld(a[0], a[1], radius);
+    const v2 = toWorld(b[0], b[1], radius);
+    if (!v1 || !v2) return;
+    pos.push(v1.x, v1.y, v1.z, v2.x, v2.y, v2.z);
+  };
+
+  for (const line of lines) {
+    for (let i = 0; i < line.length - 1; i++) pushSeg(line[i], line[i + 1]);
+  }
+
+  const geo = new THREE.BufferGeometry();
+  geo.setAttribute("position", new THREE.Float32BufferAttribute(pos, 3));
+  return geo;
+}
 
 /**
- * Produces a color in a rainbow-like trefoil color space (sinebow)
- * This is the exact algorithm used by Nullschool Earth
+ * Small text label that always faces the camera and is hidden behind the globe.
+ * Labels with the same text can share a material (and its texture) through `materials`.
  */
-function sinebowColor(hue: number, alpha: number): [number, number, number, number] {
-  // Map hue [0, 1] to radians [0, 5/6τ]. Don't allow a full rotation because that keeps hue == 0 and
-  // hue == 1 from mapping to the same color.
-  let rad = hue * TAU * 5/6;
-  rad *= 0.75;  // increase frequency to 2/3 cycle per rad
-
-  const s = Math.sin(rad);
-  const c = Math.cos(rad);
-  const r = Math.floor(Math.max(0, -c) * 255);
-  const g = Math.floor(Math.max(s, 0) * 255);
-  const b = Math.floor(Math.max(c, 0, -s) * 255);
-  return [r, g, b, alpha];
+function labelSprite(text: string, position: THREE.Vector3, materials?: Map<string, THREE.SpriteMaterial>) {
+  let material = materials?.get(text);
+  if (!material) {
+    const canvas = document.createElement("canvas");
+    canvas.width = 128;
+    canvas.height = 48;
+    const ctx = canvas.getContext("2d")!;
+    ctx.font = "500 28px sans-serif";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    // Dark halo keeps labels readable over bright overlays
+    ctx.shadowColor = "rgba(0,0,0,0.9)";
+    ctx.shadowBlur = 4;
+    ctx.fillStyle = "rgba(255,255,255,0.75)";
+    ctx.fillText(text, canvas.width / 2, canvas.height / 2);
+    const texture = new THREE.CanvasTexture(canvas);
+    material = new THREE.SpriteMaterial({ map: texture, transparent: true, depthWrite: false });
+    materials?.set(text, material);
+  }
+  const sprite = new THREE.Sprite(material);
+  sprite.position.copy(position);
+  sprite.scale.set(12, 4.5, 1);
+  return sprite;
+}
+
+const formatContourValue = (value: number) =>
+  Number.isInteger(value) ? String(value) : value.toFixed(1);
+
+interface WindFrame {
+  U: Float32Array;
+  V: Float32Array;
+  S: Float32Array;
+}
+
+// One entry per vertical level; frames are indexed by time step
+interface WindLevel {
+  label: string;
+  frames: WindFrame[];
+}
+
+// Levels of a scalar variable (temperature, pressure, humidity...)
+interface ScalarLevel {
+  label: string;
+  frames: Float32Array[];
+}
+
+// Per-level loading state shown while data streams in
+interface LoadProgress {
+  variable: VariableId;
+  label: string;
+  loaded: number;
+  total: number;
+  errors: string[];
+}
+
+// Values pinned by the click-to-probe marker
+interface ProbeReading {
+  lon: number;
+  lat: number;
+  level: string;
+  u: number;
+  v: number;
+  speed: number;
+  direction: number;
+  tempK: number;
 }
 
 /**
- * Color interpolator between two colors
+ * Fills time steps missing from a level with the nearest earlier (or later) frame
+ * so every level has exactly `count` frames
  */
-function colorInterpolator(start: [number, number, number], end: [number, number, number]) {
-  const r = start[0], g = start[1], b = start[2];
-  const deltaR = end[0] - r, deltaG = end[1] - g, deltaB = end[2] - b;
-  return function(i: number, a: number): [number, number, number, number] {
-    return [
-      Math.floor(r + i * deltaR), 
-      Math.floor(g + i * deltaG), 
-      Math.floor(b + i * deltaB), 
-      a
-    ];
-  };
+function fillFrames<T>(frames: T[], count: number): T[] {
+  const out: T[] = [];
+  for (let t = 0; t < count; t++) {
+    out[t] = frames[t] ?? out[t - 1];
+  }
+  const first = out.find(f => f !== undefined);
+  return out.map(f => f ?? first!);
 }
 
 /**
- * Interpolates a sinebow color where 0 <= i <= BOUNDARY, then fades to white where BOUNDARY < i <= 1.
- * This is the exact extendedSinebowColor function from Nullschool Earth
+ * Moves a fractional time position to the next/previous whole time step
  */
-function extendedSinebowColor(i: number, alpha: number): [number, number, number, number] {
-  const fadeToWhite = colorInterpolator(sinebowColor(1.0, 0).slice(0, 3) as [number, number, number], [255, 255, 255]);
-  
-  return i <= BOUNDARY ?
-    sinebowColor(i / BOUNDARY, alpha) :
-    fadeToWhite((i - BOUNDARY) / (1 - BOUNDARY), alpha);
+const steppedTime = (pos: number, delta: number, count: number) => {
+  const target = delta > 0 ? Math.floor(pos) + delta : Math.ceil(pos) + delta;
+  return Math.max(0, Math.min(count - 1, target));
+};
+
+const formatLonLat = (lon: number, lat: number) =>
+  `${Math.abs(lat).toFixed(2)}°${lat >= 0 ? "N" : "S"} ${Math.abs(lon).toFixed(2)}°${lon >= 0 ? "E" : "W"}`;
+
+const formatValidTime = (iso: string | undefined) => {
+  if (!iso) return "Analysis";
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return iso;
+  return `${d.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+};
+
+type ProgressUpdater = (update: (prev: Record<string, LoadProgress>) => Record<string, LoadProgress>) => void;
+
+/**
+ * Fetches every level of a variable at every valid time concurrently; failures
+ * are reported per level through `progress` and the level is kept if any time loaded
+ */
+async function loadVariable<T>(
+  source: DataSource,
+  variable: VariableId,
+  progress: ProgressUpdater,
+  toFrame: (field: Field) => T
+) {
+  const [times, varLevels] = await Promise.all([source.listTimes(variable), source.listLevels(variable)]);
+  const track = (key: string, update: (p: LoadProgress) => LoadProgress) =>
+    progress(prev => prev[key] ? { ...prev, [key]: update(prev[key]) } : prev);
+  progress(prev => ({
+    ...prev,
+    ...Object.fromEntries(varLevels.map(level => [
+      `${variable}:${level.id}`,
+      { variable, label: level.label, loaded: 0, total: times.length, errors: [] }
+    ]))
+  }));
+
+  const loaded = await Promise.all(varLevels.map(async level => {
+    const key = `${variable}:${level.id}`;
+    const levelFrames: T[] = [];
+    await Promise.all(times.map(async (validTime, t) => {
+      try {
+        levelFrames[t] = toFrame(await source.fetchField(variable, level.id, t));
+        track(key, p => ({ ...p, loaded: p.loaded + 1 }));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`Failed to load ${variable} ${level.label} at time step ${t}:`, error);
+        track(key, p => ({
+          ...p,
+          errors: [...p.errors, times.length > 1 ? `${formatValidTime(validTime)}: ${message}` : message]
+        }));
+      }
+    }));
+    return levelFrames.some(Boolean)
+      ? { label: level.label, frames: fillFrames(levelFrames, times.length) }
+      : null;
+  }));
+  return { times, levels: loaded.filter(l => l !== null) };
 }
 
+// The ground or a height above it, e.g. wind at 10 m and temperature at 2 m
+const nearSurface = (label: string | undefined) => !!label && /^(Surface|[\d.]+ m)$/.test(label);
+
 /**
- * Wind speed color scale using Nullschool's exact algorithm
- * Wind speed bounds: [0, 100] m/s
+ * The level of another variable shown with a wind level: its only level (e.g.
+ * sea level pressure), the level with the same label, or its near-surface level
+ * at a near-surface wind level; undefined when it has none of these
  */
-const windSpeedColorScale = (windSpeedMs: number, alpha: number = 1): [number, number, number, number] => {
-  if (!Number.isFinite(windSpeedMs) || windSpeedMs < 0) {
-    return [0, 0, 0, 0];
-  }
-  
-  // Normalize wind speed to [0, 1] range with 100 m/s as maximum
-  const normalized = Math.min(windSpeedMs, 100) / 100;
-  
-  // Use Nullschool's extendedSinebowColor function
-  return extendedSinebowColor(normalized, Math.floor(alpha * 255));
-};
+function matchingLevel<T extends { label: string }>(levels: T[] | undefined, label: string | undefined) {
+  if (!levels?.length) return undefined;
+  if (levels.length === 1) return levels[0];
+  return levels.find(l => l.label === label) ?? (nearSurface(label) ? levels.find(l => nearSurface(l.label)) : undefined);
+}
 
-const lonLatToVec3 = (lon: number, lat: number, r = GLOBE_RADIUS) => {
-  // Standard mapping: X = r * cos(lat) * sin(lon)
-  //                   Y = r * sin(lat)
-  //                   Z = r * cos(lat) * cos(lon)
-  const φ = THREE.MathUtils.degToRad(lat);
-  const λ = THREE.MathUtils.degToRad(lon);
-  return new THREE.Vector3(
-    r * Math.cos(φ) * Math.sin(λ),
-    r * Math.sin(φ),
-    r * Math.cos(φ) * Math.cos(λ)
-  );
+// Fields of another run loaded alongside the one shown: the global run around a
+// regional domain, a run compared with it, or ensemble statistics
+interface RunLayer<T> {
+  meta: GridMeta;
+  times: string[];
+  levels: { label: string; frames: T[] }[];
+}
+
+// Layer frames shown with a level label: of its only level or the one with that label
+function layerLevel<T>(layer: RunLayer<T> | null | undefined, label: string) {
+  if (!layer) return undefined;
+  const level = layer.levels.length === 1 ? layer.levels[0] : layer.levels.find(l => l.label === label);
+  return level && { meta: layer.meta, times: layer.times, frames: level.frames };
+}
+
+/**
+ * Time position in valid times `to` at a fractional position in `from`; the
+ * same index when either is undated
+ */
+function matchingTimePos(from: string[], to: string[], pos: number) {
+  const { t0, t1, f } = timeBlend(pos, from.length);
+  const at = Date.parse(from[t0]) + (Date.parse(from[t1]) - Date.parse(from[t0])) * f;
+  const hours = to.map(t => Date.parse(t) / 3600e3);
+  if (!Number.isFinite(at) || !hours.every(Number.isFinite)) return Math.min(pos, to.length - 1);
+  return timeIndex(hours, at / 3600e3);
+}
+
+// Frame at a fractional time position, blended linearly between neighbouring steps
+function blendedFrame(frames: Float32Array[], pos: number) {
+  const { t0, t1, f } = timeBlend(pos, frames.length);
+  const a = frames[t0], b = frames[t1];
+  return f === 0 || t0 === t1 ? a : a.map((x, k) => x + (b[k] - x) * f);
+}
+
+const windFrame = (field: Field): WindFrame => {
+  const { U, V, S } = field.components;
+  return { U, V, S: S ?? windSpeedField(U, V) };
 };
 
-interface GridMeta {
-  nx: number;
-  ny: number;
-  lo1: number;
-  la1: number;
-  dx: number;
-  dy: number;
+// Values a scalar overlay colours
+const overlayFrame = ({ variable, component }: OverlayDefinition) => (field: Field) =>
+  variable === 'wind' ? windFrame(field).S : field.components[component];
+
+// Loads a variable of another run quietly; null when no field loaded
+async function loadLayer<T>(source: DataSource, variable: VariableId, toFrame: (field: Field) => T) {
+  let meta: GridMeta | undefined;
+  const { times, levels } = await loadVariable<T>(source, variable, () => {}, field => {
+    meta ??= field.meta;
+    return toFrame(field);
+  });
+  return meta ? { meta, times, levels } : null;
+}
+
+// Overlays that can be compared between runs and across ensemble members; their ids are variable ids
+const COMPARED = ['wind', 'temperature'] as const;
+type ComparedVariable = typeof COMPARED[number];
+const isCompared = (id: string): id is ComparedVariable => COMPARED.some(c => c === id);
+
+interface EnsembleFrame {
+  mean: Float32Array;
+  spread: Float32Array;
 }
 
-interface WindHeader {
-  nx: number;
-  ny: number;
-  lo1: number;
-  la1: number;
-  dx: number;
-  dy: number;
-  surface1Type: number;
-  surface1Value: number;
-  // add more properties if you expect them!
+// Ensemble statistics of the run shown, loading member by member
+interface EnsembleLayers {
+  loaded: number;
+  total: number;
+  // Set once every member has loaded
+  layers: Partial<Record<ComparedVariable, RunLayer<EnsembleFrame>>>;
 }
 
-interface WindObj {
-  header: WindHeader;
-  data: number[];
+/**
+ * Mean and spread of a variable over ensemble members added one at a time.
+ * Members share the run's levels and times; one on another grid is left out.
+ */
+function createEnsembleLayer() {
+  let stats: RunLayer<EnsembleStats> | null = null;
+  return {
+    add(layer: RunLayer<Float32Array>) {
+      const { meta } = layer;
+      stats ??= {
+        meta,
+        times: layer.times,
+        levels: layer.levels.map(({ label, frames }) => ({ label, frames: frames.map(() => createEnsembleStats(meta.nx * meta.ny)) }))
+      };
+      if (!sameGrid(stats.meta, meta)) return false;
+      for (const { label, frames } of layer.levels) {
+        stats.levels.find(l => l.label === label)?.frames.forEach((s, t) => {
+          if (frames[t]) s.add(frames[t]);
+        });
+      }
+      return true;
+    },
+    result(): RunLayer<EnsembleFrame> | null {
+      return stats && {
+        ...stats,
+        levels: stats.levels.map(({ label, frames }) => ({ label, frames: frames.map(s => ({ mean: s.mean(), spread: s.spread() })) }))
+      };
+    }
+  };
+}
+
+// Deep-layer shear: 850 to 250 hPa when available, otherwise lowest to highest level
+const defaultShearLevels = (levels: { label: string }[]): [number, number] => {
+  const lower = levels.findIndex(l => l.label === "850 hPa");
+  const upper = levels.findIndex(l => l.label === "250 hPa");
+  return lower >= 0 && upper >= 0 ? [lower, upper] : [0, levels.length - 1];
+};
+
+interface GlobeWindMapProps {
+  // Defaults to today's static files under public/data, or a run from the
+  // fields API catalogue when NEXT_PUBLIC_FIELDS_API is set; loaded in a Web Worker
+  dataSource?: DataSource;
 }
 
-export default function GlobeWindMap() {
-  const [levels, setLevels] = useState<
-    { label: string; U: Float32Array; V: Float32Array; S: Float32Array }[]
-  >([]);
-  // Temperature levels (parallel to wind levels)
-  const [tempLevels, setTempLevels] = useState<
-    { label: string; T: Float32Array }[]
-  >([]);
+export default function GlobeWindMap({ dataSource }: GlobeWindMapProps) {
+  const [levels, setLevels] = useState<WindLevel[]>([]);
+  // Scalar overlay variables, loaded on demand; temperature is always loaded
+  const [scalarLevels, setScalarLevels] = useState<Partial<Record<VariableId, ScalarLevel[]>>>({});
   const [lvlIdx, setLvlIdx] = useState(0);
+  // Valid times from the wind manifest; timePos is a fractional index into them
+  const [validTimes, setValidTimes] = useState<string[]>([]);
+  const [timePos, setTimePos] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  // The render loop's time position; playback advances it every frame and
+  // passes it on to timePos only now and then
+  const timeRef = useRef(0);
+  const playingRef = useRef(false);
+  const playbackTimeRef = useRef(0);
+  // Click-to-probe: the pinned location lives in a ref so the scene isn't rebuilt on every click
+  const [probeMode, setProbeMode] = useState(false);
+  const [probeReading, setProbeReading] = useState<ProbeReading | null>(null);
+  const probeModeRef = useRef(false);
+  const probeRef = useRef<{ lon: number; lat: number } | null>(null);
+  const probeMarkerRef = useRef<HTMLDivElement>(null);
   const [airModeEnabled, setAirModeEnabled] = useState(AIR_MODE_ENABLED);
-  const [overlayMode, setOverlayMode] = useState<'wind' | 'temperature' | 'none'>('wind');
+  const [overlayMode, setOverlayMode] = useState<OverlayId | DiagnosticId | 'none'>('wind');
+  // Lower and upper wind level indices for the shear overlay; null picks defaultShearLevels()
+  const [shearLevels, setShearLevels] = useState<[number, number] | null>(null);
   const [renderTrigger, setRenderTrigger] = useState(0);
+  // Reference layers are toggled in the render loop rather than rebuilding the scene
+  const [mapLayers, setMapLayers] = useState<Record<MapLayerId | 'graticuleLabels', boolean>>({
+    lakes: false, rivers: false, admin1: false, graticuleLabels: false
+  });
+  const mapLayersRef = useRef(mapLayers);
+  // Isolines over the active overlay, also switched in the render loop
+  const [contoursOn, setContoursOn] = useState(false);
+  const contoursRef = useRef(false);
+  // Per-overlay colormap, range and scaling chosen by the user; applied in the render loop
+  const [colorSettings, setColorSettings] = useState<Partial<Record<OverlayScale['id'], ColorSettings>>>({});
+  const colorSettingsRef = useRef(colorSettings);
+  // Display units, restored from localStorage on mount
+  const [units, setUnits] = useState<UnitPreferences>(DEFAULT_UNITS);
+  const unitsRef = useRef(units);
+  // Particles and wind glyphs can be shown together or on their own
+  const [particlesOn, setParticlesOn] = useState(true);
+  const [glyphMode, setGlyphMode] = useState<GlyphKind | 'none'>('none');
+  const flowRef = useRef({ particles: true, glyphs: 'none' as GlyphKind | 'none' });
+  const [projectionId, setProjectionId] = useState<ProjectionId>('globe');
+  // View centre and zoom, carried over when the scene is rebuilt (e.g. switching projections)
+  const viewRef = useRef({ lon: 0, lat: 0, zoom: 1 });
+  // Shareable state in the URL: read once on mount (level, time and shear levels
+  // wait for the wind levels), then written back as things change
+  const pendingUrlState = useRef<UrlViewState | null>(null);
+  const urlStateRef = useRef<UrlViewState>({});
+  const [writeUrl] = useState(createUrlWriter);
+  // Export hooks into the render effect: hi-res snapshots, and a per-frame copy while recording
+  const snapshotRef = useRef<((width: number, height: number) => HTMLCanvasElement) | null>(null);
+  const frameSinkRef = useRef<((layers: CanvasImageSource[]) => void) | null>(null);
+  // Animated camera moves, set by the render effect; zoom defaults to the current one
+  const flyToRef = useRef<((lon: number, lat: number, zoom?: number) => void) | null>(null);
+  // Searched place, marked on the map like the probe
+  const [place, setPlace] = useState<Place | null>(null);
+  const placeRef = useRef<Place | null>(null);
+  const placeMarkerRef = useRef<HTMLDivElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  // Trajectory tool: while picking, clicks start a trace instead of moving the probe
+  const [trajectoryPicking, setTrajectoryPicking] = useState(false);
+  const [trajectoryHours, setTrajectoryHours] = useState(24);
+  const [trajectoryDirection, setTrajectoryDirection] = useState<TrajectoryDirection>('forward');
+  const [trajectories, setTrajectories] = useState<Trajectory[]>([]);
+  const trajectoriesRef = useRef<Trajectory[]>([]);
+  const trajectoryPickRef = useRef<((at: { lon: number; lat: number }) => void) | null>(null);
+  const [loadProgress, setLoadProgress] = useState<Record<string, LoadProgress>>({});
+  // Model runs of the fields API; runIdx picks the one shown
+  const [catalogue, setCatalogue] = useState<DataCatalogue | null>(null);
+  const [runIdx, setRunIdx] = useState(0);
+  const run = catalogue?.runs[runIdx];
+  // Global wind and overlay fields drawn around a regional run
+  const [backgroundWind, setBackgroundWind] = useState<RunLayer<WindFrame> | null>(null);
+  const [backgroundScalars, setBackgroundScalars] = useState<Partial<Record<VariableId, RunLayer<Float32Array>>>>({});
+  // Another run to compare the wind and temperature overlays with, as A − B or
+  // side by side; runs with ensemble members can show their mean and spread
+  const [compareIdx, setCompareIdx] = useState<number | null>(null);
+  const compareRun = compareIdx === null ? undefined : catalogue?.runs[compareIdx];
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('off');
+  const [compared, setCompared] = useState<Partial<Record<ComparedVariable, RunLayer<Float32Array>>>>({});
+  const [ensemble, setEnsemble] = useState<EnsembleLayers | null>(null);
+  const comparisonAvailable = (mode: ComparisonMode) =>
+    mode === 'off' || (mode === 'difference' || mode === 'swipe' ? !!compareRun : !!run?.members);
+  const pickedComparison = comparisonAvailable(comparisonMode) ? comparisonMode : 'off';
+  const comparison = isCompared(overlayMode) ? pickedComparison : 'off';
+  const ensembleRequested = pickedComparison === 'mean' || pickedComparison === 'spread';
+  // Divider position across the view, as a fraction of its width
+  const [swipePos, setSwipePos] = useState(0.5);
+  const swipeRef = useRef(swipePos);
   const gridMeta = useRef<GridMeta | null>(null);
-  const tempGridMeta = useRef<GridMeta | null>(null);
+  const scalarMeta = useRef<Partial<Record<VariableId, GridMeta>>>({});
+  // Valid times of each scalar variable, which needn't be the wind's
+  const scalarTimes = useRef<Partial<Record<VariableId, string[]>>>({});
   const wrap = useRef<HTMLDivElement>(null);
 
-  // ---- LOAD DATA ---- //
   useEffect(() => {
-    // 1. Fetch manifest listing all per-level files
-    fetch(MANIFEST_URL)
-      .then(r => r.json())
-      .then(async (files: string[]) => {
-        const next: typeof levels = [];
-
-        for (const fname of files) {
-          // 2. Fetch each file in DATA_DIR
-          const uv: WindObj[] = await fetch(`${DATA_DIR}/${fname}`).then(r => r.json());
-
-          const vObj = uv[0];
-          const uObj = uv[1];
-          if (!vObj || !uObj) continue;
-
-          // 3. Setup gridMeta from first loaded file
-          if (!gridMeta.current) {
-            const { nx, ny, lo1, la1, dx, dy } = vObj.header;
-            gridMeta.current = { nx, ny, lo1, la1, dx, dy };
-          }
+    const state = parseUrlState(window.location.search);
+    pendingUrlState.current = state;
+    viewRef.current = {
+      lon: state.lon ?? viewRef.current.lon,
+      lat: state.lat ?? viewRef.current.lat,
+      zoom: state.zoom ?? viewRef.current.zoom
+    };
+    const overlay = state.overlay === 'none' ? 'none' : (overlayById(state.overlay ?? '') ?? diagnosticById(state.overlay ?? ''))?.id;
+    if (overlay) setOverlayMode(overlay);
+    const projection = PROJECTIONS.find(p => p.id === state.projection);
+    if (projection) setProjectionId(projection.id);
+    const { layers, contours, particles, glyphs } = state;
+    if (layers) setMapLayers(m => Object.fromEntries(Object.keys(m).map(id => [id, layers.includes(id)])) as typeof m);
+    if (contours !== undefined) setContoursOn(contours);
+    if (particles !== undefined) setParticlesOn(particles);
+    if (glyphs === 'none' || glyphs === 'barbs' || glyphs === 'arrows') setGlyphMode(glyphs);
+  }, []);
 
-          const to32 = (d: number[]) => new Float32Array(d.map(x => x ?? NaN));
-          const { surface1Type, surface1Value } = vObj.header;
-          const label = surface1Type === 103 ? `${surface1Value} m` : `${surface1Value} hPa`;
+  useEffect(() => {
+    const state = pendingUrlState.current;
+    if (!state || !levels.length) return;
+    pendingUrlState.current = null;
+    const levelIndex = (label: string) => levels.findIndex(l => levelKey(l.label) === levelKey(label));
+    const level = state.level ? levelIndex(state.level) : -1;
+    if (level >= 0) setLvlIdx(level);
+    const time = state.time ? findValidTime(validTimes, state.time) : -1;
+    if (time >= 0) setTimePos(time);
+    const [lower, upper] = state.shear?.map(levelIndex) ?? [-1, -1];
+    if (lower >= 0 && upper >= 0) setShearLevels([lower, upper]);
+  }, [levels, validTimes]);
 
-          const U = to32(uObj.data);
-          const V = to32(vObj.data);
+  // ---- LOAD DATA ---- //
+  // Loads a scalar overlay variable the first time it's selected; set by the load effect
+  const requestVariableRef = useRef<((variable: VariableId) => void) | null>(null);
+  const fieldsApi = dataSource ? undefined : process.env.NEXT_PUBLIC_FIELDS_API;
 
-          // Compute wind speed overlay
-          const S = new Float32Array(U.length);
-          for (let j = 0; j < U.length; j++) {
-            const u = U[j], v = V[j];
-            S[j] = (Number.isFinite(u) && Number.isFinite(v)) ? Math.sqrt(u * u + v * v) : NaN;
-          }
+  useEffect(() => {
+    if (!fieldsApi) return;
+    let cancelled = false;
+    loadCatalogue(fieldsApi).then(result => {
+      if (!cancelled) setCatalogue(result);
+    }).catch(error => {
+      console.warn('Failed to load the data catalogue:', error);
+      // Fall back to the static files
+      if (!cancelled) setCatalogue({ runs: [] });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [fieldsApi]);
 
-          next.push({ label, V, U, S });
-        }
+  useEffect(() => {
+    if (fieldsApi && !catalogue) return;
+    let cancelled = false;
+    const ownSource = dataSource ? null : createWorkerSource(
+      fieldsApi && run ? { kind: 'catalogue', fieldsApi, run } : { kind: 'static', variables: overlayDataSources() }
+    );
+    const source = dataSource ?? ownSource!;
+    const background = fieldsApi && catalogue && run ? backgroundRun(catalogue, run) : undefined;
+    const backgroundSource = background ? createWorkerSource({ kind: 'catalogue', fieldsApi: fieldsApi!, run: background }) : null;
+    // Another run may have another grid and other variables
+    gridMeta.current = null;
+    scalarMeta.current = {};
+    scalarTimes.current = {};
+    setScalarLevels({});
+    setLoadProgress({});
+    setBackgroundWind(null);
+    setBackgroundScalars({});
+
+    const progress: ProgressUpdater = update => {
+      if (!cancelled) setLoadProgress(update);
+    };
 
-        setLevels(next);
+    // The background loads quietly; failures only leave it out
+    const loadBackground = <T,>(variable: VariableId, toFrame: (field: Field) => T, done: (layer: RunLayer<T>) => void) => {
+      if (!backgroundSource || !background?.variables.some(v => v.id === variable)) return;
+      loadLayer<T>(backgroundSource, variable, toFrame).then(layer => {
+        if (!cancelled && layer) done(layer);
+      }).catch(error => {
+        console.warn(`Failed to load the background ${variable}:`, error);
       });
+    };
 
-    // Load temperature manifest and data
-    fetch(TEMP_MANIFEST_URL)
-      .then(r => r.json())
-      .then(async (files: string[]) => {
-        const next: { label: string; T: Float32Array }[] = [];
-        console.log('Loading temperature files:', files);
-        for (const fname of files) {
-          try {
-            const tObj = await fetch(`${TEMP_DATA_DIR}/${fname}`).then(r => r.json());
-            if (!tObj || !tObj.header || !tObj.data) continue;
-            
-            console.log(`Temperature file ${fname}:`, {
-              header: tObj.header,
-              dataLength: tObj.data?.length,
-              sampleData: tObj.data?.slice(0, 10)
-            });
-            
-            // Setup tempGridMeta from first loaded temperature file
-            if (!tempGridMeta.current) {
-              const { nx, ny, lo1, la1, dx, dy } = tObj.header;
-              tempGridMeta.current = { nx, ny, lo1, la1, dx, dy };
-              console.log('Temperature grid metadata:', tempGridMeta.current);
-              console.log('Grid longitude range:', lo1, 'to', lo1 + nx * dx);
-              console.log('Grid latitude range:', la1, 'to', la1 - ny * dy);
-            }
-            
-            const { surface1Type, surface1Value } = tObj.header;
-            const label = surface1Type === 103 ? `${surface1Value} m` : `${surface1Value} hPa`;
-            const T = new Float32Array(tObj.data.map((x: number) => x ?? NaN));
-            next.push({ label, T });
-          } catch (error) {
-            console.warn(`Failed to load temperature file ${fname}:`, error);
-            continue;
-          }
-        }
-        console.log('Loaded temperature levels:', next.map(l => l.label));
-        setTempLevels(next);
-      })
-      .catch(error => {
-        console.warn('Failed to load temperature manifest:', error);
+    loadBackground('wind', windFrame, setBackgroundWind);
+    loadVariable<WindFrame>(source, 'wind', progress, field => {
+      if (!gridMeta.current) gridMeta.current = field.meta;
+      return windFrame(field);
+    }).then(result => {
+      if (cancelled) return;
+      setLevels(result.levels);
+      setValidTimes(result.times);
+    }).catch(error => {
+      console.warn('Failed to load wind data:', error);
+    });
+
+    const requested = new Set<VariableId>();
+    const requestVariable = (variable: VariableId) => {
+      const overlay = OVERLAYS.find(o => o.variable === variable);
+      // Wind speed comes with the wind frames loaded above
+      if (!overlay || variable === 'wind' || requested.has(variable)) return;
+      if (run && !run.variables.some(v => v.id === variable)) return;
+      requested.add(variable);
+      const toFrame = overlayFrame(overlay);
+      loadBackground(variable, toFrame, layer => setBackgroundScalars(prev => ({ ...prev, [variable]: layer })));
+      loadVariable<Float32Array>(source, variable, progress, field => {
+        scalarMeta.current[variable] ??= field.meta;
+        return toFrame(field);
+      }).then(result => {
+        if (cancelled) return;
+        scalarTimes.current[variable] = result.times;
+        setScalarLevels(prev => ({ ...prev, [variable]: result.levels }));
+      }).catch(error => {
+        console.warn(`Failed to load ${overlay.name}:`, error);
+        progress(prev => ({
+          ...prev,
+          [`${variable}:`]: { variable, label: '', loaded: 0, total: 1, errors: [error instanceof Error ? error.message : String(error)] }
+        }));
       });
-  }, []);
+    };
+    requestVariableRef.current = requestVariable;
 
-  /**
-   * Enhanced Nullschool temperature color scale with better contrast for all temperatures
-   * Optimized for better visibility of temperature differences, especially at higher temps
-   * Temperature range: -80°C to +50°C with enhanced gradients
-   */
-  function tempColorScale(tempValue: number, alpha: number = 1): [number, number, number, number] {
-    // Handle invalid values
-    if (!Number.isFinite(tempValue)) {
-      return [0, 0, 0, 0]; // Transparent for invalid data
-    }
-    
-    // Convert Kelvin to Celsius if needed
-    const tempC = tempValue > 100 ? tempValue - 273.15 : tempValue;
-    
-    // Nullschool temperature range: -80°C to +50°C
-    const minTemp = -80;
-    const maxTemp = 50;
-    const clampedTemp = Math.max(minTemp, Math.min(maxTemp, tempC));
-    
-    // Normalize to [0, 1]
-    const t = (clampedTemp - minTemp) / (maxTemp - minTemp);
-    
-    let r: number, g: number, b: number;
-    
-    // Enhanced color mapping with better contrast and visibility
-    if (t < 0.10) { // -80°C to -67°C: Deep Purple (Very Cold)
-      const scale = t / 0.10;
-      r = Math.round(80 + scale * 30);   // Deep purple to purple
-      g = Math.round(20 + scale * 40);
-      b = Math.round(120 + scale * 60);
-    } else if (t < 0.25) { // -67°C to -47.5°C: Purple to Blue (Cold)
-      const scale = (t - 0.10) / 0.15;
-      r = Math.round(110 * (1 - scale) + 50 * scale);
-      g = Math.round(60 * (1 - scale) + 120 * scale);
-      b = Math.round(180 * (1 - scale) + 220 * scale);
-    } else if (t < 0.40) { // -47.5°C to -28°C: Blue to Light Blue (Cool)
-      const scale = (t - 0.25) / 0.15;
-      r = Math.round(50 * (1 - scale) + 80 * scale);
-      g = Math.round(120 * (1 - scale) + 180 * scale);
-      b = Math.round(220 * (1 - scale) + 240 * scale);
-    } else if (t < 0.50) { // -28°C to -15°C: Light Blue to Cyan (Cool-Mild)
-      const scale = (t - 0.40) / 0.10;
-      r = Math.round(80 * (1 - scale) + 100 * scale);
-      g = Math.round(180 * (1 - scale) + 220 * scale);
-      b = Math.round(240 * (1 - scale) + 240 * scale);
-    } else if (t < 0.60) { // -15°C to -2°C: Cyan to Light Green (Around Freezing)
-      const scale = (t - 0.50) / 0.10;
-      r = Math.round(100 * (1 - scale) + 160 * scale);
-      g = Math.round(220 * (1 - scale) + 240 * scale);
-      b = Math.round(240 * (1 - scale) + 180 * scale);
-    } else if (t < 0.70) { // -2°C to +11°C: Light Green to Yellow-Green (Mild)
-      const scale = (t - 0.60) / 0.10;
-      r = Math.round(160 * (1 - scale) + 220 * scale);
-      g = Math.round(240 * (1 - scale) + 250 * scale);
-      b = Math.round(180 * (1 - scale) + 120 * scale);
-    } else if (t < 0.78) { // +11°C to +21°C: Yellow-Green to Yellow (Warm)
-      const scale = (t - 0.70) / 0.08;
-      r = Math.round(220 * (1 - scale) + 255 * scale);
-      g = Math.round(250 * (1 - scale) + 240 * scale);
-      b = Math.round(120 * (1 - scale) + 60 * scale);
-    } else if (t < 0.86) { // +21°C to +31°C: Yellow to Orange (Hot)
-      const scale = (t - 0.78) / 0.08;
-      r = Math.round(255);  // Keep red at max
-      g = Math.round(240 * (1 - scale) + 160 * scale);
-      b = Math.round(60 * (1 - scale) + 20 * scale);
-    } else if (t < 0.93) { // +31°C to +41°C: Orange to Red-Orange (Very Hot)
-      const scale = (t - 0.86) / 0.07;
-      r = Math.round(255 * (1 - scale) + 250 * scale);
-      g = Math.round(160 * (1 - scale) + 80 * scale);
-      b = Math.round(20 * (1 - scale) + 15 * scale);
-    } else if (t < 0.97) { // +41°C to +47°C: Red-Orange to Deep Red (Extremely Hot)
-      const scale = (t - 0.93) / 0.04;
-      r = Math.round(250 * (1 - scale) + 220 * scale);
-      g = Math.round(80 * (1 - scale) + 30 * scale);
-      b = Math.round(15 * (1 - scale) + 10 * scale);
-    } else { // +47°C to +50°C: Deep Red to Dark Red (Extreme Heat)
-      const scale = (t - 0.97) / 0.03;
-      r = Math.round(220 * (1 - scale) + 180 * scale);
-      g = Math.round(30 * (1 - scale) + 10 * scale);
-      b = Math.round(10 * (1 - scale) + 5 * scale);
+    // Temperature feeds the probe and sounding, so it loads up front
+    requestVariable('temperature');
+
+    return () => {
+      cancelled = true;
+      requestVariableRef.current = null;
+      ownSource?.dispose();
+      backgroundSource?.dispose();
+    };
+  }, [dataSource, fieldsApi, catalogue, run]);
+
+  useEffect(() => {
+    const overlay = overlayById(overlayMode);
+    if (overlay) requestVariableRef.current?.(overlay.variable);
+  }, [overlayMode, dataSource, run]);
+
+  // The compared run's wind speed and temperature, on its own grid and valid times
+  useEffect(() => {
+    setCompared({});
+    if (!fieldsApi || !compareRun) return;
+    let cancelled = false;
+    const source = createWorkerSource({ kind: 'catalogue', fieldsApi, run: compareRun });
+    for (const variable of COMPARED) {
+      if (!compareRun.variables.some(v => v.id === variable)) continue;
+      loadLayer(source, variable, overlayFrame(overlayById(variable)!)).then(layer => {
+        if (!cancelled && layer) setCompared(prev => ({ ...prev, [variable]: layer }));
+      }).catch(error => {
+        console.warn(`Failed to load the compared ${variable}:`, error);
+      });
     }
-    
-    return [r, g, b, Math.floor(alpha * 255)];
-  }
+    return () => {
+      cancelled = true;
+      source.dispose();
+    };
+  }, [fieldsApi, compareRun]);
+
+  // Ensemble mean and spread, loaded while shown; one member at a time, so only
+  // the running statistics stay in memory
+  useEffect(() => {
+    setEnsemble(null);
+    const members = run?.members;
+    if (!fieldsApi || !run || !members || !ensembleRequested) return;
+    let cancelled = false;
+    let source: ReturnType<typeof createWorkerSource> | null = null;
+    const variables = COMPARED.filter(v => run.variables.some(c => c.id === v));
+    const accumulated = variables.map(() => createEnsembleLayer());
+    setEnsemble({ loaded: 0, total: members.length, layers: {} });
+    (async () => {
+      for (const member of members) {
+        source = createWorkerSource({ kind: 'catalogue', fieldsApi, run, member });
+        for (const [k, variable] of variables.entries()) {
+          const layer = await loadLayer(source, variable, overlayFrame(overlayById(variable)!)).catch(error => {
+            console.warn(`Failed to load ${variable} of ensemble member ${member}:`, error);
+            return null;
+          });
+          if (cancelled) return;
+          if (layer && !accumulated[k].add(layer)) console.warn(`Ensemble member ${member} has ${variable} on another grid; left out`);
+        }
+        source.dispose();
+        source = null;
+        setEnsemble(prev => prev && { ...prev, loaded: prev.loaded + 1 });
+      }
+      const layers: EnsembleLayers['layers'] = {};
+      variables.forEach((variable, k) => {
+        const layer = accumulated[k].result();
+        if (layer) layers[variable] = layer;
+      });
+      setEnsemble(prev => prev && { ...prev, layers });
+    })();
+    return () => {
+      cancelled = true;
+      source?.dispose();
+    };
+  }, [fieldsApi, run, ensembleRequested]);
 
   // ---- RENDERING ---- //
   useEffect(() => {
@@ -328,8 +699,15 @@ export default function GlobeWindMap() {
     // Capture the current value of wrap.current to avoid stale closure
     const currentWrap = wrap.current;
 
-    const { nx, lo1, la1, dx, dy } = gridMeta.current;
-    const { U, V } = levels[lvlIdx];
+    const windMeta = gridMeta.current;
+    const { frames } = levels[lvlIdx];
+    // Global wind around a regional grid, sampled at the same valid time
+    const windBackground = layerLevel(backgroundWind, levels[lvlIdx].label);
+    const runTimePos = (times: string[]) => matchingTimePos(validTimes, times, timeRef.current);
+    // Particles start inside a regional grid unless there's wind around it
+    const seedBounds = gridBounds(windBackground?.meta ?? windMeta);
+    // Particles are drawn brighter over scalar overlays other than wind speed
+    const brightParticles = overlayMode !== 'wind' && overlayMode !== 'none';
 
     const scene = new THREE.Scene();
     const renderer = new THREE.WebGLRenderer({ antialias: true });
@@ -338,8 +716,14 @@ export default function GlobeWindMap() {
     renderer.domElement.style.cssText = "position:absolute;inset:0";
     currentWrap.appendChild(renderer.domElement);
 
-    const camera = new THREE.PerspectiveCamera(60, 1, 0.1, 2000);
-    camera.position.set(0, 0, 450);
+    // Flat maps are drawn on the z = 0 plane under an orthographic camera,
+    // centred (like the globe) on the previous view
+    const view = viewRef.current;
+    const projection = projectionId === 'globe' ? null : createProjection(projectionId, view.lon, view.lat, GLOBE_RADIUS);
+    const toWorld = worldMapping(projection);
+    const camera = projection
+      ? new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, 2000)
+      : new THREE.PerspectiveCamera(60, 1, 0.1, 2000);
 
     const controls = new OrbitControls(camera, renderer.domElement);
     controls.enableDamping = true;
@@ -349,6 +733,67 @@ export default function GlobeWindMap() {
     controls.zoomSpeed = 1.0; // More controlled zoom
     controls.rotateSpeed = 0.8; // Slightly slower for more precise control
 
+    if (projection) {
+      // Pan and zoom only
+      const [x, y] = projection.forward(view.lon, view.lat) ?? [0, 0];
+      camera.position.set(x, y, 1000);
+      camera.zoom = THREE.MathUtils.clamp(view.zoom, 0.5, 20);
+      controls.target.set(x, y, 0);
+      controls.enableRotate = false;
+      controls.zoomToCursor = true;
+      controls.minZoom = 0.5;
+      controls.maxZoom = 20;
+      controls.mouseButtons = { LEFT: THREE.MOUSE.PAN, MIDDLE: THREE.MOUSE.DOLLY, RIGHT: THREE.MOUSE.PAN };
+      controls.touches = { ONE: THREE.TOUCH.PAN, TWO: THREE.TOUCH.DOLLY_PAN };
+    } else {
+      // Off the exact poles, where the orbit controls lose their bearing
+      const lat = THREE.MathUtils.clamp(view.lat, -89, 89);
+      camera.position.copy(lonLatToVec3(view.lon, lat, THREE.MathUtils.clamp(DEFAULT_DISTANCE / view.zoom, 250, 800)));
+    }
+    controls.update();
+
+    // Zoom as a globe camera distance, so detail levels match between views
+    const viewDistance = () => projection ? DEFAULT_DISTANCE / camera.zoom : camera.position.distanceTo(controls.target);
+
+    // lon/lat at the centre of the view; null when a flat map is panned off the edge
+    const viewCenter = () => {
+      if (projection) {
+        const at = projection.inverse(controls.target.x, controls.target.y);
+        return at && { lon: at[0], lat: at[1] };
+      }
+      const n = camera.position.clone().normalize();
+      return { lon: THREE.MathUtils.radToDeg(Math.atan2(n.x, n.z)), lat: THREE.MathUtils.radToDeg(Math.asin(n.y)) };
+    };
+
+    // --------------- GPU PARTICLES (Canvas2D fallback below) --------------- //
+    const gpuParticles = GPU_PARTICLES_ENABLED && supportsGpuParticles(renderer)
+      ? createGpuParticles(renderer, windMeta, {
+          count: GPU_PARTICLE_COUNT,
+          life: PARTICLE_LIFE,
+          speed: SPEED_FACTOR,
+          radius: GLOBE_RADIUS + 0.5,
+          fade: TRAIL_FADE,
+          color: 0xffffff,
+          opacity: brightParticles ? 0.9 : 0.7,
+          projection,
+          background: windBackground?.meta,
+          bounds: seedBounds
+        })
+      : null;
+
+    // Wind textures are built lazily, one per time step
+    const windTextures: THREE.DataTexture[] = [];
+    const windTexture = (t: number) =>
+      (windTextures[t] ??= createGridTexture(windMeta, frames[t].U, frames[t].V));
+    const backgroundWindTextures: THREE.DataTexture[] = [];
+    const backgroundWindFields = (): BackgroundFields | null => {
+      if (!windBackground) return null;
+      const { meta, times, frames: back } = windBackground;
+      const { t0, t1, f } = timeBlend(runTimePos(times), back.length);
+      const texture = (t: number) => (backgroundWindTextures[t] ??= createGridTexture(meta, back[t].U, back[t].V));
+      return { field0: texture(t0), field1: texture(t1), blend: f };
+    };
+
     // --------------- WIND TRAILS CANVAS --------------- //
     const windCanvas = document.createElement("canvas");
     windCanvas.style.cssText = "position:absolute;inset:0;pointer-events:none";
@@ -360,7 +805,7 @@ export default function GlobeWindMap() {
     ctx.lineJoin = 'round';
     
     // Adjust shadow based on overlay mode for better contrast
-    if (overlayMode === 'temperature') {
+    if (brightParticles) {
       ctx.shadowBlur = 8;
       ctx.shadowColor = "rgba(0,0,0,0.8)";
     } else {
@@ -368,46 +813,33 @@ export default function GlobeWindMap() {
       ctx.shadowColor = "rgba(255,255,255,0.6)";
     }
 
-    // --------------- WIND SPEED OVERLAY CANVAS --------------- //
-    const overlayCanvas = document.createElement("canvas");
-    overlayCanvas.style.cssText = "position:absolute;inset:0;pointer-events:none;transition:opacity 0.1s ease-out";
-    currentWrap.appendChild(overlayCanvas);
-
-    const overlayCtx = overlayCanvas.getContext("2d")!;
-
-    // Movement tracking variables with improved state management
+    // Movement tracking for the Canvas2D particle fallback
     let isMoving = false;
     let moveTimeout: NodeJS.Timeout;
-    let isRendering = false;
-    let pendingRender = false;
-    let lastRenderTime = 0;
-    const MIN_RENDER_INTERVAL = 100; // Reduced minimum interval for faster updates
-    let fadeTimeout: NodeJS.Timeout;
-    let overlayFadeLevel = 1.0; // Track overlay opacity for smooth transitions
 
     // --------------- RESIZE HANDLER --------------- //
+    // Drawing buffer and camera for a w x h view; snapshots render at their own size
+    const setViewSize = (w: number, h: number, updateStyle = true) => {
+      renderer.setSize(w, h, updateStyle);
+      if (camera instanceof THREE.OrthographicCamera) {
+        camera.left = -FLAT_HALF_HEIGHT * w / h;
+        camera.right = FLAT_HALF_HEIGHT * w / h;
+        camera.top = FLAT_HALF_HEIGHT;
+        camera.bottom = -FLAT_HALF_HEIGHT;
+      } else {
+        camera.aspect = w / h;
+      }
+      camera.updateProjectionMatrix();
+      gpuParticles?.resize();
+    };
+
     const resize = () => {
       const { offsetWidth: w, offsetHeight: h } = currentWrap;
-      renderer.setSize(w, h);
-      camera.aspect = w / h;
-      camera.updateProjectionMatrix();
+      renderer.setPixelRatio(window.devicePixelRatio);
+      setViewSize(w, h);
       windCanvas.width = w;
       windCanvas.height = h;
-      overlayCanvas.width = w;
-      overlayCanvas.height = h;
       ctx.clearRect(0, 0, w, h);
-      
-      // Don't clear overlay during resize - just mark for re-render
-      if ((airModeEnabled || overlayMode === 'temperature') && !isMoving) {
-        setTimeout(() => {
-          if (!isMoving) {
-            // Reset opacity before rendering
-            overlayFadeLevel = 1.0;
-            overlayCanvas.style.opacity = '1.0';
-            renderAirModeOverlay();
-          }
-        }, 100);
-      }
     };
     resize();
     window.addEventListener("resize", resize);
@@ -420,82 +852,71 @@ export default function GlobeWindMap() {
     });
     const globeGeometry = new THREE.SphereGeometry(GLOBE_RADIUS, 64, 64);
     const globeMesh = new THREE.Mesh(globeGeometry, globeMaterial);
-    scene.add(globeMesh);
-
-    // --------------- COUNTRY OUTLINES - WITH SMART FILTERING --------------- //
-    (async () => {
-      const topo = await (await fetch(WORLD_URL)).json();
-      const geos = (feature(
-        topo,
-        topo.objects.countries
-      ) as unknown as FeatureCollection<Geometry, GeoJsonProperties>).features;
-
-      const pos: number[] = [];
-
-      const pushSeg = (a: number[], b: number[]) => {
-        // Skip segments that cross the antimeridian (180°/-180° boundary)
-        if (Math.abs(a[0] - b[0]) > 180) return;
-        
-        // Skip very long segments that could be problematic
-        const distance = Math.sqrt(Math.pow(a[0] - b[0], 2) + Math.pow(a[1] - b[1], 2));
-        if (distance > 30) return; // More conservative filtering
-        
-        // Skip near-vertical segments that could create the black line artifact
-        const lonDiff = Math.abs(a[0] - b[0]);
-        const latDiff = Math.abs(a[1] - b[1]);
-        
-        // This is the key fix: skip segments that are nearly vertical and long
-        if (lonDiff < 0.5 && latDiff > 15) return; // Skip long vertical-like segments
-        
-        // Skip segments very close to problematic meridians (more focused filtering)
-        const tolerance = 0.1; // Much smaller tolerance
-        if (Math.abs(Math.abs(a[0]) - 180) < tolerance && Math.abs(Math.abs(b[0]) - 180) < tolerance) return;
-        if (Math.abs(a[0]) < tolerance && Math.abs(b[0]) < tolerance) return;
-        
-        // Allow most other segments for proper country outlines
-        const v1 = lonLatToVec3(a[0], a[1], GLOBE_RADIUS + 1.1);
-        const v2 = lonLatToVec3(b[0], b[1], GLOBE_RADIUS + 1.1);
-        pos.push(v1.x, v1.y, v1.z, v2.x, v2.y, v2.z);
-      };
-
-      const ring = (coords: number[][]) => {
-        if (coords.length < 2) return;
-        const closed = [...coords];
-        const [fLon, fLat] = coords[0];
-        const [lLon, lLat] = coords[coords.length - 1];
-        if (fLon !== lLon || fLat !== lLat) closed.push([fLon, fLat]);
-        for (let i = 0; i < closed.length - 1; i++) pushSeg(closed[i], closed[i + 1]);
-      };
-
-      // Draw country borders with smart filtering
-      geos.forEach((g: Feature<Geometry, GeoJsonProperties>) => {
-        const { geometry } = g;
-        if (geometry.type === "Polygon") {
-          geometry.coordinates.forEach(ring);
-        } else if (geometry.type === "MultiPolygon") {
-          geometry.coordinates.forEach(polygon => polygon.forEach(ring));
+    if (!projection) scene.add(globeMesh);
+
+    // --------------- COUNTRY OUTLINES AND MAP LAYERS --------------- //
+    // Country detail follows the zoom level; optional layers load the first time they're shown
+    let disposed = false;
+    const countryLines = new THREE.LineSegments(
+      new THREE.BufferGeometry(),
+      new THREE.LineBasicMaterial({ color: 0xffffff, opacity: 0.6, transparent: true })
+    );
+    scene.add(countryLines);
+    let countryResolution: CountryResolution | null = null;
+
+    const updateCountryResolution = () => {
+      const resolution = resolutionForDistance(viewDistance());
+      if (resolution === countryResolution) return;
+      countryResolution = resolution;
+      loadOutlines(countriesUrl(resolution), { object: "countries" })
+        .then(lines => {
+          if (disposed || resolution !== countryResolution) return;
+          countryLines.geometry.dispose();
+          countryLines.geometry = outlineGeometry(lines, GLOBE_RADIUS + 1.1, projection);
+        })
+        .catch(error => console.warn(`Failed to load ${resolution} country outlines:`, error));
+    };
+    updateCountryResolution();
+
+    const layerLines = new Map<MapLayerId, THREE.LineSegments>();
+    const updateMapLayers = () => {
+      for (const layer of MAP_LAYERS) {
+        const visible = mapLayersRef.current[layer.id];
+        const lines = layerLines.get(layer.id);
+        if (lines) {
+          lines.visible = visible;
+        } else if (visible) {
+          const pending = new THREE.LineSegments(
+            new THREE.BufferGeometry(),
+            new THREE.LineBasicMaterial({ color: layer.color, opacity: layer.opacity, transparent: true })
+          );
+          layerLines.set(layer.id, pending);
+          scene.add(pending);
+          loadOutlines(layer.url, layer)
+            .then(outlines => {
+              if (disposed) return;
+              pending.geometry.dispose();
+              pending.geometry = outlineGeometry(outlines, GLOBE_RADIUS + 1.0, projection);
+            })
+            .catch(error => console.warn(`Failed to load ${layer.name} layer:`, error));
         }
-      });
-
-      const geo = new THREE.BufferGeometry();
-      geo.setAttribute("position", new THREE.Float32BufferAttribute(pos, 3));
-
-      scene.add(new THREE.LineSegments(
-        geo,
-        new THREE.LineBasicMaterial({ color: 0xffffff, opacity: 0.6, transparent: true })
-      ));
-    })();
+      }
+    };
 
     // --------------- LAT/LON GRID (REFERENCE) --------------- //
     // Re-enabled grid lines with careful filtering to avoid artifacts
     const gridLines: number[] = [];
+    const pushGridSegment = (lon1: number, lat1: number, lon2: number, lat2: number) => {
+      const v1 = toWorld(lon1, lat1, GLOBE_RADIUS + 0.8);
+      const v2 = toWorld(lon2, lat2, GLOBE_RADIUS + 0.8);
+      if (!v1 || !v2 || projection?.breaks(lon1, lon2)) return;
+      gridLines.push(v1.x, v1.y, v1.z, v2.x, v2.y, v2.z);
+    };
     
     // Latitude lines (horizontal)
     for (let lat = -80; lat <= 80; lat += 20) {
       for (let lon = -180; lon < 180; lon += 2) {
-        const v1 = lonLatToVec3(lon, lat, GLOBE_RADIUS + 0.8);
-        const v2 = lonLatToVec3(lon + 2, lat, GLOBE_RADIUS + 0.8);
-        gridLines.push(v1.x, v1.y, v1.z, v2.x, v2.y, v2.z);
+        pushGridSegment(lon, lat, lon + 2, lat);
       }
     }
     
@@ -505,9 +926,7 @@ export default function GlobeWindMap() {
       if (Math.abs(lon) === 180 || lon === 0) continue;
       
       for (let lat = -80; lat < 80; lat += 2) {
-        const v1 = lonLatToVec3(lon, lat, GLOBE_RADIUS + 0.8);
-        const v2 = lonLatToVec3(lon, lat + 2, GLOBE_RADIUS + 0.8);
-        gridLines.push(v1.x, v1.y, v1.z, v2.x, v2.y, v2.z);
+        pushGridSegment(lon, lat, lon, lat + 2);
       }
     }
     
@@ -520,10 +939,51 @@ export default function GlobeWindMap() {
       ));
     }
 
+    // Graticule labels: latitudes between meridians, longitudes along the equator
+    const graticuleLabels = new THREE.Group();
+    const addGraticuleLabel = (text: string, lon: number, lat: number) => {
+      const position = toWorld(lon, lat, GLOBE_RADIUS + 2);
+      if (position) graticuleLabels.add(labelSprite(text, position));
+    };
+    for (let lat = -80; lat <= 80; lat += 20) {
+      if (lat === 0) continue;
+      for (let lon = -165; lon < 180; lon += 90) {
+        addGraticuleLabel(`${Math.abs(lat)}°${lat > 0 ? "N" : "S"}`, lon, lat);
+      }
+    }
+    for (let lon = -150; lon <= 180; lon += 30) {
+      const text = lon === 0 || lon === 180 ? `${lon}°` : `${Math.abs(lon)}°${lon > 0 ? "E" : "W"}`;
+      addGraticuleLabel(text, lon, 2);
+    }
+    scene.add(graticuleLabels);
+
+    // --------------- DOMAIN BOUNDARY --------------- //
+    // Edge of a regional wind grid
+    const domainLines = new THREE.LineSegments(
+      new THREE.BufferGeometry(),
+      new THREE.LineBasicMaterial({ color: 0x7dd3fc, opacity: 0.8, transparent: true })
+    );
+    if (!wrapsLongitude(windMeta)) {
+      const ring = gridOutline(windMeta);
+      const pos: number[] = [];
+      for (let k = 1; k < ring.length; k++) {
+        const [lon1, lat1] = ring[k - 1], [lon2, lat2] = ring[k];
+        const v1 = toWorld(lon1, lat1, GLOBE_RADIUS + 1.3);
+        const v2 = toWorld(lon2, lat2, GLOBE_RADIUS + 1.3);
+        if (!v1 || !v2 || projection?.breaks(lon1, lon2)) continue;
+        pos.push(v1.x, v1.y, v1.z, v2.x, v2.y, v2.z);
+      }
+      domainLines.geometry.setAttribute("position", new THREE.Float32BufferAttribute(pos, 3));
+      scene.add(domainLines);
+    }
+
     // --------------- PARTICLES --------------- //
+    const seedPosition = () => ({
+      lon: normalizeLon(seedBounds.west + Math.random() * (seedBounds.east - seedBounds.west)),
+      lat: seedBounds.south + Math.random() * (seedBounds.north - seedBounds.south)
+    });
     const particles = Array.from({ length: PARTICLE_COUNT }, () => ({
-      lon: Math.random() * 360 - 180,
-      lat: Math.random() * 180 - 90,
+      ...seedPosition(),
       age: Math.random() * PARTICLE_LIFE
     }));
 
@@ -531,52 +991,33 @@ export default function GlobeWindMap() {
     const clearPrev = (i: number) => (prevXY[2 * i] = prevXY[2 * i + 1] = NaN);
 
     const recycle = (i: number) => {
-      particles[i] = {
-        lon: Math.random() * 360 - 180,
-        lat: Math.random() * 180 - 90,
-        age: 0
-      };
+      particles[i] = { ...seedPosition(), age: 0 };
       clearPrev(i);
     };
 
-    const idx = (j: number, i: number) => j * nx + ((i + nx) % nx);
-
-    // FIXED: Improved longitude normalization to prevent wraparound artifacts
-    const normalizeLon = (lon: number) => {
-      // Ensure longitude is properly wrapped to [-180, 180] range
-      let normalized = ((lon + 180) % 360) - 180;
-      if (normalized < -180) normalized += 360;
-      if (normalized > 180) normalized -= 360;
-      return normalized;
+    const windOn = (meta: GridMeta, steps: WindFrame[], pos: number, lon: number, lat: number) => {
+      // Blend linearly between the two time steps around the playback position
+      const { t0, t1, f } = timeBlend(pos, steps.length);
+      const a = steps[t0], b = steps[t1];
+      const u0 = sampleGrid(meta, a.U, lon, lat), v0 = sampleGrid(meta, a.V, lon, lat);
+      if (f === 0 || a === b) return { u: u0, v: v0 };
+      return {
+        u: u0 + (sampleGrid(meta, b.U, lon, lat) - u0) * f,
+        v: v0 + (sampleGrid(meta, b.V, lon, lat) - v0) * f
+      };
     };
-
     const windAt = (lon: number, lat: number) => {
-      // Shift longitude by +180 for correct alignment
-      lon = normalizeLon(lon);
-      const i = ((lon - lo1 + 360) % 360) / dx;
-      const j = (la1 - lat) / dy;
-      const i0 = Math.floor(i), j0 = Math.floor(j);
-      const fi = i - i0, fj = j - j0;
-
-      const interp = (A: Float32Array) => {
-        const g00 = A[idx(j0, i0)],
-          g10 = A[idx(j0, i0 + 1)],
-          g01 = A[idx(j0 + 1, i0)],
-          g11 = A[idx(j0 + 1, i0 + 1)];
-        return g00 * (1 - fi) * (1 - fj) +
-          g10 * fi * (1 - fj) +
-          g01 * (1 - fi) * fj +
-          g11 * fi * fj;
-      };
-
-      return { u: interp(U), v: interp(V) };
+      const wind = windOn(windMeta, frames, timeRef.current, lon, lat);
+      if (Number.isFinite(wind.u) || !windBackground) return wind;
+      const { meta, times, frames: back } = windBackground;
+      return windOn(meta, back, runTimePos(times), lon, lat);
     };
 
     // STREAMLINES colored by local wind speed!
     const trailColor = () => {
-      // Make wind particles more visible when temperature overlay is active
-      if (overlayMode === 'temperature') {
-        return "rgba(255,255,255,0.9)"; // Brighter white for better visibility over temperature
+      // Make wind particles more visible over scalar overlays
+      if (brightParticles) {
+        return "rgba(255,255,255,0.9)"; // Brighter white for better visibility over the overlay
       }
       return "rgba(255,255,255,0.7)"; // Standard nullschool style
     };
@@ -588,16 +1029,101 @@ export default function GlobeWindMap() {
       return [(vec.x * 0.5 + 0.5) * s.x, (-vec.y * 0.5 + 0.5) * s.y];
     };
 
+    // Ray-casts a client-space point onto the globe sphere (or inverts the flat
+    // map projection); null when it misses
+    const pickLonLat = (clientX: number, clientY: number) => {
+      const rect = renderer.domElement.getBoundingClientRect();
+      const ndcX = ((clientX - rect.left) / rect.width) * 2 - 1;
+      const ndcY = -((clientY - rect.top) / rect.height) * 2 + 1;
+      if (projection) {
+        const onPlane = new THREE.Vector3(ndcX, ndcY, 0).unproject(camera);
+        const at = projection.inverse(onPlane.x, onPlane.y);
+        return at && { lon: at[0], lat: at[1] };
+      }
+      const rayDirection = new THREE.Vector3(ndcX, ndcY, 0.5).unproject(camera).sub(camera.position).normalize();
+      const oc = camera.position;
+      const b = 2.0 * oc.dot(rayDirection);
+      const c = oc.dot(oc) - GLOBE_RADIUS * GLOBE_RADIUS;
+      const discriminant = b * b - 4 * c;
+      if (discriminant < 0) return null;
+      const t = (-b - Math.sqrt(discriminant)) / 2;
+      if (t <= 0) return null;
+      const hit = camera.position.clone().add(rayDirection.multiplyScalar(t));
+      return {
+        lon: Math.atan2(hit.x, hit.z) * 180 / Math.PI,
+        lat: Math.asin(THREE.MathUtils.clamp(hit.y / GLOBE_RADIUS, -1, 1)) * 180 / Math.PI
+      };
+    };
+
+    // --------------- PROBE --------------- //
+    const readProbe = () => {
+      const at = probeRef.current;
+      if (!at) return;
+      const { u, v } = windAt(at.lon, at.lat);
+      const tempLevel = matchingLevel(scalarLevels.temperature, levels[lvlIdx].label);
+      const tempMeta = scalarMeta.current.temperature;
+      const tempK = tempLevel && tempMeta
+        ? sampleFrames(tempMeta, tempLevel.frames, timeRef.current, at.lon, at.lat)
+        : NaN;
+      setProbeReading({
+        ...at,
+        level: levels[lvlIdx].label,
+        u,
+        v,
+        speed: windSpeed(u, v),
+        direction: windDirection(u, v),
+        tempK
+      });
+    };
+    readProbe();
+
+    // Clicks (not drags) start a trajectory while picking, else pin the probe in probe mode
+    let pointerDown: [number, number] | null = null;
+    const onPointerDown = (e: PointerEvent) => { pointerDown = [e.clientX, e.clientY]; };
+    const onPointerUp = (e: PointerEvent) => {
+      const pickTrajectory = trajectoryPickRef.current;
+      if ((!probeModeRef.current && !pickTrajectory) || !pointerDown) return;
+      const moved = Math.hypot(e.clientX - pointerDown[0], e.clientY - pointerDown[1]);
+      pointerDown = null;
+      if (moved > 4) return;
+      const at = pickLonLat(e.clientX, e.clientY);
+      if (!at) return;
+      if (pickTrajectory) {
+        pickTrajectory(at);
+        return;
+      }
+      probeRef.current = at;
+      readProbe();
+    };
+    renderer.domElement.addEventListener('pointerdown', onPointerDown);
+    renderer.domElement.addEventListener('pointerup', onPointerUp);
+
+    // Keeps an HTML marker (probe or searched place) glued to its globe position
+    const updateMarker = (el: HTMLDivElement | null, at: { lon: number; lat: number } | null) => {
+      if (!el) return;
+      const world = at ? toWorld(at.lon, at.lat, GLOBE_RADIUS) : null;
+      const facing = world && (projection || world.clone().normalize().dot(camera.position.clone().normalize()) > 0);
+      const scr = world && facing ? worldToScreen(world) : null;
+      if (!scr) {
+        el.style.display = 'none';
+        return;
+      }
+      el.style.display = 'block';
+      el.style.transform = `translate(${scr[0]}px, ${scr[1]}px)`;
+    };
+
     const lastCamPos = camera.position.clone();
     const lastCamTarget = controls.target.clone();
     const lastCamQuaternion = camera.quaternion.clone();
+    let lastCamZoom = camera.zoom;
     
     const cameraMoved = () => {
       const posChanged = camera.position.distanceToSquared(lastCamPos) > SIGNIFICANT_CAM_MOVE2;
       const targetChanged = controls.target.distanceToSquared(lastCamTarget) > SIGNIFICANT_CAM_MOVE2;
       const rotChanged = camera.quaternion.angleTo(lastCamQuaternion) > 0.02; // ~1 degree
+      const zoomChanged = Math.abs(camera.zoom / lastCamZoom - 1) > 0.01; // Flat maps zoom the camera
       
-      return posChanged || targetChanged || rotChanged;
+      return posChanged || targetChanged || rotChanged || zoomChanged;
     };
     
     const handleCamMove = () => {
@@ -612,36 +1138,21 @@ export default function GlobeWindMap() {
       fadeParticles();
       
       prevXY.fill(NaN);
+      gpuParticles?.resetTrails();
+      updateCountryResolution();
       lastCamPos.copy(camera.position);
       lastCamTarget.copy(controls.target);
       lastCamQuaternion.copy(camera.quaternion);
+      lastCamZoom = camera.zoom;
+      const center = viewCenter();
+      if (center) viewRef.current = { ...center, zoom: DEFAULT_DISTANCE / viewDistance() };
+      writeUrl({ ...viewRef.current, ...urlStateRef.current });
       
-      // Don't clear overlay immediately - instead fade it out gradually
       isMoving = true;
-      
-      // Start fading out the overlay smoothly
-      if ((airModeEnabled || overlayMode === 'temperature') && overlayFadeLevel > 0.3) {
-        clearTimeout(fadeTimeout);
-        const fadeStep = () => {
-          overlayFadeLevel = Math.max(0.3, overlayFadeLevel - 0.08); // Faster fade
-          overlayCanvas.style.opacity = overlayFadeLevel.toString();
-          
-          if (overlayFadeLevel > 0.3 && isMoving) {
-            fadeTimeout = setTimeout(fadeStep, 12); // Faster fade rate
-          }
-        };
-        fadeStep();
-      }
-      
       clearTimeout(moveTimeout);
-      
-      // Set timeout to render overlay after movement stops
       moveTimeout = setTimeout(() => {
         isMoving = false;
-        if ((airModeEnabled || overlayMode === 'temperature') && !isRendering) {
-          renderAirModeOverlay();
-        }
-      }, 200); // Reduced delay for faster response
+      }, 200);
     };
 
     // Improved controls change event with better debouncing
@@ -650,31 +1161,10 @@ export default function GlobeWindMap() {
     
     controls.addEventListener('start', () => {
       isRotating = true;
-      // Immediately start fading overlay when rotation begins
-      if ((airModeEnabled || overlayMode === 'temperature') && overlayFadeLevel > 0.4) {
-        clearTimeout(fadeTimeout);
-        const fastFade = () => {
-          overlayFadeLevel = Math.max(0.4, overlayFadeLevel - 0.12); // Much faster fade
-          overlayCanvas.style.opacity = overlayFadeLevel.toString();
-          
-          if (overlayFadeLevel > 0.4 && isRotating) {
-            fadeTimeout = setTimeout(fastFade, 10); // Even faster fade rate
-          }
-        };
-        fastFade();
-      }
     });
     
     controls.addEventListener('end', () => {
       isRotating = false;
-      // Start timer to re-render overlay after rotation ends
-      clearTimeout(moveTimeout);
-      moveTimeout = setTimeout(() => {
-        isMoving = false;
-        if ((airModeEnabled || overlayMode === 'temperature') && !isRendering) {
-          renderAirModeOverlay();
-        }
-      }, 150); // Faster response
     });
     
     controls.addEventListener('change', () => {
@@ -686,333 +1176,381 @@ export default function GlobeWindMap() {
       }, 3); // Even more responsive debounce
     });
 
-    // --------------- AIR MODE OVERLAY RENDERING --------------- //
-    const renderAirModeOverlay = () => {
-      if ((!airModeEnabled && overlayMode !== 'temperature') || isRendering) return;
-      
-      // Throttle rendering to prevent excessive calls
-      const now = Date.now();
-      if (now - lastRenderTime < MIN_RENDER_INTERVAL) {
-        if (!pendingRender) {
-          pendingRender = true;
-          setTimeout(() => {
-            pendingRender = false;
-            if (!isRendering) {
-              renderAirModeOverlay();
-            }
-          }, MIN_RENDER_INTERVAL - (now - lastRenderTime));
+    // --------------- FLY-TO --------------- //
+    // Eased camera flights to searched places and shortcut views; dragging or
+    // zooming cancels them
+    type View = { lon: number; lat: number; zoom: number };
+    let flight: { from: View; to: View; start: number } | null = null;
+
+    const placeCamera = ({ lon, lat, zoom }: View) => {
+      if (projection) {
+        const xy = projection.forward(lon, lat);
+        if (!xy) return;
+        camera.position.set(xy[0], xy[1], 1000);
+        controls.target.set(xy[0], xy[1], 0);
+        camera.zoom = THREE.MathUtils.clamp(zoom, 0.5, 20);
+        camera.updateProjectionMatrix();
+      } else {
+        const distance = THREE.MathUtils.clamp(DEFAULT_DISTANCE / zoom, 250, 800);
+        camera.position.copy(lonLatToVec3(lon, THREE.MathUtils.clamp(lat, -89, 89), distance));
+      }
+    };
+
+    flyToRef.current = (lon, lat, zoom) => {
+      const from = { ...(viewCenter() ?? viewRef.current), zoom: DEFAULT_DISTANCE / viewDistance() };
+      flight = { from, to: { lon, lat, zoom: zoom ?? from.zoom }, start: performance.now() };
+    };
+    controls.addEventListener('start', () => { flight = null; });
+
+    const updateFlight = () => {
+      if (!flight) return;
+      const { from, to, start } = flight;
+      const t = Math.min(1, (performance.now() - start) / FLIGHT_DURATION_MS);
+      const e = t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+      // The short way round in longitude, and zoom evenly in scale
+      const dLon = ((to.lon - from.lon + 540) % 360) - 180;
+      placeCamera({
+        lon: from.lon + dLon * e,
+        lat: from.lat + (to.lat - from.lat) * e,
+        zoom: from.zoom * Math.pow(to.zoom / from.zoom, e)
+      });
+      if (t === 1) flight = null;
+    };
+
+    // --------------- SCALAR OVERLAY --------------- //
+    // Field textures are built lazily per time step and coloured on the GPU,
+    // so the overlay stays attached to the globe while rotating
+    // One field per time step: loaded from files, or derived from the wind (and temperature) frames
+    type OverlaySource = {
+      def: OverlayScale;
+      meta: GridMeta;
+      count: number;
+      field: (t: number) => Float32Array;
+      // Shown around a regional grid; derived fields have none
+      background?: { meta: GridMeta; times: string[]; frames: Float32Array[] };
+    };
+    const fieldSource = ((): OverlaySource | null => {
+      const loaded = overlayById(overlayMode);
+      if (loaded?.variable === 'wind') {
+        const background = windBackground && { ...windBackground, frames: windBackground.frames.map(f => f.S) };
+        return { def: loaded, meta: windMeta, count: frames.length, field: t => frames[t].S, background };
+      }
+      if (loaded) {
+        const level = matchingLevel(scalarLevels[loaded.variable], levels[lvlIdx].label);
+        const meta = scalarMeta.current[loaded.variable];
+        if (!level || !meta) return null;
+        const background = layerLevel(backgroundScalars[loaded.variable], levels[lvlIdx].label);
+        return { def: loaded, meta, count: level.frames.length, field: t => level.frames[t], background };
+      }
+      const def = diagnosticById(overlayMode);
+      // The finite differences assume a regular lat/lon grid
+      if (!def || windMeta.projection) return null;
+      // Derived fields are computed once per time step and shared by the texture and contours
+      const derived = (compute: (t: number) => Float32Array) => {
+        const cache: Float32Array[] = [];
+        return { def, meta: windMeta, count: frames.length, field: (t: number) => (cache[t] ??= compute(t)) };
+      };
+      switch (def.id) {
+        case 'vorticity':
+          return derived(t => relativeVorticity(windMeta, frames[t].U, frames[t].V));
+        case 'divergence':
+          return derived(t => divergence(windMeta, frames[t].U, frames[t].V));
+        case 'shear': {
+          const [lower, upper] = (shearLevels ?? defaultShearLevels(levels)).map(i => levels[i]);
+          if (!lower || !upper) return null;
+          return derived(t => windShear(lower.frames[t].U, lower.frames[t].V, upper.frames[t].U, upper.frames[t].V));
+        }
+        case 'advection': {
+          const tempLevel = matchingLevel(scalarLevels.temperature, levels[lvlIdx].label);
+          const tempMeta = scalarMeta.current.temperature;
+          const tempTimes = scalarTimes.current.temperature;
+          if (!tempLevel || !tempMeta || !tempTimes || !sameGrid(tempMeta, windMeta)) return null;
+          // Temperature at the wind's valid time, interpolated between its own steps
+          return derived(t => temperatureAdvection(
+            windMeta, frames[t].U, frames[t].V, blendedFrame(tempLevel.frames, matchingTimePos(validTimes, tempTimes, t))
+          ));
         }
-        return;
       }
-      
-      isRendering = true;
-      lastRenderTime = now;
-      setIsOverlayLoading(true);
-      
-      // Clear any fade timeout
-      clearTimeout(fadeTimeout);
-      
-      requestAnimationFrame(() => {
-        if ((!airModeEnabled && overlayMode !== 'temperature')) {
-          isRendering = false;
-          setIsOverlayLoading(false);
-          return;
+    })();
+
+    // The field minus the compared run's (resampled onto its grid at the same
+    // valid time), or the ensemble mean or spread in its place
+    const overlaySource = ((): OverlaySource | null => {
+      if (!fieldSource || !isCompared(overlayMode) || comparison === 'off' || comparison === 'swipe') return fieldSource;
+      const def = comparisonScale(overlayMode, comparison) ?? fieldSource.def;
+      if (comparison === 'difference') {
+        const other = layerLevel(compared[overlayMode], levels[lvlIdx].label);
+        if (!other) return null;
+        const otherAt = (t: number) =>
+          resampleField(fieldSource.meta, other.meta, blendedFrame(other.frames, matchingTimePos(validTimes, other.times, t)));
+        const cache: Float32Array[] = [];
+        return { ...fieldSource, def, background: undefined, field: t => (cache[t] ??= differenceField(fieldSource.field(t), otherAt(t))) };
+      }
+      const stats = layerLevel(ensemble?.layers[overlayMode], levels[lvlIdx].label);
+      if (!stats) return null;
+      return { def, meta: stats.meta, count: stats.frames.length, field: t => stats.frames[t][comparison] };
+    })();
+
+    const overlay = airModeEnabled && overlaySource
+      ? {
+          ...overlaySource,
+          layer: createScalarOverlay(overlaySource.meta, {
+            radius: GLOBE_RADIUS + 0.3,
+            colormap: createColormapTexture(t => overlaySource.def.colormap(t, overlaySource.def.alpha)),
+            min: overlaySource.def.min,
+            max: overlaySource.def.max,
+            log: overlaySource.def.log,
+            scale: overlaySource.def.scale,
+            offset: overlaySource.def.offset,
+            projection,
+            background: overlaySource.background?.meta
+          })
         }
-        
-        const { width, height } = overlayCanvas;
-        const ctx = overlayCtx;
-        
-        // Use double buffering approach - create off-screen canvas
-        const offscreenCanvas = document.createElement('canvas');
-        offscreenCanvas.width = width;
-        offscreenCanvas.height = height;
-        const offscreenCtx = offscreenCanvas.getContext('2d')!;;
-        
-        const camDir = camera.position.clone().normalize();
-        const baseStep = overlayMode === 'temperature' ? 
-          Math.max(1, Math.floor(Math.min(width, height) / 800)) : // Higher resolution for temperature
-          Math.max(1, Math.floor(Math.min(width, height) / 600));   // Improved resolution for wind
-        const step = baseStep;
-        const imageData = offscreenCtx.createImageData(width, height);
-        const data = imageData.data;
-        for (let x = 0; x < width; x += step) {
-          for (let y = 0; y < height; y += step) {
-            // Convert screen coordinates to normalized device coordinates
-            const ndcX = (x / width) * 2 - 1;
-            const ndcY = -(y / height) * 2 + 1;
-            
-            // Create ray from camera through screen point
-            const screenPoint = new THREE.Vector3(ndcX, ndcY, 0.5);
-            screenPoint.unproject(camera);
-            
-            const rayDirection = screenPoint.sub(camera.position).normalize();
-            
-            // Intersect with sphere
-            const oc = camera.position.clone();
-            const a = rayDirection.dot(rayDirection);
-            const b = 2.0 * oc.dot(rayDirection);
-            const c = oc.dot(oc) - GLOBE_RADIUS * GLOBE_RADIUS;
-            const discriminant = b * b - 4 * a * c;
-            
-            if (discriminant >= 0) {
-              const t = (-b - Math.sqrt(discriminant)) / (2 * a);
-              if (t > 0) {
-                const intersectionPoint = camera.position.clone().add(rayDirection.multiplyScalar(t));
-                
-                // Check if point is on visible side
-                const normal = intersectionPoint.clone().normalize();
-                if (normal.dot(camDir) > 0.1) {
-                  
-                  // Convert 3D intersection point to lon/lat with better precision
-                  const lon = Math.atan2(intersectionPoint.x, intersectionPoint.z) * 180 / Math.PI;
-                  const lat = Math.asin(Math.max(-1, Math.min(1, intersectionPoint.y / GLOBE_RADIUS))) * 180 / Math.PI;
-                  if (overlayMode === 'wind') {
-                    const { u, v } = windAt(lon, lat);
-                    if (Number.isFinite(u) && Number.isFinite(v)) {
-                      const speedMs = Math.sqrt(u * u + v * v);
-                      const [r, g, b, a] = windSpeedColorScale(speedMs, OVERLAY_ALPHA);
-                      
-                      // Anti-aliasing by sampling multiple points within the pixel area
-                      const subSamples = step > 1 ? 2 : 1; // Use subsampling for larger steps
-                      const sampleStep = step / subSamples;
-                      
-                      for (let dx = 0; dx < step && x + dx < width; dx++) {
-                        for (let dy = 0; dy < step && y + dy < height; dy++) {
-                          let avgR = r, avgG = g, avgB = b, avgA = a;
-                          
-                          // For larger step sizes, do subsampling for smoother edges
-                          if (subSamples > 1) {
-                            let totalR = 0, totalG = 0, totalB = 0, totalA = 0;
-                            let sampleCount = 0;
-                            
-                            for (let sx = 0; sx < subSamples; sx++) {
-                              for (let sy = 0; sy < subSamples; sy++) {
-                                const subX = x + dx + sx * sampleStep;
-                                const subY = y + dy + sy * sampleStep;
-                                
-                                if (subX < width && subY < height) {
-                                  const subNdcX = (subX / width) * 2 - 1;
-                                  const subNdcY = -(subY / height) * 2 + 1;
-                                  const subPoint = new THREE.Vector3(subNdcX, subNdcY, 0.5);
-                                  subPoint.unproject(camera);
-                                  const subRayDir = subPoint.sub(camera.position).normalize();
-                                  
-                                  const subOc = camera.position.clone();
-                                  const subA = subRayDir.dot(subRayDir);
-                                  const subB = 2.0 * subOc.dot(subRayDir);
-                                  const subC = subOc.dot(subOc) - GLOBE_RADIUS * GLOBE_RADIUS;
-                                  const subDisc = subB * subB - 4 * subA * subC;
-                                  
-                                  if (subDisc >= 0) {
-                                    const subT = (-subB - Math.sqrt(subDisc)) / (2 * subA);
-                                    if (subT > 0) {
-                                      const subIntersection = camera.position.clone().add(subRayDir.multiplyScalar(subT));
-                                      const subNormal = subIntersection.clone().normalize();
-                                      
-                                      if (subNormal.dot(camDir) > 0.1) {
-                                        const subLon = Math.atan2(subIntersection.x, subIntersection.z) * 180 / Math.PI;
-                                        const subLat = Math.asin(Math.max(-1, Math.min(1, subIntersection.y / GLOBE_RADIUS))) * 180 / Math.PI;
-                                        const { u: subU, v: subV } = windAt(subLon, subLat);
-                                        
-                                        if (Number.isFinite(subU) && Number.isFinite(subV)) {
-                                          const subSpeed = Math.sqrt(subU * subU + subV * subV);
-                                          const [subR, subG, subB, subAlpha] = windSpeedColorScale(subSpeed, OVERLAY_ALPHA);
-                                          totalR += subR;
-                                          totalG += subG;
-                                          totalB += subB;
-                                          totalA += subAlpha;
-                                          sampleCount++;
-                                        }
-                                      }
-                                    }
-                                  }
-                                }
-                              }
-                            }
-                            
-                            if (sampleCount > 0) {
-                              avgR = Math.round(totalR / sampleCount);
-                              avgG = Math.round(totalG / sampleCount);
-                              avgB = Math.round(totalB / sampleCount);
-                              avgA = Math.round(totalA / sampleCount);
-                            }
-                          }
-                          
-                          const px = x + dx;
-                          const py = y + dy;
-                          const idx = (py * width + px) * 4;
-                          data[idx] = avgR;
-                          data[idx + 1] = avgG;
-                          data[idx + 2] = avgB;
-                          data[idx + 3] = avgA;
-                        }
-                      }
-                    }
-                  } else if (overlayMode === 'temperature' && tempLevels[lvlIdx] && tempGridMeta.current) {
-                    // Temperature overlay - use temperature grid metadata
-                    const tempLevel = tempLevels[lvlIdx];
-                    const { nx: tempNx, ny: tempNy, lo1: tempLo1, la1: tempLa1, dx: tempDx, dy: tempDy } = tempGridMeta.current;
-                    
-                    // FIXED: Simplified and consistent longitude handling
-                    // Convert longitude to 0-360 range consistently
-                    const normLon = ((lon + 360) % 360);
-                    
-                    // Convert grid longitude origin to 0-360 range for consistency
-                    let gridLo1 = tempLo1;
-                    if (gridLo1 < 0) {
-                      gridLo1 = ((gridLo1 + 360) % 360);
-                    }
-                    
-                    // Calculate grid coordinates with proper handling
-                    let gridLon = normLon;
-                    
-                    // Handle wraparound for longitude - ensure we're in the right range
-                    if (gridLon < gridLo1) {
-                      gridLon += 360;
-                    }
-                    if (gridLon >= gridLo1 + 360) {
-                      gridLon -= 360;
-                    }
-                    
-                    // Calculate grid indices
-                    const i = (gridLon - gridLo1) / tempDx;
-                    const j = (tempLa1 - lat) / tempDy;
-                    const i0 = Math.floor(i), j0 = Math.floor(j);
-                    const fi = i - i0, fj = j - j0;
-                    
-                    // Improved bounds checking
-                    if (j0 >= 0 && j0 < tempNy - 1 && i0 >= 0) {
-                      // FIXED: Simplified index calculation with proper longitude wraparound
-                      const idxT = (jj: number, ii: number) => {
-                        // Handle longitude wraparound properly
-                        const wrappedII = ((ii % tempNx) + tempNx) % tempNx;
-                        return jj * tempNx + wrappedII;
-                      };
-                      
-                      const T = tempLevel.T;
-                      
-                      // FIXED: Safer grid point access
-                      const safeGet = (jj: number, ii: number) => {
-                        if (jj < 0 || jj >= tempNy) return NaN;
-                        const idx = idxT(jj, ii);
-                        return (idx >= 0 && idx < T.length) ? T[idx] : NaN;
-                      };                      
-                      // Get interpolation grid points
-                      const g00 = safeGet(j0, i0);
-                      const g10 = safeGet(j0, i0 + 1);
-                      const g01 = safeGet(j0 + 1, i0);
-                      const g11 = safeGet(j0 + 1, i0 + 1);
-
-                      // Check if we have valid data points for interpolation
-                      if (Number.isFinite(g00) && Number.isFinite(g10) && Number.isFinite(g01) && Number.isFinite(g11)) {
-                        // Bilinear interpolation
-                        const tempValue = g00 * (1 - fi) * (1 - fj) +
-                          g10 * fi * (1 - fj) +
-                          g01 * (1 - fi) * fj +
-                          g11 * fi * fj;
-                        
-                        if (Number.isFinite(tempValue)) {
-                          // SIMPLIFIED artifact filtering - only skip extreme outliers
-                          let shouldSkip = false;
-                          
-                          // Check for extreme temperature values that are likely data errors
-                          if (tempValue < -100 || tempValue > 100) {
-                            shouldSkip = true;
-                          }
-                          
-                          // Check for extreme local variations only near grid boundaries
-                          if (!shouldSkip && (i0 === 0 || i0 === tempNx - 1)) {
-                            const neighbors = [g00, g10, g01, g11].filter(Number.isFinite);
-                            if (neighbors.length >= 3) {
-                              const mean = neighbors.reduce((a, b) => a + b) / neighbors.length;
-                              const maxDiff = Math.max(...neighbors.map(n => Math.abs(n - mean)));
-                              // Only skip if there's an extreme difference (>50K) at boundaries
-                              if (maxDiff > 50) {
-                                shouldSkip = true;
-                              }
-                            }
-                          }
-                          
-                          let finalTemp = tempValue;
-                          
-                          // If we detected artifacts, try to interpolate from nearby valid values
-                          if (shouldSkip) {
-                            const validNeighbors = [];
-                            for (let di = -2; di <= 2; di++) {
-                              for (let dj = -2; dj <= 2; dj++) {
-                                if (di === 0 && dj === 0) continue;
-                                const ni = i0 + di;
-                                const nj = j0 + dj;
-                                if (ni >= 0 && ni < tempNx && nj >= 0 && nj < tempNy) {
-                                  const neighborVal = safeGet(nj, ni);
-                                  if (Number.isFinite(neighborVal) && neighborVal > -100 && neighborVal < 100) {
-                                    const distance = Math.sqrt(di * di + dj * dj);
-                                    validNeighbors.push({ val: neighborVal, dist: distance });
-                                  }
-                                }
-                              }
-                            }
-                            
-                            if (validNeighbors.length > 0) {
-                              // Simple distance-weighted average
-                              let weightedSum = 0;
-                              let totalWeight = 0;
-                              for (const neighbor of validNeighbors) {
-                                const weight = 1 / (neighbor.dist + 0.1);
-                                weightedSum += neighbor.val * weight;
-                                totalWeight += weight;
-                              }
-                              if (totalWeight > 0) {
-                                finalTemp = weightedSum / totalWeight;
-                              }
-                            }
-                          }
-                          
-                          // Convert temperature and get color
-                          const [r, g, b, a] = tempColorScale(finalTemp, TEMP_OVERLAY_ALPHA);
-                          
-                          // Reduce opacity for interpolated values
-                          const baseAlpha = shouldSkip ? 0.5 : 0.8;
-                          const finalAlpha = Math.floor(a * baseAlpha);
-                          
-                          // Apply color to pixels
-                          for (let dx = 0; dx < step && x + dx < width; dx++) {
-                            for (let dy = 0; dy < step && y + dy < height; dy++) {
-                              const px = x + dx;
-                              const py = y + dy;
-                              const idx = (py * width + px) * 4;
-                              data[idx] = r;
-                              data[idx + 1] = g;
-                              data[idx + 2] = b;
-                              data[idx + 3] = finalAlpha;
-                            }
-                          }
-                        }
-                      }
-                    }
-                  }
-                }
-              }
-            }
+      : null;
+    const overlayTextures: THREE.DataTexture[] = [];
+    const backgroundOverlayTextures: THREE.DataTexture[] = [];
+    if (overlay) scene.add(overlay.layer.mesh);
+
+    // Swipe view: the compared run right of the divider, sharing the overlay's colours
+    const swipeLevel = overlay && comparison === 'swipe' && isCompared(overlayMode)
+      ? layerLevel(compared[overlayMode], levels[lvlIdx].label)
+      : undefined;
+    const swipe = overlay && swipeLevel
+      ? {
+          ...swipeLevel,
+          layer: createScalarOverlay(swipeLevel.meta, {
+            radius: GLOBE_RADIUS + 0.3,
+            colormap: (overlay.layer.mesh.material as THREE.ShaderMaterial).uniforms.uColormap.value,
+            min: overlay.def.min,
+            max: overlay.def.max,
+            log: overlay.def.log,
+            scale: overlay.def.scale,
+            offset: overlay.def.offset,
+            projection
+          })
+        }
+      : null;
+    const swipeTextures: THREE.DataTexture[] = [];
+    const drawingBuffer = new THREE.Vector2();
+    if (swipe) scene.add(swipe.layer.mesh);
+
+    // Colour settings and units the overlay was last coloured with
+    let overlayColors: ColorSettings | undefined;
+    let overlayUnits = DEFAULT_UNITS;
+
+    const updateOverlay = () => {
+      if (!overlay) return;
+      const colors = colorSettingsRef.current[overlay.def.id];
+      if (colors !== overlayColors || unitsRef.current !== overlayUnits) {
+        overlayColors = colors;
+        overlayUnits = unitsRef.current;
+        const def = withUnits(withColorSettings(overlay.def, colors), overlayUnits);
+        const uniforms = (overlay.layer.mesh.material as THREE.ShaderMaterial).uniforms;
+        uniforms.uColormap.value.dispose();
+        overlay.layer.setScale(createColormapTexture(t => def.colormap(t, def.alpha)), def);
+        swipe?.layer.setScale(uniforms.uColormap.value, def);
+      }
+      const { t0, t1, f } = timeBlend(timeRef.current, overlay.count);
+      const texture = (t: number) =>
+        (overlayTextures[t] ??= createGridTexture(overlay.meta, overlay.field(t)));
+      const background = (() => {
+        if (!overlay.background) return null;
+        const { meta, times, frames: back } = overlay.background;
+        const { t0, t1, f } = timeBlend(runTimePos(times), back.length);
+        const texture = (t: number) => (backgroundOverlayTextures[t] ??= createGridTexture(meta, back[t]));
+        return { field0: texture(t0), field1: texture(t1), blend: f };
+      })();
+      overlay.layer.update(texture(t0), texture(t1), f, background);
+      if (swipe) {
+        const { t0, t1, f } = timeBlend(runTimePos(swipe.times), swipe.frames.length);
+        const texture = (t: number) => (swipeTextures[t] ??= createGridTexture(swipe.meta, swipe.frames[t]));
+        swipe.layer.update(texture(t0), texture(t1), f);
+        const x = renderer.getDrawingBufferSize(drawingBuffer).x * swipeRef.current;
+        overlay.layer.setClip({ side: 'left', x });
+        swipe.layer.setClip({ side: 'right', x });
+      }
+    };
+
+    // --------------- CONTOURS --------------- //
+    // Isolines of the overlay field at the nearest time step, rebuilt only when
+    // that step changes; labels are sprites so they face the camera while rotating
+    const contourLineMaterial = new THREE.LineBasicMaterial({ color: 0xffffff, opacity: 0.55, transparent: true });
+    const contourLines3d = new THREE.LineSegments(new THREE.BufferGeometry(), contourLineMaterial);
+    const contourLabelGroup = new THREE.Group();
+    const contourLabelMaterials = new Map<string, THREE.SpriteMaterial>();
+    const contourGroup = new THREE.Group();
+    contourGroup.add(contourLines3d, contourLabelGroup);
+    contourGroup.visible = false;
+    scene.add(contourGroup);
+    let contourStep = -1;
+    let contourUnits = DEFAULT_UNITS;
+
+    const updateContours = () => {
+      contourGroup.visible = !!overlay && contoursRef.current;
+      if (!overlay || !contoursRef.current) return;
+      const t = Math.round(Math.max(0, Math.min(overlay.count - 1, timeRef.current)));
+      if (t === contourStep && unitsRef.current === contourUnits) return;
+      contourStep = t;
+      contourUnits = unitsRef.current;
+
+      const { meta } = overlay;
+      const def = withUnits(overlay.def, contourUnits);
+      const sets = contourLines(meta, overlay.field(t), {
+        interval: def.contourInterval,
+        levels: def.contourLevels,
+        scale: def.scale,
+        offset: def.offset,
+        stride: Math.max(1, Math.round(meta.nx / 360))
+      });
+      const pos: number[] = [];
+      for (const { segments } of sets) {
+        for (let k = 0; k < segments.length; k += 4) {
+          if (projection?.breaks(segments[k], segments[k + 2])) continue;
+          const v1 = toWorld(segments[k], segments[k + 1], GLOBE_RADIUS + 1.2);
+          const v2 = toWorld(segments[k + 2], segments[k + 3], GLOBE_RADIUS + 1.2);
+          if (!v1 || !v2) continue;
+          pos.push(v1.x, v1.y, v1.z, v2.x, v2.y, v2.z);
+        }
+      }
+      contourLines3d.geometry.dispose();
+      contourLines3d.geometry = new THREE.BufferGeometry();
+      contourLines3d.geometry.setAttribute("position", new THREE.Float32BufferAttribute(pos, 3));
+
+      contourLabelGroup.clear();
+      for (const { value, lon, lat } of contourLabels(sets, 15)) {
+        const position = toWorld(lon, lat, GLOBE_RADIUS + 2);
+        if (position) contourLabelGroup.add(labelSprite((def.format ?? formatContourValue)(value), position, contourLabelMaterials));
+      }
+    };
+
+    // --------------- WIND GLYPHS --------------- //
+    // Barbs or arrows on a lattice around the view centre, rebuilt when the
+    // spacing, the (snapped) centre or the time position changes
+    const glyphLineMaterial = new THREE.LineBasicMaterial({ color: 0xffffff, opacity: 0.85, transparent: true });
+    const glyphFillMaterial = new THREE.MeshBasicMaterial({ color: 0xffffff, opacity: 0.85, transparent: true, side: THREE.DoubleSide });
+    const glyphLines = new THREE.LineSegments(new THREE.BufferGeometry(), glyphLineMaterial);
+    const glyphFills = new THREE.Mesh(new THREE.BufferGeometry(), glyphFillMaterial);
+    const glyphGroup = new THREE.Group();
+    glyphGroup.add(glyphLines, glyphFills);
+    glyphGroup.visible = false;
+    scene.add(glyphGroup);
+    let glyphKey = '';
+
+    const updateGlyphs = () => {
+      const kind = flowRef.current.glyphs;
+      glyphGroup.visible = kind !== 'none';
+      if (kind === 'none') return;
+
+      // Visible cap radius, and the size of a degree on screen at the view centre.
+      // On flat maps the cap is a generous bound on the view's diagonal.
+      const height = renderer.domElement.clientHeight;
+      const degreeLength = GLOBE_RADIUS * Math.PI / 180;
+      let capRadius: number, worldToPx: number;
+      if (camera instanceof THREE.OrthographicCamera) {
+        worldToPx = height * camera.zoom / (camera.top - camera.bottom);
+        const halfDiagonal = Math.hypot(renderer.domElement.clientWidth, height) / 2 / worldToPx;
+        capRadius = Math.min(180, 2 * halfDiagonal / degreeLength);
+      } else {
+        const distance = camera.position.length();
+        capRadius = THREE.MathUtils.radToDeg(Math.acos(GLOBE_RADIUS / distance));
+        worldToPx = height / (2 * Math.tan(THREE.MathUtils.degToRad(camera.fov / 2)) * (distance - GLOBE_RADIUS));
+      }
+      const spacing = glyphSpacing(worldToPx * degreeLength, GLYPH_SPACING_PX, capRadius, MAX_GLYPHS);
+
+      // Recentre only after the view has moved a few glyphs, covering the slack with a wider cap
+      const snap = spacing * 4;
+      const center = viewCenter() ?? { lon: projection?.lon0 ?? 0, lat: projection?.lat0 ?? 0 };
+      const centerLon = Math.round(center.lon / snap) * snap;
+      const centerLat = Math.round(center.lat / snap) * snap;
+      const time = Math.round(timeRef.current * 20) / 20;
+      const key = `${kind}|${spacing}|${centerLon}|${centerLat}|${time}`;
+      if (key === glyphKey) return;
+      glyphKey = key;
+
+      const lines: number[] = [], triangles: number[] = [];
+      const size = spacing * degreeLength * 0.7;
+      // Glyphs are built on the globe; flat maps reproject each vertex and drop
+      // glyphs that fall partly off the map or across its edge
+      const oneLines: number[] = [], oneTriangles: number[] = [];
+      const reproject = (from: number[], to: number[]) => {
+        const start = to.length;
+        let firstLon = NaN;
+        for (let k = 0; k < from.length; k += 3) {
+          const r = Math.hypot(from[k], from[k + 1], from[k + 2]);
+          const lon = THREE.MathUtils.radToDeg(Math.atan2(from[k], from[k + 2]));
+          const lat = THREE.MathUtils.radToDeg(Math.asin(from[k + 1] / r));
+          const world = toWorld(lon, lat, r);
+          if (Number.isNaN(firstLon)) firstLon = lon;
+          if (!world || projection?.breaks(firstLon, lon)) {
+            to.length = start;
+            return false;
           }
+          to.push(world.x, world.y, world.z);
         }
-        
-        // Apply the rendered image data to off-screen canvas
-        offscreenCtx.putImageData(imageData, 0, 0);
-        
-        // Only update the main canvas when rendering is complete
-        ctx.clearRect(0, 0, width, height);
-        ctx.drawImage(offscreenCanvas, 0, 0);
-        
-        // Smoothly fade in the overlay
-        if (!isMoving) {
-          overlayFadeLevel = 1.0;
-          overlayCanvas.style.opacity = '1.0';
+        return true;
+      };
+      const radius = Math.min(projection ? 180 : 90, capRadius + snap);
+      for (const [lon, lat] of glyphSamples(centerLon, centerLat, radius, spacing)) {
+        const { u, v } = windAt(lon, lat);
+        if (!Number.isFinite(u) || !Number.isFinite(v)) continue;
+        if (!projection) {
+          appendGlyph(lines, triangles, kind, lon, lat, u, v, GLOBE_RADIUS + 1.5, size);
+          continue;
         }
-        
-        setIsOverlayLoading(false);
-        isRendering = false;
-      });
+        oneLines.length = oneTriangles.length = 0;
+        appendGlyph(oneLines, oneTriangles, kind, lon, lat, u, v, GLOBE_RADIUS + 1.5, size);
+        const lineStart = lines.length;
+        if (reproject(oneLines, lines) && !reproject(oneTriangles, triangles)) lines.length = lineStart;
+      }
+      glyphLines.geometry.dispose();
+      glyphLines.geometry = new THREE.BufferGeometry();
+      glyphLines.geometry.setAttribute("position", new THREE.Float32BufferAttribute(lines, 3));
+      glyphFills.geometry.dispose();
+      glyphFills.geometry = new THREE.BufferGeometry();
+      glyphFills.geometry.setAttribute("position", new THREE.Float32BufferAttribute(triangles, 3));
+    };
+
+    // --------------- TRAJECTORIES --------------- //
+    // Persistent parcel paths, rebuilt when the list changes, with a dot every 6 hours
+    const trajectoryLineMaterial = new THREE.LineBasicMaterial({ vertexColors: true });
+    const trajectoryDotMaterial = new THREE.PointsMaterial({ vertexColors: true, size: 5, sizeAttenuation: false });
+    const trajectoryLines = new THREE.LineSegments(new THREE.BufferGeometry(), trajectoryLineMaterial);
+    const trajectoryDots = new THREE.Points(new THREE.BufferGeometry(), trajectoryDotMaterial);
+    scene.add(trajectoryLines, trajectoryDots);
+    let drawnTrajectories: Trajectory[] | null = null;
+
+    const updateTrajectories = () => {
+      if (trajectoriesRef.current === drawnTrajectories) return;
+      drawnTrajectories = trajectoriesRef.current;
+      const lines: number[] = [], lineColors: number[] = [], dots: number[] = [], dotColors: number[] = [];
+      const r = GLOBE_RADIUS + 1.6;
+      for (const { direction, points } of drawnTrajectories) {
+        const { r: red, g, b } = new THREE.Color(TRAJECTORY_COLORS[direction]);
+        points.forEach((p, i) => {
+          const elapsed = Math.abs(p.hours - points[0].hours);
+          if (Math.abs(elapsed - Math.round(elapsed / 6) * 6) < 1e-3) {
+            const world = toWorld(p.lon, p.lat, r);
+            if (world) {
+              dots.push(world.x, world.y, world.z);
+              dotColors.push(red, g, b);
+            }
+          }
+          if (i === 0 || projection?.breaks(points[i - 1].lon, p.lon)) return;
+          const v1 = toWorld(points[i - 1].lon, points[i - 1].lat, r);
+          const v2 = toWorld(p.lon, p.lat, r);
+          if (!v1 || !v2) return;
+          lines.push(v1.x, v1.y, v1.z, v2.x, v2.y, v2.z);
+          lineColors.push(red, g, b, red, g, b);
+        });
+      }
+      trajectoryLines.geometry.dispose();
+      trajectoryLines.geometry = new THREE.BufferGeometry();
+      trajectoryLines.geometry.setAttribute("position", new THREE.Float32BufferAttribute(lines, 3));
+      trajectoryLines.geometry.setAttribute("color", new THREE.Float32BufferAttribute(lineColors, 3));
+      trajectoryDots.geometry.dispose();
+      trajectoryDots.geometry = new THREE.BufferGeometry();
+      trajectoryDots.geometry.setAttribute("position", new THREE.Float32BufferAttribute(dots, 3));
+      trajectoryDots.geometry.setAttribute("color", new THREE.Float32BufferAttribute(dotColors, 3));
     };
 
     const updateParticles = () => {
@@ -1063,11 +1601,12 @@ export default function GlobeWindMap() {
 
         if (++p.age > PARTICLE_LIFE) return recycle(i);
 
-        const worldPos = lonLatToVec3(p.lon, p.lat, GLOBE_RADIUS + 0.5);
-        const prevWorldPos = lonLatToVec3(prevLon, prevLat, GLOBE_RADIUS + 0.5);
-        const visibleNow = worldPos.clone().normalize().dot(camDir) > 0;
-        const visiblePrev = prevWorldPos.clone().normalize().dot(camDir) > 0;
-        if (!visibleNow || !visiblePrev) {
+        // Flat maps drop points off the map; long jumps across their edge fail the sMin check below
+        const worldPos = toWorld(p.lon, p.lat, GLOBE_RADIUS + 0.5);
+        const prevWorldPos = toWorld(prevLon, prevLat, GLOBE_RADIUS + 0.5);
+        const visibleNow = !!worldPos && (!!projection || worldPos.clone().normalize().dot(camDir) > 0);
+        const visiblePrev = !!prevWorldPos && (!!projection || prevWorldPos.clone().normalize().dot(camDir) > 0);
+        if (!worldPos || !visibleNow || !visiblePrev) {
           clearPrev(i);
           return;
         }
@@ -1091,43 +1630,153 @@ export default function GlobeWindMap() {
       });
     };
 
+    // Refresh readouts when the time position changes
+    const onTimeChange = () => readProbe();
+    currentWrap.addEventListener('timechange', onTimeChange);
+
+    // --------------- PLAYBACK --------------- //
+    // Timeline playback moves the time position every frame and loops back to the
+    // first step; React state follows at each new step and a few times a second
+    let lastFrame = performance.now(), lastPush = 0;
+    const advancePlayback = () => {
+      const now = performance.now();
+      const dt = (now - lastFrame) / 1000;
+      lastFrame = now;
+      if (!playingRef.current || validTimes.length < 2) return;
+      const prev = timeRef.current;
+      let next = prev + dt * PLAYBACK_STEPS_PER_SECOND;
+      if (next > validTimes.length - 1) next = 0;
+      timeRef.current = next;
+      if (next < prev || Math.floor(next) !== Math.floor(prev) || now - lastPush >= PLAYBACK_UI_INTERVAL_MS) {
+        lastPush = now;
+        playbackTimeRef.current = next;
+        setTimePos(next);
+      }
+    };
+
     // --------------- ANIMATION LOOP --------------- //
     let raf = 0;
+    let particlesShown = true;
     
     const loop = () => {
       raf = requestAnimationFrame(loop);
+      advancePlayback();
+      updateFlight();
       controls.update();
-      updateParticles();
+      updateMapLayers();
+      graticuleLabels.visible = mapLayersRef.current.graticuleLabels;
+      updateMarker(probeMarkerRef.current, probeRef.current);
+      updateMarker(placeMarkerRef.current, placeRef.current);
+      updateOverlay();
+      updateContours();
+      updateGlyphs();
+      updateTrajectories();
+      // Start from fresh trails whenever particles are switched back on
+      if (flowRef.current.particles !== particlesShown) {
+        particlesShown = flowRef.current.particles;
+        gpuParticles?.resetTrails();
+        prevXY.fill(NaN);
+        ctx.clearRect(0, 0, windCanvas.width, windCanvas.height);
+      }
+      if (!particlesShown) {
+        renderer.render(scene, camera);
+      } else if (gpuParticles) {
+        renderGpuParticles(gpuParticles);
+      } else {
+        updateParticles();
+        renderer.render(scene, camera);
+      }
+      // Recording copies the frame while the WebGL buffer still holds it
+      frameSinkRef.current?.([renderer.domElement, windCanvas]);
+    };
+
+    const renderGpuParticles = (particles: NonNullable<typeof gpuParticles>) => {
+      const { t0, t1, f } = timeBlend(timeRef.current, frames.length);
+      particles.step(windTexture(t0), windTexture(t1), f, backgroundWindFields());
       renderer.render(scene, camera);
+      particles.render(camera);
     };
-    loop();
 
-    // Initial overlay render with delay to ensure everything is initialized
-    if (airModeEnabled || overlayMode === 'temperature') {
-      setTimeout(() => {
-        if (!isMoving) {
-          // Initialize overlay opacity
-          overlayFadeLevel = 1.0;
-          overlayCanvas.style.opacity = '1.0';
-          renderAirModeOverlay();
-        }
-      }, 500);
-    }
+    // --------------- SNAPSHOT --------------- //
+    // Re-renders the view at the output size, rebuilding GPU particle trails
+    // there, and returns it composited with the Canvas2D particle layer
+    snapshotRef.current = (width, height) => {
+      const output = document.createElement("canvas");
+      output.width = width;
+      output.height = height;
+      renderer.setPixelRatio(1);
+      setViewSize(width, height, false);
+      controls.update();
+      updateOverlay();
+      updateContours();
+      updateGlyphs();
+      updateTrajectories();
+      if (particlesShown && gpuParticles) {
+        for (let k = 0; k < SNAPSHOT_TRAIL_STEPS; k++) renderGpuParticles(gpuParticles);
+      } else {
+        renderer.render(scene, camera);
+      }
+      const layers: CanvasImageSource[] = [renderer.domElement];
+      if (particlesShown && !gpuParticles) layers.push(windCanvas);
+      drawLayers(output.getContext("2d")!, layers, width, height);
+      resize();
+      return output;
+    };
+
+    loop();
 
     // --------------- CLEAN-UP --------------- //
     return () => {
+      disposed = true;
+      snapshotRef.current = null;
+      flyToRef.current = null;
+      viewRef.current = { ...(viewCenter() ?? viewRef.current), zoom: DEFAULT_DISTANCE / viewDistance() };
       if (raf) cancelAnimationFrame(raf);
       clearTimeout(moveTimeout);
-      clearTimeout(fadeTimeout);
       clearTimeout(controlsChangeDebounce);
       window.removeEventListener("resize", resize);
+      currentWrap.removeEventListener('timechange', onTimeChange);
+      renderer.domElement.removeEventListener('pointerdown', onPointerDown);
+      renderer.domElement.removeEventListener('pointerup', onPointerUp);
       controls.dispose();
+      gpuParticles?.dispose();
+      [...windTextures, ...backgroundWindTextures].forEach(t => t.dispose());
+      [countryLines, ...layerLines.values()].forEach(l => {
+        l.geometry.dispose();
+        (l.material as THREE.Material).dispose();
+      });
+      graticuleLabels.children.forEach(l => {
+        const { material } = l as THREE.Sprite;
+        material.map?.dispose();
+        material.dispose();
+      });
+      [...overlayTextures, ...backgroundOverlayTextures, ...swipeTextures].forEach(t => t.dispose());
+      contourLines3d.geometry.dispose();
+      contourLineMaterial.dispose();
+      contourLabelMaterials.forEach(m => {
+        m.map?.dispose();
+        m.dispose();
+      });
+      glyphLines.geometry.dispose();
+      glyphFills.geometry.dispose();
+      glyphLineMaterial.dispose();
+      glyphFillMaterial.dispose();
+      domainLines.geometry.dispose();
+      (domainLines.material as THREE.Material).dispose();
+      trajectoryLines.geometry.dispose();
+      trajectoryDots.geometry.dispose();
+      trajectoryLineMaterial.dispose();
+      trajectoryDotMaterial.dispose();
+      swipe?.layer.dispose();
+      if (overlay) {
+        overlay.layer.dispose();
+        (overlay.layer.mesh.material as THREE.ShaderMaterial).uniforms.uColormap.value.dispose();
+      }
       renderer.dispose();
       currentWrap?.removeChild(renderer.domElement);
       currentWrap?.removeChild(windCanvas);
-      currentWrap?.removeChild(overlayCanvas);
     };
-  }, [levels, lvlIdx, renderTrigger, airModeEnabled, overlayMode, tempLevels]);
+  }, [levels, validTimes, lvlIdx, renderTrigger, airModeEnabled, overlayMode, scalarLevels, backgroundWind, backgroundScalars, comparison, compared, ensemble?.layers, shearLevels, projectionId, writeUrl]);
 
   // ---- UI: air mode toggle ---- //
   // This function could be used for manual air mode toggling but is currently handled automatically
@@ -1139,30 +1788,241 @@ export default function GlobeWindMap() {
 
   // ---- UI: overlay mode selector ---- //
   const [dashOpen, setDashOpen] = useState(false);
-  const [legendHover, setLegendHover] = useState<number | null>(null);
   const [altitudeHover, setAltitudeHover] = useState<number | null>(null);
-  const [isOverlayLoading, setIsOverlayLoading] = useState(false);
 
-  // Effect to handle overlay mode changes
+  // Keep the render loop's time position in sync and refresh readouts; positions
+  // passed on by playback are already behind the loop's
   useEffect(() => {
-    // Use a more reliable way to find the overlay canvas
-    const canvases = wrap.current?.querySelectorAll('canvas');
-    if (canvases && canvases.length >= 2) {
-      const overlayCanvas = canvases[2]; // Third canvas is the overlay
-      const ctx = overlayCanvas.getContext('2d');
-      
-      if (!airModeEnabled && overlayMode !== 'temperature') {
-        // Clear overlay when disabled
-        ctx?.clearRect(0, 0, overlayCanvas.width, overlayCanvas.height);
-      } else {
-        // Render overlay when enabled
-        setTimeout(() => {
-          const renderEvent = new CustomEvent('renderAirMode');
-          wrap.current?.dispatchEvent(renderEvent);
-        }, 100);
+    if (timePos !== playbackTimeRef.current) timeRef.current = timePos;
+    playbackTimeRef.current = NaN;
+    wrap.current?.dispatchEvent(new CustomEvent('timechange'));
+  }, [timePos]);
+
+  useEffect(() => {
+    playingRef.current = playing;
+    // Pausing shows the position the loop stopped at
+    if (!playing) {
+      playbackTimeRef.current = timeRef.current;
+      setTimePos(timeRef.current);
+    }
+  }, [playing]);
+
+  // Steps from the loop's position, which is ahead of timePos while playing
+  const stepTime = (delta: number) => {
+    setPlaying(false);
+    setTimePos(steppedTime(timeRef.current, delta, validTimes.length));
+  };
+
+  // Valid time at the (possibly fractional) playback position
+  const timeLabel = (() => {
+    const t0 = Math.floor(timePos);
+    const t1 = Math.min(t0 + 1, validTimes.length - 1);
+    const a = Date.parse(validTimes[t0] ?? ''), b = Date.parse(validTimes[t1] ?? '');
+    if (Number.isFinite(a) && Number.isFinite(b)) {
+      return formatValidTime(new Date(a + (b - a) * (timePos - t0)).toISOString());
+    }
+    return formatValidTime(validTimes[Math.round(timePos)]);
+  })();
+
+  // ---- EXPORT ---- //
+  const [exportSize, setExportSize] = useState(EXPORT_SIZES[0].id);
+  const [exportTitle, setExportTitle] = useState('');
+  const [burnIn, setBurnIn] = useState({ legend: true, levelTime: true });
+  const [recording, setRecording] = useState<'view' | 'timeline' | null>(null);
+  const recorderRef = useRef<{ mode: 'view' | 'timeline'; stop: () => Promise<void> } | null>(null);
+  // Read by recorded frames, which outlive the render that started them
+  const annotationsRef = useRef<ExportAnnotations>({});
+  const exportName = () => {
+    const time = validTimes[Math.round(timePos)]?.slice(0, 16).replace(/:/g, '') ?? '';
+    return ['skyplot', levels[lvlIdx] && levelKey(levels[lvlIdx].label), overlayMode, time].filter(Boolean).join('-');
+  };
+
+  useEffect(() => {
+    const scale = comparisonScale(overlayMode, comparison) ?? overlayById(overlayMode) ?? diagnosticById(overlayMode);
+    annotationsRef.current = {
+      title: exportTitle.trim() || undefined,
+      subtitle: burnIn.levelTime
+        ? [levels[lvlIdx] && formatLevel(levels[lvlIdx].label, units.level), timeLabel].filter(Boolean).join(' · ')
+        : undefined,
+      legend: burnIn.legend && scale ? withUnits(withColorSettings(scale, colorSettings[scale.id]), units) : null
+    };
+  }, [exportTitle, burnIn, levels, lvlIdx, timeLabel, overlayMode, comparison, colorSettings, units]);
+
+  const saveSnapshot = async () => {
+    const size = EXPORT_SIZES.find(s => s.id === exportSize) ?? EXPORT_SIZES[0];
+    const el = wrap.current;
+    if (!el || !snapshotRef.current) return;
+    const width = size.width || Math.round(el.offsetWidth * window.devicePixelRatio);
+    const height = size.height || Math.round(el.offsetHeight * window.devicePixelRatio);
+    const canvas = snapshotRef.current(width, height);
+    drawAnnotations(canvas.getContext('2d')!, width, height, annotationsRef.current);
+    try {
+      downloadBlob(await canvasBlob(canvas), `${exportName()}.png`);
+    } catch (error) {
+      console.warn('Failed to save snapshot:', error);
+    }
+  };
+
+  // Records the live view, or one pass of the timeline from the first valid time
+  const startRecording = (mode: 'view' | 'timeline') => {
+    const source = wrap.current?.querySelector('canvas');
+    // Playback needs two valid times, so a timeline recording would never end
+    if (!source || recorderRef.current || (mode === 'timeline' && validTimes.length < 2)) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = source.width;
+    canvas.height = source.height;
+    const ctx = canvas.getContext('2d')!;
+    frameSinkRef.current = layers => {
+      drawLayers(ctx, layers, canvas.width, canvas.height);
+      drawAnnotations(ctx, canvas.width, canvas.height, annotationsRef.current);
+    };
+    const recorder = createCanvasRecorder(canvas);
+    const name = exportName();
+    recorderRef.current = {
+      mode,
+      stop: async () => {
+        recorderRef.current = null;
+        frameSinkRef.current = null;
+        setRecording(null);
+        if (mode === 'timeline') setPlaying(false);
+        downloadBlob(await recorder.stop(), `${name}.webm`);
       }
+    };
+    setRecording(mode);
+    if (mode === 'timeline') {
+      lastTimePos.current = 0;
+      timeRef.current = 0;
+      setTimePos(0);
+      setPlaying(true);
+    }
+  };
+
+  // A timeline recording ends when playback wraps back to the first step, or
+  // straight away if a run without a timeline is loaded meanwhile
+  const lastTimePos = useRef(timePos);
+  useEffect(() => {
+    const wrapped = timePos < lastTimePos.current || validTimes.length < 2;
+    if (recorderRef.current?.mode === 'timeline' && wrapped) recorderRef.current.stop();
+    lastTimePos.current = timePos;
+  }, [timePos, validTimes.length]);
+
+  useEffect(() => () => {
+    recorderRef.current?.stop();
+  }, []);
+
+  useEffect(() => {
+    mapLayersRef.current = mapLayers;
+  }, [mapLayers]);
+
+  // Everything but the camera, which the render effect adds as it moves
+  useEffect(() => {
+    if (!levels.length || pendingUrlState.current) return;
+    urlStateRef.current = {
+      level: levels[lvlIdx]?.label,
+      overlay: overlayMode,
+      time: validTimes[Math.round(timePos)],
+      projection: projectionId,
+      layers: (Object.keys(mapLayers) as (keyof typeof mapLayers)[]).filter(id => mapLayers[id]),
+      contours: contoursOn,
+      glyphs: glyphMode,
+      particles: particlesOn,
+      shear: shearLevels ? [levels[shearLevels[0]].label, levels[shearLevels[1]].label] : undefined
+    };
+    writeUrl({ ...viewRef.current, ...urlStateRef.current });
+  }, [levels, lvlIdx, overlayMode, validTimes, timePos, projectionId, mapLayers, contoursOn, glyphMode, particlesOn, shearLevels, writeUrl]);
+
+  useEffect(() => {
+    contoursRef.current = contoursOn;
+  }, [contoursOn]);
+
+  useEffect(() => {
+    colorSettingsRef.current = colorSettings;
+  }, [colorSettings]);
+
+  useEffect(() => {
+    setUnits(loadUnitPreferences());
+  }, []);
+
+  useEffect(() => {
+    unitsRef.current = units;
+  }, [units]);
+
+  const changeUnits = (change: Partial<UnitPreferences>) => {
+    const next = { ...units, ...change };
+    setUnits(next);
+    saveUnitPreferences(next);
+  };
+
+  useEffect(() => {
+    flowRef.current = { particles: particlesOn, glyphs: glyphMode };
+  }, [particlesOn, glyphMode]);
+
+  useEffect(() => {
+    probeModeRef.current = probeMode;
+  }, [probeMode]);
+
+  useEffect(() => {
+    if (wrap.current) wrap.current.style.cursor = probeMode || trajectoryPicking ? 'crosshair' : '';
+  }, [probeMode, trajectoryPicking]);
+
+  useEffect(() => {
+    trajectoriesRef.current = trajectories;
+  }, [trajectories]);
+
+  // Traces from a clicked point on the selected level, starting at the current time.
+  // Without a valid time per frame the wind is held at the current frame.
+  useEffect(() => {
+    const level = levels[lvlIdx];
+    if (!trajectoryPicking || !level?.frames.length) {
+      trajectoryPickRef.current = null;
+      return;
     }
-  }, [airModeEnabled, overlayMode]);
+    const base = Date.parse(validTimes[0] ?? '');
+    const times = level.frames.map((_, t) => (Date.parse(validTimes[t] ?? '') - base) / 3600e3);
+    const timed = times.every(Number.isFinite);
+    trajectoryPickRef.current = at => {
+      const meta = gridMeta.current;
+      if (!meta) return;
+      const { t0, t1, f } = timeBlend(timeRef.current, level.frames.length);
+      const frames = timed ? level.frames : [level.frames[Math.round(t0 + f)]];
+      const wind = { meta, U: frames.map(fr => fr.U), V: frames.map(fr => fr.V), times: timed ? times : [0] };
+      const startHours = timed ? times[t0] + (times[t1] - times[t0]) * f : 0;
+      const options = { hours: trajectoryHours, direction: trajectoryDirection };
+      const points = traceTrajectory(wind, at, startHours, options);
+      setTrajectories(list => [...list, createTrajectory(points, trajectoryDirection, level.label)]);
+    };
+  }, [trajectoryPicking, trajectoryHours, trajectoryDirection, levels, lvlIdx, validTimes]);
+
+  const [soundingOpen, setSoundingOpen] = useState(false);
+
+  const clearProbe = () => {
+    probeRef.current = null;
+    setProbeReading(null);
+    setSoundingOpen(false);
+  };
+
+  // Vertical profile at the probe location: temperature from the level matching each wind level
+  const soundingPoints: SoundingPoint[] = [];
+  if (soundingOpen && probeReading && gridMeta.current) {
+    const { lon, lat } = probeReading;
+    levels.forEach(level => {
+      const tempLevel = matchingLevel(scalarLevels.temperature, level.label);
+      const tempMeta = scalarMeta.current.temperature;
+      const pressure = levelPressure(level.label);
+      const sample = (key: 'U' | 'V') =>
+        sampleFrames(gridMeta.current!, level.frames.map(f => f[key]), timePos, lon, lat);
+      const tempK = tempLevel && tempMeta
+        ? sampleFrames(tempMeta, tempLevel.frames, timePos, lon, lat)
+        : NaN;
+      soundingPoints.push({
+        label: level.label,
+        pressure: Number.isFinite(pressure) ? pressure : SURFACE_PRESSURE,
+        tempK,
+        u: sample('U'),
+        v: sample('V')
+      });
+    });
+  }
 
   // Accessibility: focus management
   const dashRef = useRef<HTMLDivElement>(null);
@@ -1170,11 +2030,42 @@ export default function GlobeWindMap() {
     if (dashOpen) dashRef.current?.focus();
   }, [dashOpen]);
 
+  useEffect(() => {
+    placeRef.current = place;
+  }, [place]);
+
+  const selectPlace = (selected: Place) => {
+    setPlace(selected);
+    flyToRef.current?.(selected.lon, selected.lat, Math.max(viewRef.current.zoom, PLACE_ZOOM));
+  };
+
   useEffect(() => {
     const onKeyDown = (e: KeyboardEvent) => {
+      // Typing in the search box or other fields isn't a shortcut
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select')) return;
+      // Leave browser and system shortcuts such as Ctrl+R or Cmd+T alone
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.key === '/') {
+        e.preventDefault();
+        searchInputRef.current?.focus();
+      }
+      // View shortcuts: reset to the starting view, or fly to either pole
+      if (e.key === 'r' || e.key === 'R') {
+        flyToRef.current?.(0, 0, 1);
+      }
+      if (e.key === 'n' || e.key === 'N') {
+        flyToRef.current?.(viewRef.current.lon, 90);
+      }
+      if (e.key === 's' || e.key === 'S') {
+        flyToRef.current?.(viewRef.current.lon, -90);
+      }
       if (e.key === 't' || e.key === 'T') {
         setDashOpen(d => !d);
       }
+      if (e.key === 'p' || e.key === 'P') {
+        setProbeMode(m => !m);
+      }
       if (dashOpen && (e.key === 'Escape' || e.key === 'x')) {
         setDashOpen(false);
       }
@@ -1185,8 +2076,8 @@ export default function GlobeWindMap() {
 
   // Hide overlay if overlayMode is 'none'
   useEffect(() => {
-    // Enable air mode for both wind and temperature overlays
-    setAirModeEnabled(overlayMode === 'wind' || overlayMode === 'temperature');
+    // Enable air mode for every overlay except 'none'
+    setAirModeEnabled(overlayMode !== 'none');
     setRenderTrigger(prev => prev + 1);
   }, [overlayMode]);
 
@@ -1194,6 +2085,8 @@ export default function GlobeWindMap() {
   useEffect(() => {
     if (!dashOpen) return;
     const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input:not([type="range"]), textarea, select')) return;
       // Allow keyboard navigation even when the range input isn't focused
       if (e.key === 'ArrowLeft' || e.key === 'ArrowDown') {
         e.preventDefault();
@@ -1211,20 +2104,59 @@ export default function GlobeWindMap() {
         e.preventDefault();
         setLvlIdx(levels.length - 1);
       }
+      // Timeline: space toggles playback, comma/period step through valid times
+      if (e.key === ' ' && validTimes.length > 1) {
+        e.preventDefault();
+        setPlaying(p => !p);
+      }
+      if (e.key === ',' || e.key === '.') {
+        const delta = e.key === '.' ? 1 : -1;
+        setPlaying(false);
+        setTimePos(steppedTime(timeRef.current, delta, validTimes.length));
+      }
     };
     window.addEventListener('keydown', onKeyDown);
     return () => window.removeEventListener('keydown', onKeyDown);
-  }, [dashOpen, levels.length]);
+  }, [dashOpen, levels.length, validTimes.length]);
 
   return (
     <>
-      {/* Loading indicator for overlay */}
-      {isOverlayLoading && (airModeEnabled || overlayMode === 'temperature') && (
-        <div className="fixed top-6 right-6 z-20 bg-white/10 backdrop-blur-lg rounded-full px-4 py-2 border border-white/20 text-white text-sm shadow-lg flex items-center gap-2">
-          <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-          <span>Updating overlay...</span>
-        </div>
-      )}
+      {/* Per-level loading progress and failures */}
+      {(() => {
+        const entries = Object.entries(loadProgress);
+        const busy = entries.some(([, p]) => p.loaded + p.errors.length < p.total);
+        const failed = entries.some(([, p]) => p.errors.length > 0);
+        if (!busy && !failed) return null;
+        return (
+          <div className="fixed top-6 left-6 z-20 bg-white/10 backdrop-blur-lg rounded-xl px-4 py-3 border border-white/20 text-white text-xs shadow-lg w-[280px]">
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-semibold text-sm">{busy ? 'Loading data' : 'Some levels failed to load'}</span>
+              {!busy && (
+                <button aria-label="Dismiss" className="text-white/60 hover:text-white text-base" onClick={() => setLoadProgress({})}>×</button>
+              )}
+            </div>
+            <div className="flex flex-col gap-1 max-h-[40vh] overflow-y-auto no-scrollbar">
+              {entries.map(([key, p]) => (
+                <div key={key}>
+                  <div className="flex items-center gap-2">
+                    <span className="w-28 truncate text-white/80">{OVERLAYS.find(o => o.variable === p.variable)?.label ?? p.variable} {p.label}</span>
+                    <div className="flex-1 h-1.5 bg-white/10 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full ${p.errors.length ? 'bg-red-400' : 'bg-cyan-400'}`}
+                        style={{ width: `${((p.loaded + p.errors.length) / Math.max(1, p.total)) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-8 text-right font-mono text-white/60">{p.loaded}/{p.total}</span>
+                  </div>
+                  {p.errors.map((message, i) => (
+                    <div key={i} className="text-red-300 pl-1 truncate" title={message}>{message}</div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })()}
 
       {/* Dashboard toggle button */}
       <button
@@ -1252,152 +2184,427 @@ export default function GlobeWindMap() {
             onClick={() => setDashOpen(false)}
           >×</button>
           <div className="font-bold mb-1 text-base tracking-wide">Dashboard</div>
+          {catalogue && catalogue.runs.length > 0 && (
+            <div className="mb-2 flex items-center gap-2 text-xs">
+              <label htmlFor="model-run" className="font-medium text-sm">Model run</label>
+              <select
+                id="model-run"
+                className="flex-1 bg-white/10 border border-white/20 rounded px-2 py-0.5"
+                value={runIdx}
+                onChange={e => {
+                  const i = Number(e.target.value);
+                  setRunIdx(i);
+                  if (i === compareIdx) setCompareIdx(null);
+                }}
+              >
+                {catalogue.runs.map((r, i) => (
+                  <option key={`${r.model}|${r.refTime}`} value={i} className="bg-gray-900">
+                    {r.model} {formatValidTime(r.refTime)}{r.members ? ` (${r.members.length} members)` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {/* Comparison with another run (B), or the ensemble of this one */}
+          {catalogue && run && (catalogue.runs.length > 1 || run.members) && (
+            <div className="mb-2 text-xs">
+              {catalogue.runs.length > 1 && (
+                <div className="mb-1 flex items-center gap-2">
+                  <label htmlFor="compare-run" className="font-medium text-sm">Compare</label>
+                  <select
+                    id="compare-run"
+                    className="flex-1 bg-white/10 border border-white/20 rounded px-2 py-0.5"
+                    value={compareIdx ?? ''}
+                    onChange={e => setCompareIdx(e.target.value === '' ? null : Number(e.target.value))}
+                  >
+                    <option value="" className="bg-gray-900">No other run</option>
+                    {catalogue.runs.map((r, i) => i !== runIdx && (
+                      <option key={`${r.model}|${r.refTime}`} value={i} className="bg-gray-900">
+                        {r.model} {formatValidTime(r.refTime)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div className="flex flex-wrap gap-1" role="radiogroup" aria-label="Comparison">
+                {([
+                  ['off', 'Off', 'The run on its own'],
+                  ['difference', 'A − B', 'This run minus the compared run'],
+                  ['swipe', 'Swipe', 'This run left of a divider, the compared run right of it'],
+                  ['mean', 'Mean', 'Mean of the ensemble members'],
+                  ['spread', 'Spread', 'Standard deviation of the ensemble members']
+                ] as const).filter(([id]) => comparisonAvailable(id)).map(([id, label, title]) => (
+                  <button
+                    key={id}
+                    role="radio"
+                    aria-checked={pickedComparison === id}
+                    title={title}
+                    className={`px-3 py-1 rounded-full font-semibold text-xs transition-all duration-150 border border-white/20 focus:outline-none ${pickedComparison === id ? 'bg-cyan-400/90 text-black shadow-md' : 'bg-white/10 text-white/80 hover:bg-cyan-300/30'}`}
+                    onClick={() => setComparisonMode(id)}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {pickedComparison !== 'off' && !isCompared(overlayMode) && (
+                <div className="mt-1 text-white/60">Shown with the wind and temperature overlays</div>
+              )}
+              {ensembleRequested && ensemble && ensemble.loaded < ensemble.total && (
+                <div className="mt-1 text-white/60">Loading ensemble members: {ensemble.loaded}/{ensemble.total}</div>
+              )}
+            </div>
+          )}
           {/* Overlay selector as pill toggle */}
-          <div className="mb-2 flex items-center gap-2">
-            <span className="mr-1 font-medium">Overlay</span>
-            {isOverlayLoading && (airModeEnabled || overlayMode === 'temperature') && (
-              <div className="w-3 h-3 border border-cyan-400/60 border-t-cyan-400 rounded-full animate-spin ml-1"></div>
-            )}
-            <div className="flex gap-1" role="radiogroup" aria-label="Overlay selector">
-              {["wind", "temperature", "none"].map(mode => (
+          <div className="mb-2 flex items-start gap-2">
+            <span className="mr-1 font-medium pt-1">Overlay</span>
+            <div className="flex flex-wrap gap-1" role="radiogroup" aria-label="Overlay selector">
+              {[...OVERLAYS.filter(o => !run || run.variables.some(v => v.id === o.variable)).map(o => ({ id: o.id, label: o.label, title: o.name })), { id: 'none' as const, label: 'None', title: 'No overlay' }].map(({ id, label, title }) => (
                 <button
-                  key={mode}
+                  key={id}
                   role="radio"
-                  aria-checked={overlayMode === mode}
+                  aria-checked={overlayMode === id}
+                  title={title}
                   tabIndex={0}
-                  className={`px-3 py-1 rounded-full font-semibold text-xs transition-all duration-150 border border-white/20 focus:outline-none ${overlayMode === mode ? 'bg-cyan-400/90 text-black shadow-md scale-105' : 'bg-white/10 text-white/80 hover:bg-cyan-300/30'}`}
+                  className={`px-3 py-1 rounded-full font-semibold text-xs transition-all duration-150 border border-white/20 focus:outline-none ${overlayMode === id ? 'bg-cyan-400/90 text-black shadow-md scale-105' : 'bg-white/10 text-white/80 hover:bg-cyan-300/30'}`}
                   style={{ minWidth: 56, letterSpacing: '0.5px' }}
-                  onClick={() => setOverlayMode(mode as 'wind' | 'temperature' | 'none')}
+                  onClick={() => setOverlayMode(id)}
                 >
-                  {mode === 'wind' ? 'Wind' : mode === 'temperature' ? 'Temp' : 'None'}
+                  {label}
                 </button>
               ))}
             </div>
           </div>
-          {/* Temperature/Wind speed legend with ticks */}
-          <div className="mb-1 mt-2 font-medium">Scale</div>
-          <div className="flex flex-col items-center w-full mb-2 relative group">
-            {overlayMode === 'wind' ? (
-              <svg
-                width="220" height="22" style={{ display: 'block', cursor: 'pointer' }}
-                onMouseMove={e => {
-                  const rect = (e.target as SVGElement).getBoundingClientRect();
-                  const x = e.clientX - rect.left;
-                  const value = Math.round((x / 220) * 100);
-                  setLegendHover(value);
-                }}
-                onMouseLeave={() => setLegendHover(null)}
+          {/* Diagnostics derived from wind and temperature */}
+          <div className="mb-2 flex items-start gap-2">
+            <span className="mr-1 font-medium pt-1">Derived</span>
+            <div className="flex flex-wrap gap-1" role="radiogroup" aria-label="Derived overlay selector">
+              {DIAGNOSTICS.map(({ id, label, name }) => (
+                <button
+                  key={id}
+                  role="radio"
+                  aria-checked={overlayMode === id}
+                  title={name}
+                  tabIndex={0}
+                  className={`px-3 py-1 rounded-full font-semibold text-xs transition-all duration-150 border border-white/20 focus:outline-none ${overlayMode === id ? 'bg-cyan-400/90 text-black shadow-md scale-105' : 'bg-white/10 text-white/80 hover:bg-cyan-300/30'}`}
+                  style={{ minWidth: 56, letterSpacing: '0.5px' }}
+                  onClick={() => setOverlayMode(id)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {overlayMode === 'shear' && levels.length > 1 && (() => {
+            const [lower, upper] = shearLevels ?? defaultShearLevels(levels);
+            const levelSelect = (value: number, onChange: (i: number) => void, label: string) => (
+              <select
+                aria-label={label}
+                value={value}
+                onChange={e => onChange(Number(e.target.value))}
+                className="bg-white/10 border border-white/20 rounded px-2 py-0.5 text-xs"
               >
-                <defs>
-                  <linearGradient id="windbar" x1="0%" y1="0%" x2="100%" y2="0%">
-                    {Array.from({ length: 100 }, (_, i) => {
-                      const [r, g, b] = windSpeedColorScale(i, 1);
-                      return (
-                        <stop
-                          key={i}
-                          offset={`${i}%`}
-                          stopColor={`rgb(${r},${g},${b})`}
-                        />
-                      );
-                    })}
-                  </linearGradient>
-                </defs>
-                <rect x="0" y="4" width="220" height="14" fill="url(#windbar)" rx="7" />
-                {/* Tick marks */}
-                {Array.from({ length: 6 }, (_, i) => (
-                  <g key={i}>
-                    <rect x={i * 44 - 0.5} y="2" width="1" height="18" fill="#fff" fillOpacity="0.5" />
-                    <text x={i * 44} y="20" textAnchor="middle" fontSize="10" fill="#e0e0e0">{i * 10}</text>
-                  </g>
+                {levels.map((level, i) => (
+                  <option key={i} value={i} className="bg-gray-900">{formatLevel(level.label, units.level)}</option>
                 ))}
-                {/* Last tick for 50+ */}
-                <g>
-                  <rect x={220 - 0.5} y="2" width="1" height="18" fill="#fff" fillOpacity="0.5" />
-                  <text x={220} y="20" textAnchor="end" fontSize="10" fill="#e0e0e0">50+</text>
-                </g>
-                {legendHover !== null && (
-                  <g>
-                    <rect x={legendHover * 2.2 - 1} y="4" width="2" height="14" fill="#fff" fillOpacity="0.7" />
-                  </g>
-                )}
-              </svg>
-            ) : overlayMode === 'temperature' ? (
-              <svg
-                width="220" height="22" style={{ display: 'block', cursor: 'pointer' }}
-                onMouseMove={e => {
-                  const rect = (e.target as SVGElement).getBoundingClientRect();
-                  const x = e.clientX - rect.left;
-                  const value = Math.round(-80 + (x / 220) * 130); // -80°C to 50°C
-                  setLegendHover(value);
-                }}
-                onMouseLeave={() => setLegendHover(null)}
-              >
-                <defs>
-                  <linearGradient id="tempbar" x1="0%" y1="0%" x2="100%" y2="0%">
-                    {Array.from({ length: 100 }, (_, i) => {
-                      const tempC = -80 + (i / 99) * 130; // -80°C to 50°C
-                      const [r, g, b] = tempColorScale(tempC, 1);
-                      return (
-                        <stop
-                          key={i}
-                          offset={`${i}%`}
-                          stopColor={`rgb(${r},${g},${b})`}
-                        />
-                      );
-                    })}
-                  </linearGradient>
-                </defs>
-                <rect x="0" y="4" width="220" height="14" fill="url(#tempbar)" rx="7" />
-                {/* Tick marks for temperature */}
-                {Array.from({ length: 7 }, (_, i) => {
-                  const tempValue = -60 + i * 20; // -60, -40, -20, 0, 20, 40, 60
-                  const x = ((tempValue + 80) / 130) * 220;
-                  return (
-                    <g key={i}>
-                      <rect x={x - 0.5} y="2" width="1" height="18" fill="#fff" fillOpacity="0.5" />
-                      <text x={x} y="20" textAnchor="middle" fontSize="10" fill="#e0e0e0">{tempValue}°</text>
-                    </g>
-                  );
-                })}
-                {legendHover !== null && (
-                  <g>
-                    <rect x={((legendHover + 80) / 130) * 220 - 1} y="4" width="2" height="14" fill="#fff" fillOpacity="0.7" />
-                  </g>
-                )}
-              </svg>
-            ) : (
-              <div className="text-gray-400 text-center py-2">No overlay selected</div>
-            )}
-            {legendHover !== null && overlayMode === 'wind' && (
-              <div
-                className="absolute left-0 top-[-32px] text-xs bg-black/90 px-2 py-1 rounded pointer-events-none border border-gray-700 shadow"
-                style={{ left: `${legendHover * 2.2 - 18}px`, minWidth: '48px', textAlign: 'center', zIndex: 10 }}
+              </select>
+            );
+            return (
+              <div className="mb-2 flex items-center gap-2 text-xs">
+                <span className="mr-1 font-medium text-sm">Shear</span>
+                {levelSelect(lower, i => setShearLevels([i, upper]), 'Lower shear level')}
+                <span className="text-white/60">to</span>
+                {levelSelect(upper, i => setShearLevels([lower, i]), 'Upper shear level')}
+              </div>
+            );
+          })()}
+          {/* Globe or flat map projection */}
+          <div className="mb-2 flex items-start gap-2">
+            <span className="mr-1 font-medium pt-1">View</span>
+            <div className="flex flex-wrap gap-1" role="radiogroup" aria-label="Projection selector">
+              {PROJECTIONS.map(({ id, label, name }) => (
+                <button
+                  key={id}
+                  role="radio"
+                  aria-checked={projectionId === id}
+                  title={name}
+                  className={`px-3 py-1 rounded-full font-semibold text-xs transition-all duration-150 border border-white/20 focus:outline-none ${projectionId === id ? 'bg-cyan-400/90 text-black shadow-md' : 'bg-white/10 text-white/80 hover:bg-cyan-300/30'}`}
+                  onClick={() => setProjectionId(id)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {/* Wind display: particles, glyphs, or both */}
+          <div className="mb-2 flex items-start gap-2">
+            <span className="mr-1 font-medium pt-1">Flow</span>
+            <div className="flex flex-wrap gap-1">
+              <button
+                role="switch"
+                aria-checked={particlesOn}
+                className={`px-3 py-1 rounded-full font-semibold text-xs transition-all duration-150 border border-white/20 focus:outline-none ${particlesOn ? 'bg-cyan-400/90 text-black shadow-md' : 'bg-white/10 text-white/80 hover:bg-cyan-300/30'}`}
+                onClick={() => setParticlesOn(p => !p)}
               >
-                <div className="mb-[-4px]">{legendHover} m/s</div>
-                <svg width="16" height="8" style={{ position: 'absolute', left: '50%', transform: 'translateX(-50%)', top: '100%' }}>
-                  <polygon points="8,0 16,8 0,8" fill="#222" fillOpacity="0.9" />
-                </svg>
+                Particles
+              </button>
+              <div className="flex flex-wrap gap-1" role="radiogroup" aria-label="Wind glyph selector">
+                {([['none', 'No glyphs'], ['barbs', 'Barbs'], ['arrows', 'Arrows']] as const).map(([id, label]) => (
+                  <button
+                    key={id}
+                    role="radio"
+                    aria-checked={glyphMode === id}
+                    className={`px-3 py-1 rounded-full font-semibold text-xs transition-all duration-150 border border-white/20 focus:outline-none ${glyphMode === id ? 'bg-cyan-400/90 text-black shadow-md' : 'bg-white/10 text-white/80 hover:bg-cyan-300/30'}`}
+                    onClick={() => setGlyphMode(id)}
+                  >
+                    {label}
+                  </button>
+                ))}
               </div>
+            </div>
+          </div>
+          {/* Probe mode toggle */}
+          <div className="mb-2 flex items-center gap-2">
+            <span className="mr-1 font-medium">Probe</span>
+            <button
+              role="switch"
+              aria-checked={probeMode}
+              className={`px-3 py-1 rounded-full font-semibold text-xs transition-all duration-150 border border-white/20 focus:outline-none ${probeMode ? 'bg-cyan-400/90 text-black shadow-md' : 'bg-white/10 text-white/80 hover:bg-cyan-300/30'}`}
+              onClick={() => setProbeMode(m => !m)}
+            >
+              {probeMode ? 'On' : 'Off'}
+            </button>
+            {probeReading && (
+              <button
+                className="px-3 py-1 rounded-full text-xs bg-white/10 text-white/80 border border-white/20 hover:bg-white/20"
+                onClick={clearProbe}
+              >
+                Clear pin
+              </button>
             )}
-            {legendHover !== null && overlayMode === 'temperature' && (
-              <div
-                className="absolute left-0 top-[-32px] text-xs bg-black/90 px-2 py-1 rounded pointer-events-none border border-gray-700 shadow"
-                style={{ left: `${((legendHover + 80) / 130) * 220 - 18}px`, minWidth: '48px', textAlign: 'center', zIndex: 10 }}
+            <span className="text-xs text-white/50">Click the globe to read values</span>
+          </div>
+          {/* Trajectories: click the globe to trace a parcel from the current time */}
+          <div className="mb-2 flex flex-col gap-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="mr-1 font-medium">Trajectory</span>
+              <button
+                role="switch"
+                aria-checked={trajectoryPicking}
+                className={`px-3 py-1 rounded-full font-semibold text-xs transition-all duration-150 border border-white/20 focus:outline-none ${trajectoryPicking ? 'bg-cyan-400/90 text-black shadow-md' : 'bg-white/10 text-white/80 hover:bg-cyan-300/30'}`}
+                onClick={() => setTrajectoryPicking(p => !p)}
               >
-                <div className="mb-[-4px]">{legendHover}°C</div>
-                <svg width="16" height="8" style={{ position: 'absolute', left: '50%', transform: 'translateX(-50%)', top: '100%' }}>
-                  <polygon points="8,0 16,8 0,8" fill="#222" fillOpacity="0.9" />
-                </svg>
+                {trajectoryPicking ? 'Picking' : 'Pick start'}
+              </button>
+              <div className="flex gap-1" role="radiogroup" aria-label="Trajectory direction">
+                {([['forward', 'Forward'], ['backward', 'Backward']] as const).map(([id, label]) => (
+                  <button
+                    key={id}
+                    role="radio"
+                    aria-checked={trajectoryDirection === id}
+                    className={`px-3 py-1 rounded-full font-semibold text-xs transition-all duration-150 border border-white/20 focus:outline-none ${trajectoryDirection === id ? 'bg-cyan-400/90 text-black shadow-md' : 'bg-white/10 text-white/80 hover:bg-cyan-300/30'}`}
+                    onClick={() => setTrajectoryDirection(id)}
+                  >
+                    {label}
+                  </button>
+                ))}
               </div>
+              <select
+                aria-label="Trajectory duration"
+                value={trajectoryHours}
+                onChange={e => setTrajectoryHours(Number(e.target.value))}
+                className="bg-white/10 border border-white/20 rounded px-2 py-0.5 text-xs"
+              >
+                {TRAJECTORY_HOURS.map(h => <option key={h} value={h} className="bg-gray-900">{h} h</option>)}
+              </select>
+            </div>
+            {trajectories.length > 0 && (
+              <>
+                <ul className="text-xs text-white/80">
+                  {trajectories.map((t, i) => (
+                    <li key={i} className="flex items-center gap-2">
+                      <span style={{ color: `#${TRAJECTORY_COLORS[t.direction].toString(16)}` }}>
+                        {t.direction === 'forward' ? '→' : '←'}
+                      </span>
+                      <span>
+                        {formatLevel(t.level, units.level)} · {Math.round(t.distance / 1000)} km in {t.duration.toFixed(1)} h · mean {formatSpeed(t.meanSpeed, units.speed)}
+                      </span>
+                      <button
+                        aria-label="Remove trajectory"
+                        className="text-white/60 hover:text-white"
+                        onClick={() => setTrajectories(list => list.filter(other => other !== t))}
+                      >
+                        ×
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex gap-2">
+                  <button
+                    className="px-3 py-1 rounded-full text-xs bg-white/10 text-white/80 border border-white/20 hover:bg-white/20"
+                    onClick={() => downloadBlob(
+                      new Blob([JSON.stringify(trajectoriesGeoJson(trajectories, validTimes[0]))], { type: 'application/geo+json' }),
+                      'trajectories.geojson'
+                    )}
+                  >
+                    Export GeoJSON
+                  </button>
+                  <button
+                    className="px-3 py-1 rounded-full text-xs bg-white/10 text-white/80 border border-white/20 hover:bg-white/20"
+                    onClick={() => setTrajectories([])}
+                  >
+                    Clear
+                  </button>
+                </div>
+              </>
             )}
           </div>
+          {/* Map reference layers */}
+          <div className="mb-2 flex items-start gap-2">
+            <span className="mr-1 font-medium pt-1">Layers</span>
+            <div className="flex flex-wrap gap-1">
+              {[...MAP_LAYERS.map(l => ({ id: l.id, name: l.name })), { id: 'graticuleLabels' as const, name: 'Grid labels' }].map(({ id, name }) => (
+                <button
+                  key={id}
+                  role="switch"
+                  aria-checked={mapLayers[id]}
+                  className={`px-3 py-1 rounded-full font-semibold text-xs transition-all duration-150 border border-white/20 focus:outline-none ${mapLayers[id] ? 'bg-cyan-400/90 text-black shadow-md' : 'bg-white/10 text-white/80 hover:bg-cyan-300/30'}`}
+                  onClick={() => setMapLayers(m => ({ ...m, [id]: !m[id] }))}
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+          </div>
+          {/* Display units, remembered between visits */}
+          <div className="mb-2 flex flex-wrap items-center gap-2 text-xs">
+            <span className="mr-1 font-medium text-sm">Units</span>
+            <select
+              aria-label="Speed unit"
+              value={units.speed}
+              onChange={e => changeUnits({ speed: e.target.value as UnitPreferences['speed'] })}
+              className="bg-white/10 border border-white/20 rounded px-2 py-0.5"
+            >
+              {SPEED_UNITS.map(({ id, label }) => <option key={id} value={id} className="bg-gray-900">{label}</option>)}
+            </select>
+            <select
+              aria-label="Temperature unit"
+              value={units.temperature}
+              onChange={e => changeUnits({ temperature: e.target.value as UnitPreferences['temperature'] })}
+              className="bg-white/10 border border-white/20 rounded px-2 py-0.5"
+            >
+              {TEMPERATURE_UNITS.map(({ id, label }) => <option key={id} value={id} className="bg-gray-900">{label}</option>)}
+            </select>
+            <select
+              aria-label="Level unit"
+              value={units.level}
+              onChange={e => changeUnits({ level: e.target.value as UnitPreferences['level'] })}
+              className="bg-white/10 border border-white/20 rounded px-2 py-0.5"
+            >
+              {LEVEL_UNITS.map(({ id, label }) => <option key={id} value={id} className="bg-gray-900">{label === 'FL' ? 'Flight level' : `Levels in ${label}`}</option>)}
+            </select>
+          </div>
+          {/* Legend for the active overlay */}
+          {(() => {
+            const def = comparisonScale(overlayMode, comparison) ?? overlayById(overlayMode) ?? diagnosticById(overlayMode);
+            const colors = def && colorSettings[def.id];
+            const scale = def && withUnits(withColorSettings(def, colors), units);
+            const setColors = (change: ColorSettings) => {
+              if (def) setColorSettings(c => ({ ...c, [def.id]: { ...c[def.id], ...change } }));
+            };
+            // Committed on blur or Enter so half-typed numbers don't rescale the overlay
+            const rangeInput = (bound: 'min' | 'max') => scale && (
+              <input
+                key={`${scale.id}-${bound}-${colors?.[bound] ?? 'auto'}-${scale[bound]}`}
+                type="number"
+                step="any"
+                aria-label={bound === 'min' ? 'Colour scale minimum' : 'Colour scale maximum'}
+                defaultValue={Number(scale[bound].toPrecision(6))}
+                onBlur={e => {
+                  // Typed in display units; settings keep the overlay's own
+                  const value = e.target.value.trim() === '' ? NaN : Number(e.target.value);
+                  setColors({ [bound]: Number.isFinite(value) ? fromDisplayUnits(def, units, value) : undefined });
+                }}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') e.currentTarget.blur();
+                }}
+                className="w-16 bg-white/10 border border-white/20 rounded px-1 py-0.5"
+              />
+            );
+            return (
+              <>
+                <div className="mb-1 mt-2 font-medium">
+                  Scale{scale && <span className="text-white/60 font-normal"> · {scale.name} ({scale.units})</span>}
+                </div>
+                {scale ? (
+                  <OverlayLegend key={scale.id} overlay={scale} />
+                ) : (
+                  <div className="text-gray-400 text-center py-2">No overlay selected</div>
+                )}
+                {def && (
+                  <div className="mb-2 flex items-center gap-2">
+                    <span className="mr-1 font-medium">Contours</span>
+                    <button
+                      role="switch"
+                      aria-checked={contoursOn}
+                      className={`px-3 py-1 rounded-full font-semibold text-xs transition-all duration-150 border border-white/20 focus:outline-none ${contoursOn ? 'bg-cyan-400/90 text-black shadow-md' : 'bg-white/10 text-white/80 hover:bg-cyan-300/30'}`}
+                      onClick={() => setContoursOn(c => !c)}
+                    >
+                      {contoursOn ? 'On' : 'Off'}
+                    </button>
+                    <span className="text-xs text-white/50">
+                      {scale?.units === 'Bft' ? 'At each Beaufort force' : `Every ${scale?.contourInterval} ${scale?.units}`}
+                    </span>
+                  </div>
+                )}
+                {scale && (
+                  <div className="mb-2 flex flex-wrap items-center gap-2 text-xs">
+                    <select
+                      aria-label="Colormap"
+                      value={colors?.colormap ?? ''}
+                      onChange={e => setColors({ colormap: e.target.value || undefined })}
+                      className="bg-white/10 border border-white/20 rounded px-2 py-0.5"
+                    >
+                      <option value="" className="bg-gray-900">Default colours</option>
+                      {COLORMAPS.map(({ id, name, colourBlindSafe }) => (
+                        <option key={id} value={id} className="bg-gray-900">{name}{colourBlindSafe ? ' (colour-blind safe)' : ''}</option>
+                      ))}
+                    </select>
+                    {rangeInput('min')}
+                    <span className="text-white/50">to</span>
+                    {rangeInput('max')}
+                    <label className={`flex items-center gap-1 ${scale.min > 0 ? '' : 'opacity-40'}`} title="Needs a minimum above zero">
+                      <input
+                        type="checkbox"
+                        disabled={!(scale.min > 0)}
+                        checked={!!scale.log}
+                        onChange={e => setColors({ log: e.target.checked })}
+                      />
+                      Log
+                    </label>
+                    <label className="flex items-center gap-1">
+                      <input type="checkbox" checked={!!colors?.reverse} onChange={e => setColors({ reverse: e.target.checked })} />
+                      Reverse
+                    </label>
+                    {colors && (
+                      <button
+                        className="px-2 py-0.5 rounded-full border border-white/20 bg-white/10 text-white/80 hover:bg-cyan-300/30"
+                        onClick={() => setColorSettings(c => ({ ...c, [scale.id]: undefined }))}
+                      >
+                        Reset
+                      </button>
+                    )}
+                  </div>
+                )}
+              </>
+            );
+          })()}
           {/* Altitude selector: smooth slider with visual indicators */}
           <div className="mb-1 mt-3 flex flex-col items-center w-full">
             <div className="flex items-center gap-3 mb-3 w-full">
               <span className="font-medium text-base">Altitude</span>
               <div className="flex items-center gap-2 px-3 py-1.5 bg-cyan-400/20 rounded-lg border border-cyan-400/30">
                 <div className="w-2 h-2 bg-cyan-400 rounded-full"></div>
-                <span className="text-cyan-100 font-mono text-sm">{levels[lvlIdx]?.label || '10 m'}</span>
+                <span className="text-cyan-100 font-mono text-sm">{formatLevel(levels[lvlIdx]?.label || '10 m', units.level)}</span>
               </div>
             </div>
             
@@ -1464,7 +2671,7 @@ export default function GlobeWindMap() {
                     transform: 'translateX(0)'
                   }}
                 >
-                  <div className="text-white">{levels[altitudeHover]?.label}</div>
+                  <div className="text-white">{levels[altitudeHover] && formatLevel(levels[altitudeHover].label, units.level)}</div>
                   <div className="absolute top-full left-1/2 transform -translate-x-1/2">
                     <div className="w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-gray-600"></div>
                   </div>
@@ -1472,13 +2679,224 @@ export default function GlobeWindMap() {
               )}
             </div>
           </div>
+          {/* Timeline scrubber across forecast valid times */}
+          <div className="mb-1 mt-3 w-full">
+            <div className="flex items-center gap-3 mb-2 w-full">
+              <span className="font-medium text-base">Time</span>
+              <span className="text-cyan-100 font-mono text-xs">{timeLabel}</span>
+            </div>
+            <div className="flex items-center gap-2 w-full">
+              <button
+                aria-label="Previous time step"
+                disabled={validTimes.length < 2}
+                className="w-7 h-7 rounded-full bg-white/10 border border-white/20 text-xs hover:bg-cyan-300/30 disabled:opacity-40"
+                onClick={() => stepTime(-1)}
+              >⏮</button>
+              <button
+                aria-label={playing ? 'Pause' : 'Play'}
+                disabled={validTimes.length < 2}
+                className="w-8 h-8 rounded-full bg-cyan-400/90 text-black text-sm shadow-md disabled:opacity-40"
+                onClick={() => setPlaying(p => !p)}
+              >{playing ? '⏸' : '▶'}</button>
+              <button
+                aria-label="Next time step"
+                disabled={validTimes.length < 2}
+                className="w-7 h-7 rounded-full bg-white/10 border border-white/20 text-xs hover:bg-cyan-300/30 disabled:opacity-40"
+                onClick={() => stepTime(1)}
+              >⏭</button>
+              <input
+                type="range"
+                aria-label="Valid time"
+                min="0"
+                max={Math.max(0, validTimes.length - 1)}
+                step="any"
+                value={timePos}
+                disabled={validTimes.length < 2}
+                onChange={(e) => {
+                  setPlaying(false);
+                  setTimePos(Number(e.target.value));
+                }}
+                className="timeline flex-1 accent-cyan-400"
+              />
+              <span className="text-xs text-white/60 font-mono w-12 text-right">
+                {Math.min(Math.floor(timePos) + 1, validTimes.length)}/{validTimes.length}
+              </span>
+            </div>
+          </div>
+          {/* Figure export: PNG snapshot and WebM recording */}
+          <div className="mt-3 w-full">
+            <div className="flex items-center gap-2 mb-2">
+              <span className="font-medium">Export</span>
+              <input
+                aria-label="Figure title"
+                placeholder="Title (optional)"
+                value={exportTitle}
+                onChange={e => setExportTitle(e.target.value)}
+                className="flex-1 min-w-0 bg-white/10 border border-white/20 rounded px-2 py-0.5 text-xs placeholder:text-white/40"
+              />
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-xs mb-2">
+              <select
+                aria-label="Snapshot resolution"
+                value={exportSize}
+                onChange={e => setExportSize(e.target.value)}
+                className="bg-white/10 border border-white/20 rounded px-2 py-0.5"
+              >
+                {EXPORT_SIZES.map(({ id, label, width, height }) => (
+                  <option key={id} value={id} className="bg-gray-900">{width ? `${label} (${width}×${height})` : label}</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={burnIn.legend} onChange={e => setBurnIn(b => ({ ...b, legend: e.target.checked }))} />
+                Legend
+              </label>
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={burnIn.levelTime} onChange={e => setBurnIn(b => ({ ...b, levelTime: e.target.checked }))} />
+                Level &amp; time
+              </label>
+            </div>
+            <div className="flex flex-wrap items-center gap-1">
+              <button
+                className="px-3 py-1 rounded-full font-semibold text-xs border border-white/20 bg-white/10 text-white/80 hover:bg-cyan-300/30"
+                onClick={saveSnapshot}
+              >
+                Save PNG
+              </button>
+              {recording ? (
+                <button
+                  className="px-3 py-1 rounded-full font-semibold text-xs border border-red-400/60 bg-red-500/80 text-white"
+                  onClick={() => recorderRef.current?.stop()}
+                >
+                  ● Stop recording
+                </button>
+              ) : supportsRecording() && (
+                <>
+                  <button
+                    className="px-3 py-1 rounded-full font-semibold text-xs border border-white/20 bg-white/10 text-white/80 hover:bg-cyan-300/30"
+                    onClick={() => startRecording('view')}
+                  >
+                    Record
+                  </button>
+                  <button
+                    disabled={validTimes.length < 2}
+                    className="px-3 py-1 rounded-full font-semibold text-xs border border-white/20 bg-white/10 text-white/80 hover:bg-cyan-300/30 disabled:opacity-40"
+                    onClick={() => startRecording('timeline')}
+                  >
+                    Record timeline
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
           <div className="text-xs text-gray-300 mt-2">
-            Press <b>Arrow Keys</b> to change altitude • <b>Ctrl+K</b> or <b>×</b> to close
+            Press <b>Arrow Keys</b> to change altitude • <b>P</b> to probe • <b>Space</b> to play • <b>,</b>/<b>.</b> to step time • <b>/</b> to search • <b>R</b> to reset the view • <b>N</b>/<b>S</b> to fly to a pole • <b>T</b> to toggle this panel • <b>Ctrl+K</b> or <b>×</b> to close
           </div>
         </div>
       )}
 
       <div ref={wrap} className="fixed inset-0 bg-black" />
+
+      {/* Swipe divider: the run shown on its left, the compared run on its right */}
+      {comparison === 'swipe' && run && compareRun && (() => {
+        const moveSwipe = (pos: number) => {
+          swipeRef.current = Math.max(0, Math.min(1, pos));
+          setSwipePos(swipeRef.current);
+        };
+        const runLabel = (r: typeof run) => `${r.model} ${formatValidTime(r.refTime)}`;
+        return (
+          <div
+            role="slider"
+            tabIndex={0}
+            aria-label="Swipe between compared runs"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(swipePos * 100)}
+            className="fixed top-0 bottom-0 z-10 w-4 -ml-2 flex justify-center cursor-ew-resize touch-none focus:outline-none"
+            style={{ left: `${swipePos * 100}%` }}
+            onPointerDown={e => e.currentTarget.setPointerCapture(e.pointerId)}
+            onPointerMove={e => {
+              if (e.currentTarget.hasPointerCapture(e.pointerId)) moveSwipe(e.clientX / window.innerWidth);
+            }}
+            onKeyDown={e => {
+              if (e.key === 'ArrowLeft') moveSwipe(swipePos - 0.05);
+              if (e.key === 'ArrowRight') moveSwipe(swipePos + 0.05);
+            }}
+          >
+            <div className="w-0.5 h-full bg-white/80 shadow-lg" />
+            <span className="absolute top-24 right-5 whitespace-nowrap bg-black/70 rounded px-2 py-0.5 border border-white/20 text-white text-xs">
+              A · {runLabel(run)}
+            </span>
+            <span className="absolute top-24 left-5 whitespace-nowrap bg-black/70 rounded px-2 py-0.5 border border-white/20 text-white text-xs">
+              B · {runLabel(compareRun)}
+            </span>
+          </div>
+        );
+      })()}
+
+      <PlaceSearch onSelect={selectPlace} inputRef={searchInputRef} />
+
+      {/* Searched place marker: positioned every frame by the render loop */}
+      <div ref={placeMarkerRef} className="fixed top-0 left-0 z-10 pointer-events-none" style={{ display: 'none' }}>
+        {place && (
+          <>
+            <div className="absolute w-3 h-3 -left-1.5 -top-3 rotate-45 rounded-tl-full rounded-tr-full rounded-bl-full bg-amber-400 border-2 border-white shadow-lg" />
+            <div className="absolute left-3 -top-6 pointer-events-auto flex items-center gap-2 bg-black/80 rounded px-2 py-0.5 border border-white/20 text-white text-xs whitespace-nowrap shadow-lg">
+              {place.name}
+              <button aria-label="Remove place marker" className="text-white/60 hover:text-white" onClick={() => setPlace(null)}>×</button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Probe marker: positioned every frame by the render loop */}
+      <div ref={probeMarkerRef} className="fixed top-0 left-0 z-10 pointer-events-none" style={{ display: 'none' }}>
+        {probeReading && (
+          <>
+            <div className="absolute w-3 h-3 -left-1.5 -top-1.5 rounded-full bg-cyan-400 border-2 border-white shadow-lg" />
+            <div className="absolute left-3 top-3 pointer-events-auto bg-black/80 backdrop-blur-lg rounded-lg px-3 py-2 border border-white/20 text-white text-xs font-mono shadow-lg whitespace-nowrap">
+              <div className="flex items-center justify-between gap-3 mb-1">
+                <span className="text-cyan-100">{formatLonLat(probeReading.lon, probeReading.lat)} · {formatLevel(probeReading.level, units.level)}</span>
+                <button aria-label="Remove probe" className="text-white/60 hover:text-white" onClick={clearProbe}>×</button>
+              </div>
+              <button
+                className="absolute right-2 bottom-2 px-2 py-0.5 rounded-full text-[10px] bg-white/10 border border-white/20 hover:bg-cyan-300/30"
+                onClick={() => setSoundingOpen(o => !o)}
+              >
+                {soundingOpen ? 'Hide profile' : 'Profile'}
+              </button>
+              {Number.isFinite(probeReading.speed) ? (
+                <>
+                  <div>Wind {formatSpeed(probeReading.speed, units.speed)} from {Math.round(probeReading.direction)}° {compassPoint(probeReading.direction)}</div>
+                  {/* Components in m/s when speeds are Beaufort forces */}
+                  <div className="text-white/60">
+                    u {formatSpeed(probeReading.u, units.speed === 'bft' ? 'ms' : units.speed)} · v {formatSpeed(probeReading.v, units.speed === 'bft' ? 'ms' : units.speed)}
+                  </div>
+                </>
+              ) : (
+                <div className="text-white/60">No wind data</div>
+              )}
+              {Number.isFinite(probeReading.tempK) ? (
+                <div>
+                  Temp {formatTemperature(probeReading.tempK, units.temperature)}
+                </div>
+              ) : (
+                <div className="text-white/60">No temperature data</div>
+              )}
+              <div className="h-5" />
+            </div>
+          </>
+        )}
+      </div>
+
+      {soundingOpen && probeReading && (
+        <SoundingPanel
+          title={`${formatLonLat(probeReading.lon, probeReading.lat)} · ${timeLabel}`}
+          southern={probeReading.lat < 0}
+          points={soundingPoints}
+          units={units}
+          onClose={() => setSoundingOpen(false)}
+        />
+      )}
       <style jsx global>{`
         .animate-fadein { animation: fadein 0.3s cubic-bezier(.4,0,.2,1); }
         @keyframes fadein { from { opacity: 0; transform: translateY(30px) scale(0.98); } to { opacity: 1; transform: none; } }
@@ -1503,6 +2921,21 @@ export default function GlobeWindMap() {
         input[type="range"]:focus {
           outline: none;
         }
+
+        /* The timeline scrubber keeps a visible thumb */
+        input[type="range"].timeline::-webkit-slider-thumb {
+          width: 12px;
+          height: 12px;
+          border-radius: 9999px;
+          background: #22d3ee;
+        }
+
+        input[type="range"].timeline::-moz-range-thumb {
+          width: 12px;
+          height: 12px;
+          border-radius: 9999px;
+          background: #22d3ee;
+        }
       `}</style>
     </>
   );
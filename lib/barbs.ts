@@ -0,0 +1,64 @@
+/**
+ * WMO wind barb geometry in a unit frame: the staff runs from the station at
+ * (0, 0) to its tip at (0, 1), pointing toward where the wind blows from.
+ * Feathers and pennants hang off the +x side; mirror x for the southern hemisphere.
+ */
+
+export interface BarbGeometry {
+  calm: boolean;
+  lines: [number, number, number, number][];
+  pennants: [number, number][][];
+}
+
+const FEATHER_LENGTH = 0.4;
+const FEATHER_RAKE = 0.15;
+const FEATHER_SPACING = 0.12;
+const PENNANT_BASE = 0.15;
+
+export function barbGeometry(speedKt: number): BarbGeometry {
+  const rounded = Math.round(speedKt / 5) * 5;
+  if (!Number.isFinite(rounded) || rounded < 5) {
+    return { calm: true, lines: [], pennants: [] };
+  }
+
+  let rest = rounded;
+  const n50 = Math.floor(rest / 50);
+  rest -= n50 * 50;
+  const n10 = Math.floor(rest / 10);
+  rest -= n10 * 10;
+  const n5 = rest >= 5 ? 1 : 0;
+
+  const lines: BarbGeometry["lines"] = [[0, 0, 0, 1]];
+  const pennants: BarbGeometry["pennants"] = [];
+  let y = 1;
+
+  for (let i = 0; i < n50; i++) {
+    pennants.push([[0, y], [FEATHER_LENGTH, y + FEATHER_RAKE * 0.5], [0, y - PENNANT_BASE]]);
+    y -= PENNANT_BASE + FEATHER_SPACING * 0.5;
+  }
+  for (let i = 0; i < n10; i++) {
+    lines.push([0, y, FEATHER_LENGTH, y + FEATHER_RAKE]);
+    y -= FEATHER_SPACING;
+  }
+  if (n5) {
+    // A lone half feather sits one step in from the tip so it reads as 5 kt
+    if (n50 === 0 && n10 === 0) y -= FEATHER_SPACING;
+    lines.push([0, y, FEATHER_LENGTH / 2, y + FEATHER_RAKE / 2]);
+  }
+
+  return { calm: false, lines, pennants };
+}
+
+/**
+ * Screen-space basis for a barb: `staff` points toward the wind origin for a
+ * meteorological direction in degrees, `feather` is perpendicular to it.
+ * Uses a y-down screen frame.
+ */
+export function barbBasis(directionDeg: number, southern = false) {
+  const d = directionDeg * Math.PI / 180;
+  const side = southern ? -1 : 1;
+  return {
+    staff: [Math.sin(d), -Math.cos(d)] as [number, number],
+    feather: [Math.cos(d) * side, Math.sin(d) * side] as [number, number],
+  };
+}
@@ -0,0 +1,264 @@
+import type { RGBA } from "./scalarOverlay";
+
+/**
+ * Colour scales for the scalar overlays. Each maps a value (or a position
+ * t in [0, 1]) to 0-255 RGBA. COLORMAPS holds the presets users can pick
+ * instead of an overlay's own scale, and the scale helpers below place values
+ * along a linear or logarithmic range.
+ */
+
+/**
+ * Nullschool Earth exact wind speed color mapping - uses extendedSinebowColor algorithm
+ * Matches earth.nullschool.net wind visualization exactly
+ */
+const TAU = 2 * Math.PI;
+const BOUNDARY = 0.45;
+
+/**
+ * Produces a color in a rainbow-like trefoil color space (sinebow)
+ * This is the exact algorithm used by Nullschool Earth
+ */
+function sinebowColor(hue: number, alpha: number): [number, number, number, number] {
+  // Map hue [0, 1] to radians [0, 5/6τ]. Don't allow a full rotation because that keeps hue == 0 and
+  // hue == 1 from mapping to the same color.
+  let rad = hue * TAU * 5/6;
+  rad *= 0.75;  // increase frequency to 2/3 cycle per rad
+
+  const s = Math.sin(rad);
+  const c = Math.cos(rad);
+  const r = Math.floor(Math.max(0, -c) * 255);
+  const g = Math.floor(Math.max(s, 0) * 255);
+  const b = Math.floor(Math.max(c, 0, -s) * 255);
+  return [r, g, b, alpha];
+}
+
+/**
+ * Color interpolator between two colors
+ */
+function colorInterpolator(start: [number, number, number], end: [number, number, number]) {
+  const r = start[0], g = start[1], b = start[2];
+  const deltaR = end[0] - r, deltaG = end[1] - g, deltaB = end[2] - b;
+  return function(i: number, a: number): [number, number, number, number] {
+    return [
+      Math.floor(r + i * deltaR), 
+      Math.floor(g + i * deltaG), 
+      Math.floor(b + i * deltaB), 
+      a
+    ];
+  };
+}
+
+/**
+ * Interpolates a sinebow color where 0 <= i <= BOUNDARY, then fades to white where BOUNDARY < i <= 1.
+ * This is the exact extendedSinebowColor function from Nullschool Earth
+ */
+function extendedSinebowColor(i: number, alpha: number): [number, number, number, number] {
+  const fadeToWhite = colorInterpolator(sinebowColor(1.0, 0).slice(0, 3) as [number, number, number], [255, 255, 255]);
+  
+  return i <= BOUNDARY ?
+    sinebowColor(i / BOUNDARY, alpha) :
+    fadeToWhite((i - BOUNDARY) / (1 - BOUNDARY), alpha);
+}
+
+/**
+ * Nullschool's sinebow fading to white, for t in [0, 1] (0..100 m/s on the wind overlay)
+ */
+export const sinebowColorScale = (t: number, alpha: number = 1): RGBA => {
+  if (!Number.isFinite(t)) return [0, 0, 0, 0];
+  return extendedSinebowColor(Math.max(0, Math.min(1, t)), Math.floor(alpha * 255));
+};
+
+type Stop = [t: number, rgb: [number, number, number], alpha?: number];
+
+/**
+ * Piecewise-linear colour ramp through (t, rgb, alpha factor) stops
+ */
+export const gradient = (stops: Stop[]) => (t: number, alpha: number = 1): RGBA => {
+  const x = Math.max(0, Math.min(1, t));
+  let i = 1;
+  while (i < stops.length - 1 && x > stops[i][0]) i++;
+  const [t0, c0, a0 = 1] = stops[i - 1];
+  const [t1, c1, a1 = 1] = stops[i];
+  const f = t1 > t0 ? Math.max(0, Math.min(1, (x - t0) / (t1 - t0))) : 0;
+  const mix = (a: number, b: number) => a + (b - a) * f;
+  return [
+    Math.round(mix(c0[0], c1[0])),
+    Math.round(mix(c0[1], c1[1])),
+    Math.round(mix(c0[2], c1[2])),
+    Math.floor(alpha * mix(a0, a1) * 255),
+  ];
+};
+
+// Low pressure blue, high pressure red
+export const pressureColorScale = gradient([
+  [0, [60, 30, 120]],
+  [0.25, [50, 110, 210]],
+  [0.45, [120, 200, 230]],
+  [0.55, [235, 235, 220]],
+  [0.75, [245, 170, 70]],
+  [1, [190, 40, 40]],
+]);
+
+// Dry brown through neutral to moist green and blue
+export const humidityColorScale = gradient([
+  [0, [140, 90, 40]],
+  [0.3, [210, 180, 120]],
+  [0.55, [200, 220, 200]],
+  [0.8, [60, 170, 110]],
+  [1, [30, 90, 180]],
+]);
+
+export const precipitableWaterColorScale = gradient([
+  [0, [230, 220, 170]],
+  [0.2, [150, 200, 120]],
+  [0.45, [50, 160, 170]],
+  [0.7, [40, 80, 190]],
+  [1, [120, 40, 160]],
+]);
+
+// Transparent where it is dry, so only rain areas are coloured
+export const precipitationColorScale = gradient([
+  [0, [120, 180, 255], 0],
+  [0.02, [120, 180, 255], 0.6],
+  [0.15, [40, 100, 230]],
+  [0.3, [40, 190, 80]],
+  [0.5, [250, 230, 40]],
+  [0.75, [240, 80, 30]],
+  [1, [200, 40, 200]],
+]);
+
+// Clear sky transparent, overcast opaque white
+export const cloudColorScale = gradient([
+  [0, [255, 255, 255], 0],
+  [0.1, [200, 200, 210], 0.1],
+  [1, [255, 255, 255], 1],
+]);
+
+// Diverging blue-white-red; near-zero values fade out so only signals stand out
+export const divergingColorScale = gradient([
+  [0, [40, 60, 160]],
+  [0.25, [70, 140, 220]],
+  [0.5, [245, 245, 245], 0.1],
+  [0.75, [235, 120, 80]],
+  [1, [170, 20, 40]],
+]);
+
+// Nullschool-style temperature ramp, deep purple to dark red (-80..50 °C on the overlay)
+export const temperatureColorScale = gradient([
+  [0, [80, 20, 120]],
+  [0.1, [110, 60, 180]],
+  [0.25, [50, 120, 220]],
+  [0.4, [80, 180, 240]],
+  [0.5, [100, 220, 240]],
+  [0.6, [160, 240, 180]],
+  [0.7, [220, 250, 120]],
+  [0.78, [255, 240, 60]],
+  [0.86, [255, 160, 20]],
+  [0.93, [250, 80, 15]],
+  [0.97, [220, 30, 10]],
+  [1, [180, 10, 5]],
+]);
+
+// Evenly spaced hex colours as a ramp
+const hexRamp = (colors: string[]) =>
+  gradient(colors.map((hex, i): Stop => [
+    i / (colors.length - 1),
+    [parseInt(hex.slice(0, 2), 16), parseInt(hex.slice(2, 4), 16), parseInt(hex.slice(4, 6), 16)],
+  ]));
+
+export interface ColormapPreset {
+  id: string;
+  name: string;
+  // Readable with the common forms of colour vision deficiency
+  colourBlindSafe: boolean;
+  ramp: (t: number, alpha?: number) => RGBA;
+}
+
+// Sampled at ten (eleven for sunset) even steps from the published maps
+export const COLORMAPS: ColormapPreset[] = [
+  {
+    id: "viridis",
+    name: "Viridis",
+    colourBlindSafe: true,
+    ramp: hexRamp(["440154", "482878", "3e4a89", "31688e", "26828e", "1f9e89", "35b779", "6dcd59", "b4de2c", "fde725"]),
+  },
+  {
+    id: "magma",
+    name: "Magma",
+    colourBlindSafe: true,
+    ramp: hexRamp(["000004", "180f3d", "440f76", "721f81", "9e2f7f", "cd4071", "f1605d", "fd9668", "feca8d", "fcfdbf"]),
+  },
+  {
+    id: "cividis",
+    name: "Cividis",
+    colourBlindSafe: true,
+    ramp: hexRamp(["00224e", "123570", "3b496c", "575d6d", "707173", "8a8678", "a59c74", "c3b369", "e1cc55", "fee838"]),
+  },
+  {
+    id: "turbo",
+    name: "Turbo",
+    colourBlindSafe: false,
+    ramp: hexRamp(["30123b", "4662d7", "36aaf9", "1ae4b6", "72fe5e", "c8ef34", "faba39", "f66b19", "cb2a04", "7a0403"]),
+  },
+  {
+    id: "sinebow",
+    name: "Sinebow",
+    colourBlindSafe: false,
+    ramp: sinebowColorScale,
+  },
+  // Paul Tol's colour-blind safe schemes: diverging sunset and sequential YlOrBr
+  {
+    id: "sunset",
+    name: "Sunset (diverging)",
+    colourBlindSafe: true,
+    ramp: hexRamp(["364b9a", "4a7bb7", "6ea6cd", "98cae1", "c2e4ef", "eaeccc", "feda8b", "fdb366", "f67e4b", "dd3d2d", "a50026"]),
+  },
+  {
+    id: "ylorbr",
+    name: "YlOrBr",
+    colourBlindSafe: true,
+    ramp: hexRamp(["ffffe5", "fff7bc", "fee391", "fec44f", "fb9a29", "ec7014", "cc4c02", "993404", "662506"]),
+  },
+];
+
+export const colormapById = (id: string | undefined) => COLORMAPS.find(c => c.id === id);
+
+// Position of a value across min..max, linear or logarithmic (min > 0), clamped to [0, 1]
+export const scalePosition = (value: number, min: number, max: number, log = false) => {
+  const t = log
+    ? Math.log(Math.max(value, min) / min) / Math.log(max / min)
+    : (value - min) / (max - min);
+  return Math.max(0, Math.min(1, t));
+};
+
+// Value at position t in [0, 1]; inverse of scalePosition
+export const scaleValue = (t: number, min: number, max: number, log = false) =>
+  log ? min * Math.pow(max / min, t) : min + t * (max - min);
+
+/**
+ * Round tick values for a range: about five 1/2/5 steps when linear, powers of
+ * ten (with 2 and 5 multiples for short ranges) when logarithmic
+ */
+export function scaleTicks(min: number, max: number, log = false): number[] {
+  if (!(max > min)) return [min];
+  if (log) {
+    const decades = Math.log10(max / min);
+    const multiples = decades < 2 ? [1, 2, 5] : [1];
+    const ticks: number[] = [];
+    for (let e = Math.floor(Math.log10(min)); e <= Math.ceil(Math.log10(max)); e++) {
+      for (const m of multiples) {
+        const v = m * Math.pow(10, e);
+        if (v >= min * 0.999 && v <= max * 1.001) ticks.push(Number(v.toPrecision(6)));
+      }
+    }
+    return ticks.length ? ticks : [min, max];
+  }
+  const raw = (max - min) / 5;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= raw * 0.7) ?? 10 * magnitude;
+  const ticks: number[] = [];
+  for (let v = Math.ceil(min / step) * step; v <= max + step * 1e-9; v += step) {
+    ticks.push(Number(v.toPrecision(6)));
+  }
+  return ticks;
+}
@@ -0,0 +1,61 @@
+import { type GridMeta, gridPointLonLat, sameGrid, sampleGrid } from "./grid";
+
+/**
+ * Fields compared between model runs and across ensemble members. Runs on other
+ * grids are resampled bilinearly onto the grid of the run shown; points outside
+ * either grid or with missing data are NaN.
+ */
+
+// A field on another grid sampled at every point of `target`; the same array when the grids match
+export function resampleField(target: GridMeta, meta: GridMeta, values: Float32Array) {
+  if (sameGrid(target, meta)) return values;
+  const out = new Float32Array(target.nx * target.ny);
+  for (let j = 0; j < target.ny; j++) {
+    for (let i = 0; i < target.nx; i++) {
+      const [lon, lat] = gridPointLonLat(target, i, j);
+      out[j * target.nx + i] = sampleGrid(meta, values, lon, lat);
+    }
+  }
+  return out;
+}
+
+// A − B point by point, for fields on the same grid
+export function differenceField(a: Float32Array, b: Float32Array) {
+  const out = new Float32Array(a.length);
+  for (let k = 0; k < a.length; k++) out[k] = a[k] - b[k];
+  return out;
+}
+
+export interface EnsembleStats {
+  // Adds a member's field; missing values are skipped point by point
+  add(values: Float32Array): void;
+  mean(): Float32Array;
+  // Standard deviation across the members added; NaN where fewer than two had data
+  spread(): Float32Array;
+}
+
+// Running mean and spread of one field over ensemble members (Welford's method)
+export function createEnsembleStats(size: number): EnsembleStats {
+  const count = new Uint16Array(size);
+  const mean = new Float32Array(size);
+  const m2 = new Float32Array(size);
+
+  return {
+    add(values) {
+      for (let k = 0; k < size; k++) {
+        const x = values[k];
+        if (!Number.isFinite(x)) continue;
+        const n = ++count[k];
+        const delta = x - mean[k];
+        mean[k] += delta / n;
+        m2[k] += delta * (x - mean[k]);
+      }
+    },
+    mean() {
+      return mean.map((m, k) => (count[k] ? m : NaN));
+    },
+    spread() {
+      return m2.map((m, k) => (count[k] > 1 ? Math.sqrt(m / count[k]) : NaN));
+    },
+  };
+}
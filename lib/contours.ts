@@ -0,0 +1,143 @@
+import { type GridMeta, wrapsLongitude } from "./grid";
+import { fromGridCoords } from "./gridProjection";
+
+/**
+ * Contour lines of a scalar grid field by marching squares, in lon/lat.
+ * Cells with missing corners are skipped; saddles are resolved with the cell
+ * centre value. Global grids are closed across the last/first column.
+ */
+
+export interface ContourSet {
+  value: number;
+  // Flat list of segments: lon0, lat0, lon1, lat1, ...
+  segments: number[];
+}
+
+export interface ContourLabel {
+  value: number;
+  lon: number;
+  lat: number;
+}
+
+export interface ContourOptions {
+  interval: number;
+  // Explicit contour values, used instead of `interval`
+  levels?: number[];
+  // Contours are drawn on value * scale + offset (display units)
+  scale?: number;
+  offset?: number;
+  // Use every stride-th grid point, to keep fine grids cheap
+  stride?: number;
+}
+
+export function contourLines(meta: GridMeta, A: Float32Array, options: ContourOptions): ContourSet[] {
+  const { nx, ny, lo1, la1, dx, dy } = meta;
+  const { interval, levels, scale = 1, offset = 0, stride = 1 } = options;
+  if (!levels && !(interval > 0)) return [];
+
+  const wraps = wrapsLongitude(meta);
+  const cols: number[] = [];
+  for (let i = 0; i < nx; i += stride) cols.push(i);
+  // Closing column back to the first one on global grids
+  if (wraps) cols.push(nx);
+  const rows: number[] = [];
+  for (let j = 0; j < ny; j += stride) rows.push(j);
+
+  const value = (j: number, i: number) => A[j * nx + (i % nx)] * scale + offset;
+  // Segments are traced in grid coordinates and stored as lon/lat
+  const { projection } = meta;
+  const toLonLat = (p: number[]) => (projection ? fromGridCoords(projection, p[0], p[1]) : p);
+
+  let min = Infinity, max = -Infinity;
+  for (const j of rows) {
+    for (const i of cols) {
+      const v = value(j, i);
+      if (Number.isFinite(v)) {
+        min = Math.min(min, v);
+        max = Math.max(max, v);
+      }
+    }
+  }
+  if (!Number.isFinite(min)) return [];
+
+  const sets: ContourSet[] = [];
+  if (levels) {
+    for (const level of [...levels].sort((p, q) => p - q)) {
+      if (level >= min && level <= max) sets.push({ value: level, segments: [] });
+    }
+  } else {
+    const first = Math.ceil(min / interval);
+    const last = Math.floor(max / interval);
+    for (let k = first; k <= last; k++) sets.push({ value: k * interval, segments: [] });
+  }
+  if (!sets.length) return [];
+
+  for (let r = 0; r < rows.length - 1; r++) {
+    const j0 = rows[r], j1 = rows[r + 1];
+    const latTop = la1 - j0 * dy, latBottom = la1 - j1 * dy;
+    for (let c = 0; c < cols.length - 1; c++) {
+      const i0 = cols[c], i1 = cols[c + 1];
+      const a = value(j0, i0), b = value(j0, i1), cc = value(j1, i1), d = value(j1, i0);
+      if (!(Number.isFinite(a) && Number.isFinite(b) && Number.isFinite(cc) && Number.isFinite(d))) continue;
+      const lonLeft = lo1 + i0 * dx, lonRight = lo1 + i1 * dx;
+      const lo = Math.min(a, b, cc, d), hi = Math.max(a, b, cc, d);
+
+      // Sets are in ascending order of value
+      for (const set of sets) {
+        const level = set.value;
+        if (level < lo) continue;
+        if (level > hi) break;
+        const index = (a >= level ? 8 : 0) | (b >= level ? 4 : 0) | (cc >= level ? 2 : 0) | (d >= level ? 1 : 0);
+        if (index === 0 || index === 15) continue;
+
+        const f = (p: number, q: number) => (p === q ? 0.5 : (level - p) / (q - p));
+        const top = () => [lonLeft + (lonRight - lonLeft) * f(a, b), latTop];
+        const right = () => [lonRight, latTop + (latBottom - latTop) * f(b, cc)];
+        const bottom = () => [lonLeft + (lonRight - lonLeft) * f(d, cc), latBottom];
+        const left = () => [lonLeft, latTop + (latBottom - latTop) * f(a, d)];
+        const add = (p: number[], q: number[]) => set.segments.push(...toLonLat(p), ...toLonLat(q));
+        const centreAbove = (a + b + cc + d) / 4 >= level;
+
+        switch (index) {
+          case 1: case 14: add(left(), bottom()); break;
+          case 2: case 13: add(bottom(), right()); break;
+          case 3: case 12: add(left(), right()); break;
+          case 4: case 11: add(top(), right()); break;
+          case 6: case 9: add(top(), bottom()); break;
+          case 7: case 8: add(left(), top()); break;
+          case 5:
+            if (centreAbove) { add(left(), top()); add(bottom(), right()); }
+            else { add(top(), right()); add(left(), bottom()); }
+            break;
+          case 10:
+            if (centreAbove) { add(top(), right()); add(left(), bottom()); }
+            else { add(left(), top()); add(bottom(), right()); }
+            break;
+        }
+      }
+    }
+  }
+  return sets.filter(s => s.segments.length);
+}
+
+/**
+ * Label positions along contour lines, at most one per `spacing`-degree box
+ * so labels don't pile up where lines are dense
+ */
+export function contourLabels(sets: ContourSet[], spacing: number, limit = 300): ContourLabel[] {
+  const taken = new Set<string>();
+  const labels: ContourLabel[] = [];
+  for (const { value, segments } of sets) {
+    for (let s = 0; s < segments.length && labels.length < limit; s += 4) {
+      const lon = (segments[s] + segments[s + 2]) / 2;
+      const lat = (segments[s + 1] + segments[s + 3]) / 2;
+      // Longitude boxes widen towards the poles
+      const lonSpacing = spacing / Math.max(0.2, Math.cos(lat * Math.PI / 180));
+      const key = `${Math.floor(lon / lonSpacing)}:${Math.floor(lat / spacing)}`;
+      if (taken.has(key)) continue;
+      taken.add(key);
+      labels.push({ value, lon, lat });
+    }
+  }
+  return labels;
+}
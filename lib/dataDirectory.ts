@@ -0,0 +1,79 @@
+import { open, readdir, stat } from "node:fs/promises";
+import { join, relative, sep } from "node:path";
+import { type ByteSource, type IngestRecord, type ScanResult, bufferedSource, scanFile } from "./ingest";
+
+/**
+ * Server side of the fields API: the GRIB2 and NetCDF files in a local data
+ * directory (SKYPLOT_DATA_DIR, ./data by default), scanned once and again
+ * whenever a file is added, replaced or removed, so new model runs can be
+ * dropped in while the server runs. Files in a subdirectory take its name as
+ * their model (data/gfs/..., data/icon-eu/...); others use the centre named in
+ * the file.
+ */
+
+export const DATA_DIR = process.env.SKYPLOT_DATA_DIR ?? join(process.cwd(), "data");
+
+const DATA_FILE = /\.(grib2?|grb2?|nc|nc4|cdf)$/i;
+
+// Opens the file for each read, so no handle outlives a request
+const fileSource = (path: string, size: number): ByteSource => ({
+  size,
+  async read(offset, length) {
+    const handle = await open(path, "r");
+    try {
+      const bytes = new Uint8Array(length);
+      const { bytesRead } = await handle.read(bytes, 0, length, offset);
+      if (bytesRead < length) throw new Error(`Unexpected end of ${path}`);
+      return bytes;
+    } finally {
+      await handle.close();
+    }
+  },
+});
+
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+  const nested = await Promise.all(entries.map(e => {
+    const path = join(dir, e.name);
+    if (e.isDirectory()) return listFiles(path);
+    return e.isFile() && DATA_FILE.test(e.name) ? [path] : [];
+  }));
+  return nested.flat();
+}
+
+const scanned = new Map<string, { version: string; scan: Promise<ScanResult> }>();
+
+/**
+ * Records of every readable file in the data directory. Files that fail to
+ * scan are logged and left out.
+ */
+export async function loadDataRecords(dir = DATA_DIR): Promise<IngestRecord[]> {
+  const files = await listFiles(dir);
+  for (const path of scanned.keys()) {
+    if (!files.includes(path)) scanned.delete(path);
+  }
+  const results: ScanResult[] = [];
+  // One file at a time: scanning reads every message header
+  for (const path of files) {
+    const info = await stat(path).catch(() => null);
+    if (!info) continue;
+    const version = `${info.size}:${info.mtimeMs}`;
+    let entry = scanned.get(path);
+    if (entry?.version !== version) {
+      const name = relative(dir, path);
+      const folder = name.split(sep).length > 1 ? name.split(sep)[0] : undefined;
+      const scan = scanFile(bufferedSource(fileSource(path, info.size))).then(result => {
+        result.warnings.forEach(w => console.warn(`${name}: ${w}`));
+        if (folder) result.records.forEach(r => (r.model = folder));
+        return result;
+      }, error => {
+        console.warn(`${name}: ${error instanceof Error ? error.message : error}`);
+        return { records: [], warnings: [] };
+      });
+      entry = { version, scan };
+      scanned.set(path, entry);
+    }
+    results.push(await entry.scan);
+  }
+  return results.flatMap(r => r.records);
+}
@@ -0,0 +1,407 @@
+import { decodeFieldFile, isFieldFile } from "./fieldFormat";
+import { type GridMeta, gridMetaOf, wrapsLongitude } from "./grid";
+import { toEarthRelative } from "./gridProjection";
+
+/**
+ * Data-source layer: the globe asks a DataSource for variables, levels, valid
+ * times and fields, and never deals with file names or record layout itself.
+ */
+
+// Header of a grib2json-style record, as found in the static JSON files
+export interface GribHeader extends GridMeta {
+  discipline?: number;
+  parameterCategory: number;
+  parameterNumber: number;
+  surface1Type: number;
+  surface1Value: number;
+  refTime?: string;
+  forecastTime?: number;
+  // Unit of the values, as grib2json writes it; the GRIB parameter's (K, Pa, %) when unset
+  parameterUnit?: string;
+}
+
+export interface GribRecord {
+  header: GribHeader;
+  data: (number | null)[];
+}
+
+export type VariableId = "wind" | "temperature" | "mslp" | "humidity" | "pwat" | "precipitation" | "cloud";
+
+// A variable is one or more GRIB parameters, identified by category/number (discipline 0)
+export interface VariableInfo {
+  id: VariableId;
+  name: string;
+  units: string;
+  components: { key: string; parameterCategory: number; parameterNumber: number }[];
+}
+
+export interface LevelInfo {
+  id: string;
+  label: string;
+  surface1Type: number;
+  surface1Value: number;
+}
+
+export interface Field {
+  meta: GridMeta;
+  level: LevelInfo;
+  // Keyed by VariableInfo component key, e.g. { U, V } or { T }; sources may add derived
+  // components such as wind speed S
+  components: Record<string, Float32Array>;
+}
+
+export interface DataSource {
+  listVariables(): Promise<VariableInfo[]>;
+  listLevels(variable: VariableId): Promise<LevelInfo[]>;
+  // ISO 8601 valid times; empty string for an undated single time step
+  listTimes(variable: VariableId): Promise<string[]>;
+  fetchField(variable: VariableId, levelId: string, timeIdx: number): Promise<Field>;
+}
+
+export const WIND: VariableInfo = {
+  id: "wind",
+  name: "Wind",
+  units: "m/s",
+  components: [
+    { key: "U", parameterCategory: 2, parameterNumber: 2 },
+    { key: "V", parameterCategory: 2, parameterNumber: 3 },
+  ],
+};
+
+export const TEMPERATURE: VariableInfo = {
+  id: "temperature",
+  name: "Temperature",
+  units: "K",
+  components: [{ key: "T", parameterCategory: 0, parameterNumber: 0 }],
+};
+
+export const MSLP: VariableInfo = {
+  id: "mslp",
+  name: "Mean sea level pressure",
+  units: "Pa",
+  components: [{ key: "P", parameterCategory: 3, parameterNumber: 1 }],
+};
+
+export const HUMIDITY: VariableInfo = {
+  id: "humidity",
+  name: "Relative humidity",
+  units: "%",
+  components: [{ key: "RH", parameterCategory: 1, parameterNumber: 1 }],
+};
+
+export const PWAT: VariableInfo = {
+  id: "pwat",
+  name: "Total precipitable water",
+  units: "kg/m²",
+  components: [{ key: "PWAT", parameterCategory: 1, parameterNumber: 3 }],
+};
+
+export const PRECIPITATION: VariableInfo = {
+  id: "precipitation",
+  name: "Precipitation rate",
+  units: "kg/m²/s",
+  components: [{ key: "PRATE", parameterCategory: 1, parameterNumber: 7 }],
+};
+
+export const CLOUD: VariableInfo = {
+  id: "cloud",
+  name: "Total cloud cover",
+  units: "%",
+  components: [{ key: "TCDC", parameterCategory: 6, parameterNumber: 1 }],
+};
+
+export const VARIABLES = [WIND, TEMPERATURE, MSLP, HUMIDITY, PWAT, PRECIPITATION, CLOUD];
+
+// GRIB surface types: 1 ground, 10/200 entire atmosphere, 101 mean sea level,
+// 103 height above ground; everything else is labelled as pressure
+export const levelLabel = ({ surface1Type, surface1Value }: Pick<GribHeader, "surface1Type" | "surface1Value">) => {
+  switch (surface1Type) {
+    case 1: return "Surface";
+    case 10:
+    case 200: return "Entire atmosphere";
+    case 101: return "Mean sea level";
+    case 103: return `${surface1Value} m`;
+    default: return `${surface1Value} hPa`;
+  }
+};
+
+export const levelInfo = (header: GribHeader): LevelInfo => ({
+  id: `${header.surface1Type}:${header.surface1Value}`,
+  label: levelLabel(header),
+  surface1Type: header.surface1Type,
+  surface1Value: header.surface1Value,
+});
+
+// ---- Fields API catalogue (app/api/fields) ---- //
+
+export interface CatalogueVariable {
+  id: VariableId;
+  name: string;
+  units: string;
+  // Surface and height levels first, then pressure levels from the ground up
+  levels: LevelInfo[];
+  // ISO 8601, ascending
+  times: string[];
+  grid: GridMeta;
+}
+
+// One model run: every variable with at least one complete field
+export interface CatalogueRun {
+  model: string;
+  refTime: string;
+  variables: CatalogueVariable[];
+  // Ensemble members, ascending, when the run has more than one
+  members?: number[];
+}
+
+export interface DataCatalogue {
+  // Newest first
+  runs: CatalogueRun[];
+}
+
+// URL-safe names of a level and a valid time, e.g. "100-850" and "20250803T0600Z"
+export const levelSlug = (level: Pick<LevelInfo, "surface1Type" | "surface1Value">) => `${level.surface1Type}-${level.surface1Value}`;
+export const timeSlug = (validTime: string) => `${validTime.slice(0, 16).replace(/[-:]/g, "")}Z`;
+
+// Query selecting a run in the fields API, e.g. "?model=gfs&run=20250803T0000Z",
+// and one of its ensemble members ("&member=3"); the first member when unset
+export const runQuery = ({ model, refTime, member }: Pick<CatalogueRun, "model" | "refTime"> & { member?: number }) =>
+  `?${new URLSearchParams({ model, run: timeSlug(refTime), ...(member !== undefined ? { member: String(member) } : {}) })}`;
+
+export async function loadCatalogue(fieldsApi: string): Promise<DataCatalogue> {
+  const r = await fetch(fieldsApi);
+  if (!r.ok) throw new Error(`Catalogue: HTTP ${r.status}`);
+  return r.json();
+}
+
+/**
+ * The newest run with global wind to show around a run on a regional grid;
+ * undefined for global runs
+ */
+export function backgroundRun(catalogue: DataCatalogue, run: CatalogueRun) {
+  const windGrid = (r: CatalogueRun) => r.variables.find(v => v.id === "wind")?.grid;
+  const grid = windGrid(run);
+  if (!grid || wrapsLongitude(grid)) return undefined;
+  return catalogue.runs.find(r => {
+    const background = windGrid(r);
+    return r !== run && !!background && wrapsLongitude(background);
+  });
+}
+
+/**
+ * DataSource over one run of the fields API catalogue, or one member of an
+ * ensemble run: variables, levels and times come from the catalogue, each field
+ * is a slice fetched on request
+ */
+export function createCatalogueSource(fieldsApi: string, run: CatalogueRun, member?: number): DataSource {
+  const entry = (variable: VariableId) => {
+    const v = run.variables.find(c => c.id === variable);
+    if (!v) throw new Error(`No ${variable} in ${run.model} ${run.refTime}`);
+    return v;
+  };
+
+  return {
+    async listVariables() {
+      return VARIABLES.filter(v => run.variables.some(c => c.id === v.id));
+    },
+
+    async listLevels(variable) {
+      return entry(variable).levels;
+    },
+
+    async listTimes(variable) {
+      return entry(variable).times;
+    },
+
+    async fetchField(variable, levelId, timeIdx) {
+      const { levels, times } = entry(variable);
+      const level = levels.find(l => l.id === levelId);
+      if (!level || !times[timeIdx]) throw new Error(`No ${variable} field for level ${levelId} at time step ${timeIdx}`);
+      const url = `${fieldsApi}/${variable}/${levelSlug(level)}/${timeSlug(times[timeIdx])}${runQuery({ ...run, member })}`;
+      const { header, components } = matchComponents(VARIABLES.find(v => v.id === variable)!, await loadRecords(url));
+      return toField(header, level, components);
+    },
+  };
+}
+
+// ---- Static JSON files under public/ ---- //
+
+export interface ManifestTime {
+  validTime: string; // ISO 8601, e.g. "2025-08-03T06:00:00Z"
+  forecastHour?: number;
+  files: string[];
+}
+
+export interface DataManifest {
+  cycle?: string;
+  times: ManifestTime[];
+}
+
+/**
+ * Accepts both the multi-time manifest and the legacy flat list of files,
+ * which is treated as a single undated time step
+ */
+export const normalizeManifest = (raw: DataManifest | string[]): DataManifest =>
+  Array.isArray(raw) ? { times: [{ validTime: "", files: raw }] } : raw;
+
+/**
+ * Picks the records for each of a variable's components by GRIB parameter,
+ * regardless of their position in the file
+ */
+export function matchComponents<D>(variable: VariableInfo, records: { header: GribHeader; data: D }[]) {
+  const components: Record<string, D> = {};
+  let header: GribHeader | undefined;
+  for (const c of variable.components) {
+    const record = records.find(r =>
+      r.header.parameterCategory === c.parameterCategory &&
+      r.header.parameterNumber === c.parameterNumber &&
+      (r.header.discipline ?? 0) === 0
+    );
+    if (!record) {
+      throw new Error(`No ${variable.name} ${c.key} record (category ${c.parameterCategory}, number ${c.parameterNumber})`);
+    }
+    header ??= record.header;
+    components[c.key] = record.data;
+  }
+  return { header: header!, components };
+}
+
+// Factor and offset from a file's units to the GRIB parameter's (K, Pa, %), by component key
+export const unitConversion = (key: string, units: string): [number, number] => {
+  const u = units.trim().toLowerCase();
+  if (key === "T" && /^(deg(ree)?s?[ _]?c(elsius)?|°c|c)$/.test(u)) return [1, 273.15];
+  if (key === "P" && /^(hpa|mbar|millibars?)$/.test(u)) return [100, 0];
+  if (key === "TCDC" && /^(1|0-1|\(0 - 1\)|fraction)$/.test(u)) return [100, 0];
+  return [1, 0];
+};
+
+// A field on the header's grid, with freshly read components converted to the GRIB
+// parameter's units in place and grid-relative winds turned to east and north
+function toField(header: GribHeader, level: LevelInfo, components: Record<string, Float32Array>): Field {
+  for (const [key, values] of Object.entries(components)) {
+    const [factor, shift] = unitConversion(key, header.parameterUnit ?? "");
+    if (factor === 1 && shift === 0) continue;
+    for (let k = 0; k < values.length; k++) values[k] = values[k] * factor + shift;
+  }
+  const meta = gridMetaOf(header);
+  if (meta.projection?.gridRelative && components.U && components.V) {
+    toEarthRelative(meta, components.U, components.V);
+    meta.projection = { ...meta.projection, gridRelative: false };
+  }
+  return { meta, level, components };
+}
+
+interface FailedField {
+  level: LevelInfo;
+  error: unknown;
+}
+
+export interface StaticJsonVariable {
+  dir: string;
+  manifest: string;
+}
+
+// Reads one listed file into float32 records: SKYF binary or grib2json JSON,
+// told apart by content since fields API slices have no extension
+async function loadRecords(url: string): Promise<{ header: GribHeader; data: Float32Array }[]> {
+  const r = await fetch(url);
+  if (!r.ok) throw new Error(`HTTP ${r.status}`);
+  const buffer = await r.arrayBuffer();
+  if (isFieldFile(buffer)) return decodeFieldFile(buffer);
+  const raw: GribRecord | GribRecord[] = JSON.parse(new TextDecoder().decode(buffer));
+  return (Array.isArray(raw) ? raw : [raw]).map(({ header, data }) => ({
+    header,
+    data: new Float32Array(data.map(x => x ?? NaN)),
+  }));
+}
+
+// How a DataSource is made, in a form that can be posted to the data worker
+export type SourceConfig =
+  | { kind: "static"; variables: Partial<Record<VariableId, StaticJsonVariable>> }
+  | { kind: "catalogue"; fieldsApi: string; run: CatalogueRun; member?: number };
+
+export const createSource = (config: SourceConfig) =>
+  config.kind === "static"
+    ? createStaticJsonSource(config.variables)
+    : createCatalogueSource(config.fieldsApi, config.run, config.member);
+
+/**
+ * DataSource over per-level files listed in a manifest per variable.
+ * Files are grib2json JSON (a record or an array of records) or SKYF binary.
+ */
+export function createStaticJsonSource(
+  variables: Partial<Record<VariableId, StaticJsonVariable>>
+): DataSource {
+  const infos = VARIABLES.filter(v => variables[v.id]);
+  const manifests = new Map<VariableId, Promise<DataManifest>>();
+  const timeSteps = new Map<string, Promise<Map<string, Field | FailedField>>>();
+
+  const config = (variable: VariableId) => {
+    const c = variables[variable];
+    if (!c) throw new Error(`Unknown variable: ${variable}`);
+    return c;
+  };
+
+  const manifest = (variable: VariableId) => {
+    if (!manifests.has(variable)) {
+      const { dir, manifest: name } = config(variable);
+      manifests.set(variable, fetch(`${dir}/${name}`)
+        .then(r => {
+          if (!r.ok) throw new Error(`Manifest ${name}: HTTP ${r.status}`);
+          return r.json();
+        })
+        .then(normalizeManifest));
+    }
+    return manifests.get(variable)!;
+  };
+
+  // Loads every file of one time step in parallel, keyed by level id. A file that
+  // fails is kept under a "file:" id so the failure surfaces from fetchField.
+  const timeStep = (variable: VariableId, timeIdx: number) => {
+    const key = `${variable}/${timeIdx}`;
+    if (!timeSteps.has(key)) {
+      const info = infos.find(v => v.id === variable)!;
+      const { dir } = config(variable);
+      timeSteps.set(key, manifest(variable).then(async m => {
+        const entries = await Promise.all((m.times[timeIdx]?.files ?? []).map(async fname => {
+          try {
+            const records = await loadRecords(`${dir}/${fname}`);
+            const { header, components } = matchComponents(info, records);
+            const level = levelInfo(header);
+            return [level.id, toField(header, level, components)] as const;
+          } catch (error) {
+            const level = { id: `file:${fname}`, label: fname, surface1Type: NaN, surface1Value: NaN };
+            return [level.id, { level, error }] as const;
+          }
+        }));
+        return new Map<string, Field | FailedField>(entries);
+      }));
+    }
+    return timeSteps.get(key)!;
+  };
+
+  return {
+    async listVariables() {
+      return infos;
+    },
+
+    async listLevels(variable) {
+      // Levels are defined by the first time step
+      const fields = await timeStep(variable, 0);
+      return [...fields.values()].map(f => f.level);
+    },
+
+    async listTimes(variable) {
+      return (await manifest(variable)).times.map(t => t.validTime);
+    },
+
+    async fetchField(variable, levelId, timeIdx) {
+      const fields = await timeStep(variable, timeIdx);
+      const field = fields.get(levelId);
+      if (!field) throw new Error(`No ${variable} field for level ${levelId} at time step ${timeIdx}`);
+      if ("error" in field) throw field.error;
+      // Kept for later calls (another load of the same source); callers must not modify the arrays
+      return field;
+    },
+  };
+}
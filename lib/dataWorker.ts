@@ -0,0 +1,49 @@
+import { type DataSource, type SourceConfig, createSource } from "./dataSource";
+import { windSpeedField } from "./met";
+
+/**
+ * Worker side of createWorkerSource(): runs the static file or fields API source
+ * off the main thread, adds derived fields, and transfers copies of the typed
+ * arrays back (sources may cache the fields they return).
+ */
+
+export type WorkerRequest =
+  | { type: "init"; config: SourceConfig }
+  | { type: "call"; id: number; method: keyof DataSource; args: unknown[] };
+
+export type WorkerResponse =
+  | { id: number; result: unknown }
+  | { id: number; error: string };
+
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage(message: WorkerResponse, transfer?: Transferable[]): void;
+};
+
+let source: DataSource | null = null;
+
+scope.onmessage = async ({ data: request }) => {
+  if (request.type === "init") {
+    source = createSource(request.config);
+    return;
+  }
+
+  const { id, method, args } = request;
+  try {
+    if (!source) throw new Error("Data worker used before init");
+    if (method === "fetchField") {
+      const [variable, levelId, timeIdx] = args as Parameters<DataSource["fetchField"]>;
+      const field = await source.fetchField(variable, levelId, timeIdx);
+      const components = Object.fromEntries(Object.entries(field.components).map(([key, a]) => [key, a.slice()]));
+      const { U, V } = components;
+      if (variable === "wind" && U && V) components.S = windSpeedField(U, V);
+      const buffers = Object.values(components).map(a => a.buffer as ArrayBuffer);
+      scope.postMessage({ id, result: { ...field, components } }, buffers);
+      return;
+    }
+    const result = await (source[method] as (...a: unknown[]) => Promise<unknown>)(...args);
+    scope.postMessage({ id, result });
+  } catch (error) {
+    scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,99 @@
+import { type GridMeta, wrapsLongitude } from "./grid";
+
+/**
+ * Fields derived from wind and temperature on a regular lat/lon grid, using
+ * centred finite differences on the sphere (one-sided at the grid edges,
+ * wrapping in longitude for global grids). Results are SI units per second;
+ * points next to missing data or the poles are NaN.
+ */
+
+export const EARTH_RADIUS = 6371e3; // m
+
+const DEG = Math.PI / 180;
+
+// Rows closer than this to a pole have no usable zonal derivative
+const MIN_COS_LAT = 1e-6;
+
+// Grid stencil: derivatives with respect to longitude and latitude in radians
+function stencil(meta: GridMeta) {
+  const { nx, ny, la1, dx, dy } = meta;
+  const wraps = wrapsLongitude(meta);
+  const cosLat = new Float64Array(ny);
+  const tanLat = new Float64Array(ny);
+  for (let j = 0; j < ny; j++) {
+    const phi = (la1 - j * dy) * DEG;
+    cosLat[j] = Math.cos(phi);
+    tanLat[j] = Math.tan(phi);
+  }
+
+  const dLon = (A: Float32Array, j: number, i: number) => {
+    if (wraps) {
+      return (A[j * nx + (i + 1) % nx] - A[j * nx + (i - 1 + nx) % nx]) / (2 * dx * DEG);
+    }
+    const i0 = Math.max(0, i - 1), i1 = Math.min(nx - 1, i + 1);
+    return (A[j * nx + i1] - A[j * nx + i0]) / ((i1 - i0) * dx * DEG);
+  };
+
+  // Rows run from la1 in steps of -dy, so the northern neighbour is row j - 1
+  const dLat = (A: Float32Array, j: number, i: number) => {
+    const j0 = Math.max(0, j - 1), j1 = Math.min(ny - 1, j + 1);
+    return (A[j0 * nx + i] - A[j1 * nx + i]) / ((j1 - j0) * dy * DEG);
+  };
+
+  return { cosLat, tanLat, dLon, dLat };
+}
+
+function mapGrid(meta: GridMeta, fn: (j: number, i: number, k: number, cosLat: number) => number) {
+  const { nx, ny } = meta;
+  const { cosLat } = stencil(meta);
+  const out = new Float32Array(nx * ny);
+  for (let j = 0; j < ny; j++) {
+    const c = cosLat[j];
+    for (let i = 0; i < nx; i++) {
+      out[j * nx + i] = c < MIN_COS_LAT ? NaN : fn(j, i, j * nx + i, c);
+    }
+  }
+  return out;
+}
+
+/**
+ * Relative vorticity ζ = 1/(a cosφ) ∂v/∂λ − 1/a ∂u/∂φ + u tanφ / a, in s⁻¹
+ */
+export function relativeVorticity(meta: GridMeta, U: Float32Array, V: Float32Array) {
+  const { tanLat, dLon, dLat } = stencil(meta);
+  return mapGrid(meta, (j, i, k, cosLat) =>
+    (dLon(V, j, i) / cosLat - dLat(U, j, i) + U[k] * tanLat[j]) / EARTH_RADIUS
+  );
+}
+
+/**
+ * Horizontal divergence δ = 1/(a cosφ) ∂u/∂λ + 1/a ∂v/∂φ − v tanφ / a, in s⁻¹
+ */
+export function divergence(meta: GridMeta, U: Float32Array, V: Float32Array) {
+  const { tanLat, dLon, dLat } = stencil(meta);
+  return mapGrid(meta, (j, i, k, cosLat) =>
+    (dLon(U, j, i) / cosLat + dLat(V, j, i) - V[k] * tanLat[j]) / EARTH_RADIUS
+  );
+}
+
+/**
+ * Horizontal temperature advection −(u/(a cosφ) ∂T/∂λ + v/a ∂T/∂φ), in K/s;
+ * positive where warm air is being carried in
+ */
+export function temperatureAdvection(meta: GridMeta, U: Float32Array, V: Float32Array, T: Float32Array) {
+  const { dLon, dLat } = stencil(meta);
+  return mapGrid(meta, (j, i, k, cosLat) =>
+    -(U[k] * dLon(T, j, i) / cosLat + V[k] * dLat(T, j, i)) / EARTH_RADIUS
+  );
+}
+
+/**
+ * Magnitude of the vector wind difference between two levels (bulk shear), in m/s
+ */
+export function windShear(lowerU: Float32Array, lowerV: Float32Array, upperU: Float32Array, upperV: Float32Array) {
+  const out = new Float32Array(lowerU.length);
+  for (let k = 0; k < out.length; k++) {
+    out[k] = Math.hypot(upperU[k] - lowerU[k], upperV[k] - lowerV[k]);
+  }
+  return out;
+}
@@ -0,0 +1,133 @@
+import { scalePosition } from "./colormaps";
+import type { OverlayScale } from "./overlays";
+
+/**
+ * Figure export: composites the view's canvases onto a 2D canvas, burns in a
+ * title, level/time line and overlay legend, and saves PNG snapshots or WebM
+ * recordings (MediaRecorder on a canvas stream).
+ */
+
+export interface ExportSize {
+  id: string;
+  label: string;
+  // 0 keeps the on-screen size
+  width: number;
+  height: number;
+}
+
+export const EXPORT_SIZES: ExportSize[] = [
+  { id: "screen", label: "Screen", width: 0, height: 0 },
+  { id: "1080p", label: "1080p", width: 1920, height: 1080 },
+  { id: "1440p", label: "1440p", width: 2560, height: 1440 },
+  { id: "4k", label: "4K", width: 3840, height: 2160 },
+];
+
+export interface ExportAnnotations {
+  title?: string;
+  // e.g. "850 hPa · Sun 3 Aug 06:00 UTC"
+  subtitle?: string;
+  legend?: OverlayScale | null;
+}
+
+// Draws layers bottom to top, each stretched over the whole output, on black
+export function drawLayers(ctx: CanvasRenderingContext2D, layers: CanvasImageSource[], width: number, height: number) {
+  ctx.fillStyle = "#000";
+  ctx.fillRect(0, 0, width, height);
+  for (const layer of layers) ctx.drawImage(layer, 0, 0, width, height);
+}
+
+// Title and subtitle top left, legend bottom left; sizes follow the output height
+export function drawAnnotations(ctx: CanvasRenderingContext2D, width: number, height: number, annotations: ExportAnnotations) {
+  const { title, subtitle, legend } = annotations;
+  const unit = Math.max(10, height / 60);
+  const margin = unit * 1.5;
+  ctx.save();
+  ctx.textBaseline = "top";
+  ctx.shadowColor = "rgba(0,0,0,0.9)";
+  ctx.shadowBlur = unit / 3;
+
+  let y = margin;
+  if (title) {
+    ctx.font = `600 ${unit * 1.6}px sans-serif`;
+    ctx.fillStyle = "#fff";
+    ctx.fillText(title, margin, y);
+    y += unit * 2.2;
+  }
+  if (subtitle) {
+    ctx.font = `400 ${unit}px sans-serif`;
+    ctx.fillStyle = "rgba(255,255,255,0.85)";
+    ctx.fillText(subtitle, margin, y);
+  }
+
+  if (legend) {
+    const { min, max, log, ticks, colormap, format, name, units } = legend;
+    const barWidth = Math.min(width / 3, unit * 22);
+    const barHeight = unit * 0.9;
+    const top = height - margin - barHeight - unit * 1.4;
+    ctx.font = `400 ${unit * 0.9}px sans-serif`;
+    ctx.fillStyle = "rgba(255,255,255,0.85)";
+    ctx.textBaseline = "bottom";
+    ctx.fillText(`${name} (${units})`, margin, top - unit * 0.4);
+    ctx.shadowBlur = 0;
+    const gradient = ctx.createLinearGradient(margin, 0, margin + barWidth, 0);
+    for (let i = 0; i <= 50; i++) {
+      const [r, g, b] = colormap(i / 50, 1);
+      gradient.addColorStop(i / 50, `rgb(${r},${g},${b})`);
+    }
+    ctx.fillStyle = gradient;
+    ctx.fillRect(margin, top, barWidth, barHeight);
+    ctx.textBaseline = "top";
+    ctx.textAlign = "center";
+    ctx.fillStyle = "#e0e0e0";
+    for (const value of ticks) {
+      const x = margin + scalePosition(value, min, max, log) * barWidth;
+      ctx.fillRect(x - 0.5, top, 1, barHeight + unit * 0.2);
+      ctx.fillText(format ? format(value) : String(value), x, top + barHeight + unit * 0.3);
+    }
+  }
+  ctx.restore();
+}
+
+export const canvasBlob = (canvas: HTMLCanvasElement, type = "image/png") =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode the image"))), type)
+  );
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Recording needs MediaRecorder with a WebM codec and canvas streams
+export const supportsRecording = () =>
+  typeof MediaRecorder !== "undefined" && typeof HTMLCanvasElement.prototype.captureStream === "function" &&
+  MediaRecorder.isTypeSupported("video/webm");
+
+/**
+ * Records whatever is drawn on `canvas` as WebM until stop() resolves with the video
+ */
+export function createCanvasRecorder(canvas: HTMLCanvasElement, fps = 30) {
+  const mimeType = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"]
+    .find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(canvas.captureStream(fps), { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => {
+    if (e.data.size) chunks.push(e.data);
+  };
+  recorder.start(1000);
+
+  return {
+    stop: () =>
+      new Promise<Blob>(resolve => {
+        recorder.onstop = () => {
+          recorder.stream.getTracks().forEach(track => track.stop());
+          resolve(new Blob(chunks, { type: "video/webm" }));
+        };
+        recorder.stop();
+      }),
+  };
+}
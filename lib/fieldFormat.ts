@@ -0,0 +1,153 @@
+import type { GribHeader } from "./dataSource";
+
+/**
+ * SKYF binary field container, a compact replacement for JSON number arrays.
+ *
+ *   bytes 0-3   magic "SKYF"
+ *   byte  4     version (1)
+ *   byte  5     compression: 0 none, 1 gzip, 2 deflate (applies to the payload)
+ *   bytes 6-7   reserved
+ *   bytes 8-11  header length in bytes, uint32 little-endian
+ *   header      UTF-8 JSON { records: RecordHeader[] }, zero-padded to 4 bytes
+ *   payload     one block of nx * ny values per record, little-endian,
+ *               each block zero-padded to 4 bytes
+ *
+ * float32 blocks store NaN for missing values; int16 blocks store
+ * value = offset + raw * scale, with -32768 marking missing values.
+ */
+
+export type FieldEncoding = "float32" | "int16";
+export type FieldCompression = "none" | "gzip" | "deflate";
+
+export interface RecordHeader extends GribHeader {
+  encoding: FieldEncoding;
+  scale?: number;
+  offset?: number;
+}
+
+export interface BinaryRecord {
+  header: GribHeader;
+  data: Float32Array;
+}
+
+const MAGIC = "SKYF";
+const VERSION = 1;
+const PREAMBLE_BYTES = 12;
+const INT16_MISSING = -32768;
+const INT16_MAX = 32767;
+const COMPRESSION_CODES: FieldCompression[] = ["none", "gzip", "deflate"];
+
+const pad4 = (n: number) => (n + 3) & ~3;
+
+const pipeBytes = async (bytes: Uint8Array, stream: TransformStream<Uint8Array, Uint8Array>) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+export const isFieldFile = (buffer: ArrayBuffer) =>
+  buffer.byteLength >= PREAMBLE_BYTES &&
+  new TextDecoder().decode(new Uint8Array(buffer, 0, 4)) === MAGIC;
+
+/**
+ * Decodes a SKYF container into float32 records. Uncompressed float32 blocks
+ * are returned as views on the input buffer without copying.
+ */
+export async function decodeFieldFile(buffer: ArrayBuffer): Promise<BinaryRecord[]> {
+  if (!isFieldFile(buffer)) throw new Error("Not a SKYF field file");
+  const view = new DataView(buffer);
+  const version = view.getUint8(4);
+  if (version !== VERSION) throw new Error(`Unsupported SKYF version ${version}`);
+  const compression = COMPRESSION_CODES[view.getUint8(5)];
+  if (!compression) throw new Error(`Unknown SKYF compression ${view.getUint8(5)}`);
+
+  const headerLength = view.getUint32(8, true);
+  const { records }: { records: RecordHeader[] } = JSON.parse(
+    new TextDecoder().decode(new Uint8Array(buffer, PREAMBLE_BYTES, headerLength))
+  );
+
+  const payloadStart = PREAMBLE_BYTES + pad4(headerLength);
+  const payload = compression === "none"
+    ? new Uint8Array(buffer, payloadStart)
+    : await pipeBytes(new Uint8Array(buffer, payloadStart), new DecompressionStream(compression));
+
+  let offset = payload.byteOffset;
+  return records.map(({ encoding, scale = 1, offset: valueOffset = 0, ...header }) => {
+    const n = header.nx * header.ny;
+    let data: Float32Array;
+    if (encoding === "float32") {
+      data = new Float32Array(payload.buffer, offset, n);
+      offset += pad4(n * 4);
+    } else if (encoding === "int16") {
+      const raw = new Int16Array(payload.buffer, offset, n);
+      data = new Float32Array(n);
+      for (let k = 0; k < n; k++) {
+        data[k] = raw[k] === INT16_MISSING ? NaN : valueOffset + raw[k] * scale;
+      }
+      offset += pad4(n * 2);
+    } else {
+      throw new Error(`Unknown SKYF encoding ${encoding}`);
+    }
+    return { header, data };
+  });
+}
+
+/**
+ * Encodes records into a SKYF container. int16 quantizes each record to its
+ * own value range.
+ */
+export async function encodeFieldFile(
+  records: { header: GribHeader; data: ArrayLike<number | null> }[],
+  { encoding = "float32", compression = "none" }: { encoding?: FieldEncoding; compression?: FieldCompression } = {}
+): Promise<Uint8Array> {
+  const headers: RecordHeader[] = [];
+  const blocks: Uint8Array[] = [];
+
+  for (const { header, data } of records) {
+    const n = header.nx * header.ny;
+    if (data.length !== n) throw new Error(`Record has ${data.length} values, grid needs ${n}`);
+
+    if (encoding === "float32") {
+      const block = new Float32Array(pad4(n * 4) / 4);
+      for (let k = 0; k < n; k++) block[k] = data[k] ?? NaN;
+      headers.push({ ...header, encoding });
+      blocks.push(new Uint8Array(block.buffer));
+    } else {
+      let min = Infinity, max = -Infinity;
+      for (let k = 0; k < n; k++) {
+        const v = data[k];
+        if (v !== null && Number.isFinite(v)) {
+          min = Math.min(min, v);
+          max = Math.max(max, v);
+        }
+      }
+      const offset = Number.isFinite(min) ? (min + max) / 2 : 0;
+      const scale = Number.isFinite(min) && max > min ? (max - min) / (2 * INT16_MAX) : 1;
+      const block = new Int16Array(pad4(n * 2) / 2);
+      for (let k = 0; k < n; k++) {
+        const v = data[k];
+        block[k] = v !== null && Number.isFinite(v) ? Math.round((v - offset) / scale) : INT16_MISSING;
+      }
+      headers.push({ ...header, encoding, scale, offset });
+      blocks.push(new Uint8Array(block.buffer));
+    }
+  }
+
+  const rawPayload = new Uint8Array(blocks.reduce((sum, b) => sum + b.byteLength, 0));
+  let cursor = 0;
+  for (const b of blocks) {
+    rawPayload.set(b, cursor);
+    cursor += b.byteLength;
+  }
+  const payload = compression === "none"
+    ? rawPayload
+    : await pipeBytes(rawPayload, new CompressionStream(compression));
+
+  const headerBytes = new TextEncoder().encode(JSON.stringify({ records: headers }));
+  const out = new Uint8Array(PREAMBLE_BYTES + pad4(headerBytes.byteLength) + payload.byteLength);
+  out.set(new TextEncoder().encode(MAGIC), 0);
+  const view = new DataView(out.buffer);
+  view.setUint8(4, VERSION);
+  view.setUint8(5, COMPRESSION_CODES.indexOf(compression));
+  view.setUint32(8, headerBytes.byteLength, true);
+  out.set(headerBytes, PREAMBLE_BYTES);
+  out.set(payload, PREAMBLE_BYTES + pad4(headerBytes.byteLength));
+  return out;
+}
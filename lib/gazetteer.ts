@@ -0,0 +1,129 @@
+/**
+ * Offline place search over public/data/gazetteer.json (built by
+ * scripts/build-gazetteer.ts): city names, airport names and IATA/ICAO codes,
+ * and raw coordinates such as "48.21, 16.37" or "33.9S 151.2E".
+ */
+
+// [name, country, lat, lon, population]
+type CityRow = [string, string, number, number, number];
+// [name, city, country, lat, lon, IATA, ICAO]; codes may be empty
+type AirportRow = [string, string, string, number, number, string, string];
+
+export interface GazetteerFile {
+  // Largest first
+  cities: CityRow[];
+  airports: AirportRow[];
+}
+
+export interface Place {
+  kind: "city" | "airport" | "coordinates";
+  name: string;
+  // Country, airport codes or the formatted coordinates
+  detail: string;
+  lon: number;
+  lat: number;
+}
+
+interface Entry extends Place {
+  // Lower-case, accent-free name (and city for airports) to match against
+  key: string;
+  codes: string[];
+  rank: number;
+}
+
+export interface Gazetteer {
+  search(query: string, limit?: number): Place[];
+}
+
+// Lower case without accents, so "zurich" finds Zürich
+const normalize = (text: string) =>
+  text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim();
+
+const hemisphere = (value: number, positive: string, negative: string) =>
+  `${Math.abs(value).toFixed(2)}°${value >= 0 ? positive : negative}`;
+
+/**
+ * Coordinates typed as "lat, lon" (decimal degrees, optional N/S/E/W suffix
+ * and ° sign); hemisphere letters may swap the order ("16.37E 48.21N")
+ */
+export function parseCoordinates(query: string): Place | null {
+  const match = /^\s*(-?\d+(?:\.\d+)?)\s*°?\s*([NSEW])?\s*[,;\s]\s*(-?\d+(?:\.\d+)?)\s*°?\s*([NSEW])?\s*$/i.exec(query);
+  if (!match) return null;
+  const parts = [[Number(match[1]), match[2]?.toUpperCase()], [Number(match[3]), match[4]?.toUpperCase()]] as const;
+  const signed = ([value, letter]: readonly [number, string | undefined]) => (letter === "S" || letter === "W" ? -value : value);
+  const [first, second] = parts[0][1] === "E" || parts[0][1] === "W" || parts[1][1] === "N" || parts[1][1] === "S"
+    ? [parts[1], parts[0]]
+    : parts;
+  const lat = signed(first), lon = signed(second);
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return {
+    kind: "coordinates",
+    name: `${hemisphere(lat, "N", "S")} ${hemisphere(lon, "E", "W")}`,
+    detail: "Coordinates",
+    lon,
+    lat,
+  };
+}
+
+export function createGazetteer(file: GazetteerFile): Gazetteer {
+  const entries: Entry[] = [
+    ...file.cities.map(([name, country, lat, lon], i): Entry => ({
+      kind: "city", name, detail: country, lat, lon, key: normalize(name), codes: [], rank: i,
+    })),
+    ...file.airports.map(([name, city, country, lat, lon, iata, icao], i): Entry => ({
+      kind: "airport",
+      name: !city || name.toLowerCase().includes(city.toLowerCase()) ? name : `${name} (${city})`,
+      detail: [[iata, icao].filter(Boolean).join(" / "), country].join(" · "),
+      lat,
+      lon,
+      key: normalize(`${name} ${city}`),
+      codes: [iata, icao].filter(Boolean).map(c => c.toLowerCase()),
+      // Cities come before airports of the same name
+      rank: file.cities.length + i,
+    })),
+  ];
+
+  // Lower is better: code match, then name prefix, word prefix, anywhere in the name
+  const score = (entry: Entry, q: string) => {
+    if (entry.codes.includes(q)) return 0;
+    if (entry.key.startsWith(q)) return 1;
+    if (entry.key.includes(` ${q}`) || entry.key.includes(`-${q}`)) return 2;
+    if (q.length >= 3 && entry.key.includes(q)) return 3;
+    return -1;
+  };
+
+  return {
+    search(query, limit = 8) {
+      const coordinates = parseCoordinates(query);
+      if (coordinates) return [coordinates];
+      const q = normalize(query);
+      if (!q) return [];
+      const matches: [number, Entry][] = [];
+      for (const entry of entries) {
+        const s = score(entry, q);
+        if (s >= 0) matches.push([s, entry]);
+      }
+      return matches
+        .sort((a, b) => a[0] - b[0] || a[1].rank - b[1].rank)
+        .slice(0, limit)
+        .map(([, { kind, name, detail, lon, lat }]) => ({ kind, name, detail, lon, lat }));
+    },
+  };
+}
+
+let loading: Promise<Gazetteer> | null = null;
+
+// Fetched on first use and shared afterwards
+export function loadGazetteer(url = "/data/gazetteer.json") {
+  loading ??= fetch(url)
+    .then(res => {
+      if (!res.ok) throw new Error(`Failed to load ${url}: ${res.status}`);
+      return res.json() as Promise<GazetteerFile>;
+    })
+    .then(createGazetteer)
+    .catch(error => {
+      loading = null;
+      throw error;
+    });
+  return loading;
+}
@@ -0,0 +1,120 @@
+import { feature, mesh } from "topojson-client";
+import type { Feature, FeatureCollection, GeoJsonObject, Geometry } from "geojson";
+import type { GeometryObject, Objects, Topology } from "topojson-specification";
+
+/**
+ * Map reference layers served from public/data/geo: world-atlas country
+ * outlines at three resolutions plus optional lakes, rivers and US state (admin-1) lines.
+ * Files may be TopoJSON or GeoJSON; both are reduced to lon/lat polylines.
+ */
+
+export const GEO_DIR = "/data/geo";
+
+// A polyline of [lon, lat] points; polygon rings are closed
+export type Outline = number[][];
+
+export type CountryResolution = "110m" | "50m" | "10m";
+
+export const countriesUrl = (resolution: CountryResolution) => `${GEO_DIR}/countries-${resolution}.json`;
+
+/**
+ * Outline detail for a camera distance from the globe centre (globe radius 200,
+ * orbit range 250-800)
+ */
+export const resolutionForDistance = (distance: number): CountryResolution =>
+  distance < 320 ? "10m" : distance < 520 ? "50m" : "110m";
+
+export type MapLayerId = "lakes" | "rivers" | "admin1";
+
+export interface MapLayer {
+  id: MapLayerId;
+  name: string;
+  url: string;
+  // TopoJSON object to read; defaults to every object in the topology
+  object?: string;
+  // TopoJSON only: keep shared borders between features, dropping outer coastlines
+  interiorOnly?: boolean;
+  color: number;
+  opacity: number;
+}
+
+export const MAP_LAYERS: MapLayer[] = [
+  { id: "lakes", name: "Lakes", url: `${GEO_DIR}/lakes.json`, color: 0x4fa3e0, opacity: 0.7 },
+  { id: "rivers", name: "Rivers", url: `${GEO_DIR}/rivers.json`, color: 0x3b82c4, opacity: 0.6 },
+  {
+    id: "admin1",
+    name: "US states",
+    url: `${GEO_DIR}/admin1.json`,
+    object: "states",
+    interiorOnly: true,
+    color: 0xffffff,
+    opacity: 0.3,
+  },
+];
+
+function geometryOutlines(geometry: Geometry | null, out: Outline[]) {
+  if (!geometry) return;
+  switch (geometry.type) {
+    case "LineString":
+      out.push(geometry.coordinates);
+      break;
+    case "MultiLineString":
+    case "Polygon":
+      out.push(...geometry.coordinates);
+      break;
+    case "MultiPolygon":
+      geometry.coordinates.forEach(polygon => out.push(...polygon));
+      break;
+    case "GeometryCollection":
+      geometry.geometries.forEach(g => geometryOutlines(g, out));
+      break;
+  }
+}
+
+export function geoJsonOutlines(geo: GeoJsonObject, out: Outline[]) {
+  if (geo.type === "FeatureCollection") {
+    (geo as FeatureCollection).features.forEach(f => geometryOutlines(f.geometry, out));
+  } else if (geo.type === "Feature") {
+    geometryOutlines((geo as Feature).geometry, out);
+  } else {
+    geometryOutlines(geo as Geometry, out);
+  }
+}
+
+const cache = new Map<string, Promise<Outline[]>>();
+
+/**
+ * Loads a TopoJSON or GeoJSON file as polylines. Results are cached by URL and
+ * options, so switching resolutions back and forth doesn't refetch.
+ */
+export function loadOutlines(url: string, { object, interiorOnly }: Pick<MapLayer, "object" | "interiorOnly"> = {}) {
+  const key = `${url}#${object ?? ""}${interiorOnly ? ":interior" : ""}`;
+  if (!cache.has(key)) {
+    cache.set(key, fetch(url)
+      .then(r => {
+        if (!r.ok) throw new Error(`${url}: HTTP ${r.status}`);
+        return r.json();
+      })
+      .then((data: Topology | GeoJsonObject) => {
+        const out: Outline[] = [];
+        if (data.type !== "Topology") {
+          geoJsonOutlines(data, out);
+          return out;
+        }
+        const topo = data as Topology<Objects<object>>;
+        const objects: (GeometryObject<object> | undefined)[] = object ? [topo.objects[object]] : Object.values(topo.objects);
+        for (const o of objects) {
+          if (!o) throw new Error(`${url}: no TopoJSON object "${object}"`);
+          if (interiorOnly) {
+            out.push(...mesh(topo, o, (a, b) => a !== b).coordinates);
+          } else {
+            geoJsonOutlines(feature(topo, o), out);
+          }
+        }
+        return out;
+      }));
+    // Let a failed load be retried
+    cache.get(key)!.catch(() => cache.delete(key));
+  }
+  return cache.get(key)!;
+}
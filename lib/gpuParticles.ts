@@ -0,0 +1,355 @@
+import * as THREE from "three";
+import type { GridBounds, GridMeta } from "./grid";
+import { type BackgroundFields, GRID_SAMPLING_GLSL, gridUniforms } from "./gridShader";
+import { type MapProjection, PROJECTION_GLSL, projectionUniforms } from "./projections";
+
+/**
+ * GPU particle advection: particle state (lon, lat, age) lives in ping-pong
+ * float render targets, wind U/V in grid textures (see gridShader), and trails are accumulated
+ * in a screen-sized target that fades every frame before being composited.
+ */
+
+export interface GpuParticleOptions {
+  count: number;
+  life: number;
+  speed: number;
+  radius: number;
+  fade: number;
+  color: THREE.ColorRepresentation;
+  opacity: number;
+  // Draw trails on this flat map (the z = 0 plane) instead of the globe
+  projection?: MapProjection | null;
+  // Global wind used outside a regional grid
+  background?: GridMeta | null;
+  // Where particles are seeded; the whole globe by default
+  bounds?: GridBounds;
+}
+
+export interface GpuParticles {
+  // Advect one frame through the blend of two wind textures (and of the background's)
+  step(wind0: THREE.Texture, wind1: THREE.Texture, blend: number, background?: BackgroundFields | null): void;
+  // Draw trails for the current camera onto the screen (call after the main render)
+  render(camera: THREE.Camera): void;
+  resize(): void;
+  resetTrails(): void;
+  dispose(): void;
+}
+
+/**
+ * Advection renders into float targets, which needs WebGL2 with EXT_color_buffer_float
+ */
+export const supportsGpuParticles = (renderer: THREE.WebGLRenderer) =>
+  renderer.capabilities.isWebGL2 && renderer.extensions.has("EXT_color_buffer_float");
+
+const QUAD_VERTEX = /* glsl */ `
+  varying vec2 vUv;
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+  }
+`;
+
+const ADVECT_FRAGMENT = /* glsl */ `
+  varying vec2 vUv;
+  uniform sampler2D uState;
+  uniform sampler2D uWind0;
+  uniform sampler2D uWind1;
+  uniform sampler2D uBack0;
+  uniform sampler2D uBack1;
+  uniform float uBlend;
+  uniform float uBackBlend;
+  uniform vec4 uBounds; // west, east, south, north
+  uniform float uSpeed;
+  uniform float uLife;
+  uniform float uSeed;
+  uniform bool uInit;
+
+  float hash(vec2 p) {
+    vec3 p3 = fract(vec3(p.xyx) * 0.1031);
+    p3 += dot(p3, p3.yzx + 33.33);
+    return fract((p3.x + p3.y) * p3.z);
+  }
+
+${GRID_SAMPLING_GLSL}
+
+  vec4 respawn(float age) {
+    vec2 seed = gl_FragCoord.xy + uSeed;
+    float lon = mix(uBounds.x, uBounds.y, hash(seed));
+    return vec4(mod(lon + 180.0, 360.0) - 180.0, mix(uBounds.z, uBounds.w, hash(seed + 17.0)), age, 0.0);
+  }
+
+  void main() {
+    if (uInit) {
+      gl_FragColor = respawn(hash(gl_FragCoord.xy + uSeed + 31.0) * uLife);
+      return;
+    }
+    vec4 s = texture(uState, vUv);
+    vec3 w = mix(sampleGridTexture(uWind0, s.xy), sampleGridTexture(uWind1, s.xy), uBlend);
+    if (w.z < 0.999) {
+      w = mix(sampleBackgroundTexture(uBack0, s.xy), sampleBackgroundTexture(uBack1, s.xy), uBackBlend);
+    }
+    if (w.z < 0.999 || s.z + 1.0 > uLife) {
+      gl_FragColor = respawn(0.0);
+      return;
+    }
+    float lat = s.y + w.y * uSpeed;
+    float lon = mod(s.x + w.x * uSpeed / cos(radians(s.y)) + 180.0, 360.0) - 180.0;
+    gl_FragColor = vec4(lon, clamp(lat, -89.999, 89.999), s.z + 1.0, 0.0);
+  }
+`;
+
+const TRAIL_VERTEX = /* glsl */ `
+  uniform sampler2D uPrev;
+  uniform sampler2D uCurr;
+  uniform float uRadius;
+  uniform float uLife;
+  varying float vAlpha;
+
+${PROJECTION_GLSL}
+
+  // Same mapping as lonLatToVec3()
+  vec3 toSphere(vec2 lonLat) {
+    float phi = radians(lonLat.y);
+    float lambda = radians(lonLat.x);
+    return uRadius * vec3(cos(phi) * sin(lambda), sin(phi), cos(phi) * cos(lambda));
+  }
+
+  void main() {
+    vec4 p = texture(uPrev, position.xy);
+    vec4 c = texture(uCurr, position.xy);
+    vec3 pos;
+    bool broken = c.z < p.z;
+    bool hidden;
+    if (uProjection == 0) {
+      pos = toSphere(position.z < 0.5 ? p.xy : c.xy);
+      // Hide respawned particles, antimeridian jumps and the far side of the globe
+      broken = broken || abs(c.x - p.x) > 180.0;
+      hidden = dot(normalize(pos), normalize(cameraPosition)) <= 0.0;
+    } else {
+      // On a flat map: hide segments across its edge or outside it
+      vec3 a = projectLonLat(p.xy);
+      vec3 b = projectLonLat(c.xy);
+      pos = vec3(position.z < 0.5 ? a.xy : b.xy, uRadius - uProjRadius);
+      broken = broken || projectionBreaks(p.xy, c.xy);
+      hidden = a.z * b.z < 0.5;
+    }
+    vAlpha = (broken || hidden) ? 0.0 : min(1.0, 0.1 + (uLife - c.z) / uLife * 0.9);
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(pos, 1.0);
+  }
+`;
+
+const TRAIL_FRAGMENT = /* glsl */ `
+  varying float vAlpha;
+  uniform vec3 uColor;
+  uniform float uOpacity;
+  void main() {
+    if (vAlpha <= 0.0) discard;
+    gl_FragColor = vec4(uColor, vAlpha * uOpacity);
+  }
+`;
+
+const FADE_FRAGMENT = /* glsl */ `
+  varying vec2 vUv;
+  uniform sampler2D uTrail;
+  uniform float uFade;
+  void main() {
+    // Rounded down so faint 8-bit trails keep fading to zero instead of rounding back up
+    gl_FragColor = floor(texture(uTrail, vUv) * uFade * 255.0) / 255.0;
+  }
+`;
+
+const COMPOSITE_FRAGMENT = /* glsl */ `
+  varying vec2 vUv;
+  uniform sampler2D uTrail;
+  void main() {
+    gl_FragColor = vec4(texture(uTrail, vUv).rgb, 1.0);
+  }
+`;
+
+export function createGpuParticles(
+  renderer: THREE.WebGLRenderer,
+  meta: GridMeta,
+  options: GpuParticleOptions
+): GpuParticles {
+  const size = Math.ceil(Math.sqrt(options.count));
+  const { west, east, south, north } = options.bounds ?? { west: -180, east: 180, south: -90, north: 90 };
+  const bounds = new THREE.Vector4(west, east, south, north);
+
+  const stateTarget = () => new THREE.WebGLRenderTarget(size, size, {
+    type: THREE.FloatType,
+    format: THREE.RGBAFormat,
+    magFilter: THREE.NearestFilter,
+    minFilter: THREE.NearestFilter,
+    depthBuffer: false,
+  });
+  let stateRead = stateTarget();
+  let stateWrite = stateTarget();
+
+  const trailTarget = () => new THREE.WebGLRenderTarget(1, 1, { depthBuffer: false });
+  let trailRead = trailTarget();
+  let trailWrite = trailTarget();
+
+  // Full-screen quad shared by the advection, fade and composite passes
+  const quadCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+  const quadGeometry = new THREE.PlaneGeometry(2, 2);
+  const quadScene = new THREE.Scene();
+  const quad = new THREE.Mesh(quadGeometry);
+  quad.frustumCulled = false;
+  quadScene.add(quad);
+
+  const advectMaterial = new THREE.ShaderMaterial({
+    vertexShader: QUAD_VERTEX,
+    fragmentShader: ADVECT_FRAGMENT,
+    uniforms: {
+      uState: { value: null },
+      uWind0: { value: null },
+      uWind1: { value: null },
+      uBack0: { value: null },
+      uBack1: { value: null },
+      ...gridUniforms(meta, options.background),
+      uBlend: { value: 0 },
+      uBackBlend: { value: 0 },
+      uBounds: { value: bounds },
+      uSpeed: { value: options.speed },
+      uLife: { value: options.life },
+      uSeed: { value: 0 },
+      uInit: { value: false },
+    },
+  });
+
+  const fadeMaterial = new THREE.ShaderMaterial({
+    vertexShader: QUAD_VERTEX,
+    fragmentShader: FADE_FRAGMENT,
+    uniforms: { uTrail: { value: null }, uFade: { value: options.fade } },
+    blending: THREE.NoBlending,
+  });
+
+  const compositeMaterial = new THREE.ShaderMaterial({
+    vertexShader: QUAD_VERTEX,
+    fragmentShader: COMPOSITE_FRAGMENT,
+    uniforms: { uTrail: { value: null } },
+    blending: THREE.AdditiveBlending,
+    transparent: true,
+    depthTest: false,
+    depthWrite: false,
+  });
+
+  // Two vertices per particle: (u, v) into the state texture, z = 0 for previous, 1 for current
+  const refs = new Float32Array(size * size * 6);
+  for (let k = 0; k < size * size; k++) {
+    const u = ((k % size) + 0.5) / size;
+    const v = (Math.floor(k / size) + 0.5) / size;
+    refs.set([u, v, 0, u, v, 1], k * 6);
+  }
+  const trailGeometry = new THREE.BufferGeometry();
+  trailGeometry.setAttribute("position", new THREE.BufferAttribute(refs, 3));
+  const trailMaterial = new THREE.ShaderMaterial({
+    vertexShader: TRAIL_VERTEX,
+    fragmentShader: TRAIL_FRAGMENT,
+    uniforms: {
+      uPrev: { value: null },
+      uCurr: { value: null },
+      uRadius: { value: options.radius },
+      uLife: { value: options.life },
+      uColor: { value: new THREE.Color(options.color) },
+      uOpacity: { value: options.opacity },
+      ...projectionUniforms(options.projection ?? null),
+    },
+    blending: THREE.AdditiveBlending,
+    transparent: true,
+    depthTest: false,
+    depthWrite: false,
+  });
+  const trailLines = new THREE.LineSegments(trailGeometry, trailMaterial);
+  trailLines.frustumCulled = false;
+  const trailScene = new THREE.Scene();
+  trailScene.add(trailLines);
+
+  const renderQuad = (material: THREE.Material, target: THREE.WebGLRenderTarget | null) => {
+    quad.material = material;
+    renderer.setRenderTarget(target);
+    renderer.render(quadScene, quadCamera);
+  };
+
+  const withRendererState = (fn: () => void) => {
+    const prevTarget = renderer.getRenderTarget();
+    const prevAutoClear = renderer.autoClear;
+    fn();
+    renderer.autoClear = prevAutoClear;
+    renderer.setRenderTarget(prevTarget);
+  };
+
+  // Seed every particle with a random position and age
+  withRendererState(() => {
+    advectMaterial.uniforms.uInit.value = true;
+    advectMaterial.uniforms.uSeed.value = Math.random() * 1000;
+    renderQuad(advectMaterial, stateRead);
+    renderQuad(advectMaterial, stateWrite);
+    advectMaterial.uniforms.uInit.value = false;
+  });
+
+  const resetTrails = () => {
+    withRendererState(() => {
+      const clearColor = renderer.getClearColor(new THREE.Color());
+      const clearAlpha = renderer.getClearAlpha();
+      renderer.setClearColor(0x000000, 0);
+      for (const target of [trailRead, trailWrite]) {
+        renderer.setRenderTarget(target);
+        renderer.clear(true, false, false);
+      }
+      renderer.setClearColor(clearColor, clearAlpha);
+    });
+  };
+
+  return {
+    step(wind0, wind1, blend, background) {
+      withRendererState(() => {
+        const u = advectMaterial.uniforms;
+        u.uState.value = stateRead.texture;
+        u.uWind0.value = wind0;
+        u.uWind1.value = wind1;
+        u.uBlend.value = blend;
+        if (background) {
+          u.uBack0.value = background.field0;
+          u.uBack1.value = background.field1;
+          u.uBackBlend.value = background.blend;
+        }
+        u.uSeed.value = Math.random() * 1000;
+        renderQuad(advectMaterial, stateWrite);
+        [stateRead, stateWrite] = [stateWrite, stateRead];
+      });
+    },
+
+    render(camera) {
+      withRendererState(() => {
+        // Fade the previous trails, then add this frame's segments on top
+        fadeMaterial.uniforms.uTrail.value = trailRead.texture;
+        renderQuad(fadeMaterial, trailWrite);
+        trailMaterial.uniforms.uPrev.value = stateWrite.texture;
+        trailMaterial.uniforms.uCurr.value = stateRead.texture;
+        renderer.autoClear = false;
+        renderer.render(trailScene, camera);
+        [trailRead, trailWrite] = [trailWrite, trailRead];
+
+        compositeMaterial.uniforms.uTrail.value = trailRead.texture;
+        renderQuad(compositeMaterial, null);
+      });
+    },
+
+    resize() {
+      const s = renderer.getDrawingBufferSize(new THREE.Vector2());
+      trailRead.setSize(s.x, s.y);
+      trailWrite.setSize(s.x, s.y);
+      resetTrails();
+    },
+
+    resetTrails,
+
+    dispose() {
+      [stateRead, stateWrite, trailRead, trailWrite].forEach(t => t.dispose());
+      [advectMaterial, fadeMaterial, compositeMaterial, trailMaterial].forEach(m => m.dispose());
+      quadGeometry.dispose();
+      trailGeometry.dispose();
+    },
+  };
+}
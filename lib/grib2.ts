@@ -0,0 +1,430 @@
+import type { GribHeader } from "./dataSource";
+import type { GridMeta } from "./grid";
+import { type LambertConformal, toGridCoords } from "./gridProjection";
+import type { ByteSource, IngestRecord, ScanResult } from "./ingest";
+
+/**
+ * GRIB edition 2 reader for the fields the globe draws: regular lat/lon,
+ * rotated lat/lon and Lambert conformal grids (grid templates 3.0, 3.1 and
+ * 3.30), analysis and forecast products (4.0, 4.1, 4.8, 4.11, with the
+ * ensemble member of 4.1 and 4.11) and
+ * simple or complex packing with optional spatial differencing (5.0, 5.2, 5.3),
+ * with or without a bitmap. Only section headers are read while scanning; values
+ * are unpacked when a record is read. JPEG 2000, PNG and CCSDS packed fields are
+ * reported as unsupported; `wgrib2 in.grb2 -set_grib_type c3 -grib_out out.grb2`
+ * repacks them.
+ */
+
+// Readers take 1-based octet numbers, as printed in the WMO code tables
+const uint = (s: Uint8Array, octet: number, n: number) => {
+  let v = 0;
+  for (let k = 0; k < n; k++) v = v * 256 + s[octet - 1 + k];
+  return v;
+};
+
+// GRIB stores negative integers as sign and magnitude
+const int = (s: Uint8Array, octet: number, n: number) => {
+  const v = uint(s, octet, n);
+  const sign = 2 ** (8 * n - 1);
+  return v >= sign ? sign - v : v;
+};
+
+const float = (s: Uint8Array, octet: number) => new DataView(s.buffer, s.byteOffset + octet - 1, 4).getFloat32(0);
+
+const isMissing = (s: Uint8Array, octet: number, n: number) => uint(s, octet, n) === 2 ** (8 * n) - 1;
+
+const time = (s: Uint8Array, octet: number) =>
+  Date.UTC(uint(s, octet, 2), s[octet + 1] - 1, s[octet + 2], s[octet + 3], s[octet + 4], s[octet + 5]);
+
+// Reads unsigned integers of up to 32 bits from a packed bit stream
+const bitReader = (bytes: Uint8Array) => {
+  let pos = 0;
+  return {
+    read(bits: number) {
+      let v = 0;
+      while (bits > 0) {
+        const free = 8 - (pos & 7);
+        const take = Math.min(free, bits);
+        v = v * 2 ** take + ((bytes[pos >> 3] >> (free - take)) & ((1 << take) - 1));
+        pos += take;
+        bits -= take;
+      }
+      return v;
+    },
+    // Groups of values start on a whole octet
+    align() {
+      pos = (pos + 7) & ~7;
+    },
+  };
+};
+
+interface Grid {
+  meta: GridMeta;
+  // Scanning mode flags (table 3.4): 0x80 east to west, 0x40 south to north
+  scanMode: number;
+}
+
+interface Product {
+  parameterCategory: number;
+  parameterNumber: number;
+  surface1Type: number;
+  surface1Value: number;
+  forecastTime: number;
+  // Epoch ms; the end of the interval for accumulations and averages
+  validTime: number;
+  // Perturbation number of an ensemble member (4.1, 4.11)
+  member?: number;
+}
+
+interface Packing {
+  template: number;
+  points: number;
+  reference: number;
+  binaryScale: number;
+  decimalScale: number;
+  bits: number;
+  // Complex packing (5.2, 5.3)
+  missing: number;
+  groups: number;
+  widthReference: number;
+  widthBits: number;
+  lengthReference: number;
+  lengthIncrement: number;
+  lastLength: number;
+  lengthBits: number;
+  // Spatial differencing (5.3)
+  order: number;
+  extraOctets: number;
+}
+
+interface Location {
+  offset: number;
+  length: number;
+}
+
+// Common originating centres (common code table C-11), used as the model name
+const CENTRES: Record<number, string> = {
+  7: "NCEP", 34: "JMA", 54: "CMC", 74: "UK Met Office", 78: "DWD", 84: "Météo-France", 85: "Météo-France", 98: "ECMWF",
+};
+
+// Table 4.4 time units in hours
+const TIME_UNIT_HOURS: Record<number, number> = { 0: 1 / 60, 1: 1, 2: 24, 10: 3, 11: 6, 12: 12, 13: 1 / 3600 };
+
+// Octet of the end of the overall time interval in statistically processed products
+const INTERVAL_END_OCTET: Record<number, number> = { 8: 35, 11: 38 };
+
+// Shape of the earth (table 3.2) as a sphere; ellipsoids get the WMO standard radius
+function earthRadius(s: Uint8Array) {
+  switch (s[14]) {
+    case 0: return 6367470;
+    case 1: return uint(s, 17, 4) * 10 ** -s[15];
+    default: return 6371229;
+  }
+}
+
+// Resolution and component flags (table 3.3): 0x08 when U/V follow the grid's axes
+const gridRelative = (flags: number) => (flags & 0x08) !== 0;
+
+function parseGrid(s: Uint8Array): Grid {
+  const template = uint(s, 13, 2);
+  if (template === 30) return parseLambertGrid(s);
+  if (template !== 0 && template !== 1) throw new Error(`grid template 3.${template}`);
+  if (s[10] !== 0) throw new Error("quasi-regular grid");
+  const nx = uint(s, 31, 4), ny = uint(s, 35, 4);
+  // Angles are in micro-degrees unless a basic angle and subdivisions are given
+  const basic = uint(s, 39, 4), subdivisions = uint(s, 43, 4);
+  const unit = basic && !isMissing(s, 39, 4) && !isMissing(s, 43, 4) ? basic / subdivisions : 1e-6;
+  const la1 = int(s, 47, 4) * unit, lo1 = int(s, 51, 4) * unit;
+  const la2 = int(s, 56, 4) * unit, lo2 = int(s, 60, 4) * unit;
+  const scanMode = s[71];
+  if (scanMode & 0x30) throw new Error(`scanning mode ${scanMode}`);
+  const dx = isMissing(s, 64, 4) ? (((lo2 - lo1) % 360 + 360) % 360) / (nx - 1) : uint(s, 64, 4) * unit;
+  const dy = isMissing(s, 68, 4) ? Math.abs(la2 - la1) / (ny - 1) : uint(s, 68, 4) * unit;
+  // Values are reordered north to south, west to east
+  const meta: GridMeta = { nx, ny, lo1: scanMode & 0x80 ? lo2 : lo1, la1: scanMode & 0x40 ? la2 : la1, dx, dy };
+  if (template === 1) {
+    meta.projection = {
+      type: "rotated",
+      southPoleLon: int(s, 77, 4) * unit,
+      southPoleLat: int(s, 73, 4) * unit,
+      angle: float(s, 81),
+      gridRelative: gridRelative(s[54]),
+    };
+  }
+  return { meta, scanMode };
+}
+
+// Lambert conformal (3.30): lo1/la1 become metres on the cone, from the first grid point
+function parseLambertGrid(s: Uint8Array): Grid {
+  const nx = uint(s, 31, 4), ny = uint(s, 35, 4);
+  const scanMode = s[64];
+  if (scanMode & 0x30) throw new Error(`scanning mode ${scanMode}`);
+  const projection: LambertConformal = {
+    type: "lambert",
+    lov: uint(s, 52, 4) * 1e-6,
+    latin1: int(s, 66, 4) * 1e-6,
+    latin2: int(s, 70, 4) * 1e-6,
+    radius: earthRadius(s),
+    gridRelative: gridRelative(s[46]),
+  };
+  const dx = uint(s, 56, 4) * 1e-3, dy = uint(s, 60, 4) * 1e-3;
+  const [x1, y1] = toGridCoords(projection, int(s, 43, 4) * 1e-6, int(s, 39, 4) * 1e-6);
+  return {
+    meta: {
+      nx,
+      ny,
+      lo1: scanMode & 0x80 ? x1 - (nx - 1) * dx : x1,
+      la1: scanMode & 0x40 ? y1 + (ny - 1) * dy : y1,
+      dx,
+      dy,
+      projection,
+    },
+    scanMode,
+  };
+}
+
+function parseProduct(s: Uint8Array, refTime: number): Product {
+  const template = uint(s, 8, 2);
+  if (![0, 1, 8, 11].includes(template)) throw new Error(`product template 4.${template}`);
+  const unitHours = TIME_UNIT_HOURS[s[17]];
+  if (unitHours === undefined) throw new Error(`time unit ${s[17]}`);
+  const forecastTime = int(s, 19, 4) * unitHours;
+  const surface1Type = s[22];
+  let surface1Value = isMissing(s, 24, 1) || isMissing(s, 25, 4) ? 0 : int(s, 25, 4) * 10 ** -int(s, 24, 1);
+  // Isobaric levels are labelled in hPa throughout
+  if (surface1Type === 100) surface1Value /= 100;
+  const end = INTERVAL_END_OCTET[template];
+  return {
+    parameterCategory: s[9],
+    parameterNumber: s[10],
+    surface1Type,
+    surface1Value: Number(surface1Value.toPrecision(6)),
+    forecastTime,
+    validTime: end ? time(s, end) : refTime + forecastTime * 3600e3,
+    ...(template === 1 || template === 11 ? { member: s[35] } : {}),
+  };
+}
+
+function parsePacking(s: Uint8Array): Packing {
+  const template = uint(s, 10, 2);
+  if (![0, 2, 3].includes(template)) {
+    const names: Record<number, string> = { 40: "JPEG 2000", 41: "PNG", 42: "CCSDS" };
+    throw new Error(`${names[template] ?? "data representation template 5." + template} packing`);
+  }
+  const complex = template !== 0;
+  return {
+    template,
+    points: uint(s, 6, 4),
+    reference: float(s, 12),
+    binaryScale: int(s, 16, 2),
+    decimalScale: int(s, 18, 2),
+    bits: s[19],
+    missing: complex ? s[22] : 0,
+    groups: complex ? uint(s, 32, 4) : 0,
+    widthReference: complex ? s[35] : 0,
+    widthBits: complex ? s[36] : 0,
+    lengthReference: complex ? uint(s, 38, 4) : 0,
+    lengthIncrement: complex ? s[41] : 0,
+    lastLength: complex ? uint(s, 43, 4) : 0,
+    lengthBits: complex ? s[46] : 0,
+    order: template === 3 ? s[47] : 0,
+    extraOctets: template === 3 ? s[48] : 0,
+  };
+}
+
+// Packed integers of the non-missing points, and which points are missing
+function unpackComplex(p: Packing, data: Uint8Array) {
+  const bits = bitReader(data);
+  const first: number[] = [];
+  let minimum = 0;
+  if (p.order > 0) {
+    for (let k = 0; k < p.order; k++) first.push(bits.read(p.extraOctets * 8));
+    const sign = bits.read(1);
+    minimum = bits.read(p.extraOctets * 8 - 1) * (sign ? -1 : 1);
+  }
+  const refs = Array.from({ length: p.groups }, () => bits.read(p.bits));
+  bits.align();
+  const widths = Array.from({ length: p.groups }, () => p.widthReference + bits.read(p.widthBits));
+  bits.align();
+  const lengths = Array.from({ length: p.groups }, () => p.lengthReference + bits.read(p.lengthBits) * p.lengthIncrement);
+  if (p.groups) lengths[p.groups - 1] = p.lastLength;
+  bits.align();
+
+  const values = new Float64Array(p.points);
+  const missing = new Uint8Array(p.points);
+  const refMissing = 2 ** p.bits - 1;
+  let n = 0;
+  for (let g = 0; g < p.groups; g++) {
+    const width = widths[g];
+    const valueMissing = 2 ** width - 1;
+    for (let k = 0; k < lengths[g] && n < p.points; k++, n++) {
+      if (width === 0) {
+        if (p.missing && (refs[g] === refMissing || (p.missing === 2 && refs[g] === refMissing - 1))) missing[n] = 1;
+        else values[n] = refs[g];
+        continue;
+      }
+      const v = bits.read(width);
+      if (p.missing && (v === valueMissing || (p.missing === 2 && v === valueMissing - 1))) missing[n] = 1;
+      else values[n] = refs[g] + v;
+    }
+  }
+
+  // Undo first or second order differencing over the points that have values
+  if (p.order > 0) {
+    let count = 0, prev1 = 0, prev2 = 0;
+    for (let k = 0; k < p.points; k++) {
+      if (missing[k]) continue;
+      let v: number;
+      if (count < p.order) v = first[count];
+      else if (p.order === 1) v = values[k] + minimum + prev1;
+      else v = values[k] + minimum + 2 * prev1 - prev2;
+      values[k] = v;
+      prev2 = prev1;
+      prev1 = v;
+      count++;
+    }
+  }
+  return { values, missing };
+}
+
+function unpack(p: Packing, data: Uint8Array): Float32Array {
+  const scale = 2 ** p.binaryScale, decimal = 10 ** -p.decimalScale;
+  const out = new Float32Array(p.points);
+  if (p.template === 0) {
+    const bits = bitReader(data);
+    for (let k = 0; k < p.points; k++) out[k] = (p.reference + (p.bits ? bits.read(p.bits) : 0) * scale) * decimal;
+    return out;
+  }
+  const { values, missing } = unpackComplex(p, data);
+  for (let k = 0; k < p.points; k++) out[k] = missing[k] ? NaN : (p.reference + values[k] * scale) * decimal;
+  return out;
+}
+
+// Spreads packed values over the grid through the bitmap and orders rows north to south
+function arrange(values: Float32Array, bitmap: Uint8Array | null, grid: Grid) {
+  const { nx, ny } = grid.meta;
+  let field = values;
+  if (bitmap) {
+    field = new Float32Array(nx * ny);
+    let n = 0;
+    for (let k = 0; k < field.length; k++) {
+      field[k] = (bitmap[k >> 3] >> (7 - (k & 7))) & 1 ? values[n++] : NaN;
+    }
+  }
+  if (field.length !== nx * ny) throw new Error(`GRIB2 field has ${field.length} values, grid needs ${nx * ny}`);
+  if (!(grid.scanMode & 0xc0)) return field;
+  const out = new Float32Array(nx * ny);
+  for (let j = 0; j < ny; j++) {
+    const row = grid.scanMode & 0x40 ? ny - 1 - j : j;
+    for (let i = 0; i < nx; i++) {
+      out[j * nx + i] = field[row * nx + (grid.scanMode & 0x80 ? nx - 1 - i : i)];
+    }
+  }
+  return out;
+}
+
+// A section that can't be handled is kept as the error, so only its fields are skipped
+const parse = <T>(f: () => T) => {
+  try {
+    return f();
+  } catch (error) {
+    return error instanceof Error ? error : new Error(String(error));
+  }
+};
+
+const isGrib = (bytes: Uint8Array) => bytes[0] === 0x47 && bytes[1] === 0x52 && bytes[2] === 0x49 && bytes[3] === 0x42;
+
+/**
+ * Lists the fields of every GRIB2 message in a file. Fields on grids or with
+ * products this reader doesn't handle are left out with a warning; unsupported
+ * packing is only reported when the field is read.
+ */
+export async function scanGrib2(source: ByteSource): Promise<ScanResult> {
+  const records: IngestRecord[] = [];
+  const warnings: string[] = [];
+  let offset = 0;
+  while (offset + 16 <= source.size) {
+    const s0 = await source.read(offset, 16);
+    if (!isGrib(s0)) {
+      if (offset === 0) throw new Error("Not a GRIB file");
+      // Padding after the last message
+      break;
+    }
+    if (s0[7] !== 2) {
+      warnings.push(`Skipped a GRIB edition ${s0[7]} message at byte ${offset}`);
+      offset += s0[7] === 1 ? uint(s0, 5, 3) : source.size;
+      continue;
+    }
+    const discipline = s0[6];
+    const total = uint(s0, 9, 8);
+    const end = offset + total - 4;
+    let refTime = NaN, centre = "";
+    let grid: Grid | Error | null = null;
+    let product: Product | Error | null = null;
+    let packing: Packing | Error | null = null;
+    let bitmap: Location | null = null;
+
+    for (let pos = offset + 16; pos < end;) {
+      const head = await source.read(pos, 6);
+      const length = uint(head, 1, 4), number = head[4];
+      if (length < 5) throw new Error(`Corrupt GRIB2 section at byte ${pos}`);
+      if (number === 6) {
+        // 254 keeps the bitmap defined earlier in the message
+        if (head[5] === 0) bitmap = { offset: pos + 6, length: length - 6 };
+        else if (head[5] === 255) bitmap = null;
+      } else if (number === 7) {
+        if (!grid || !product || !packing) {
+          throw new Error(`GRIB2 data section without grid, product or packing at byte ${pos}`);
+        }
+        if (grid instanceof Error || product instanceof Error) {
+          const problem = grid instanceof Error ? grid : product as Error;
+          warnings.push(`Skipped a field at byte ${pos}: unsupported ${problem.message}`);
+        } else {
+          const record = gribRecord(source, discipline, refTime, grid, product, packing, bitmap, { offset: pos + 5, length: length - 5 });
+          records.push({ ...record, model: centre });
+        }
+      } else {
+        const s = await source.read(pos, length);
+        if (number === 1) {
+          refTime = time(s, 13);
+          centre = CENTRES[uint(s, 6, 2)] ?? `Centre ${uint(s, 6, 2)}`;
+        }
+        else if (number === 3) grid = parse(() => parseGrid(s));
+        else if (number === 4) product = parse(() => parseProduct(s, refTime));
+        else if (number === 5) packing = parse(() => parsePacking(s));
+      }
+      pos += length;
+    }
+    offset += total;
+  }
+  return { records, warnings };
+}
+
+function gribRecord(
+  source: ByteSource,
+  discipline: number,
+  refTime: number,
+  grid: Grid,
+  product: Product,
+  packing: Packing | Error,
+  bitmap: Location | null,
+  data: Location
+): IngestRecord {
+  const { validTime, member, ...parameters } = product;
+  const header: GribHeader = {
+    discipline,
+    ...parameters,
+    ...grid.meta,
+    refTime: new Date(refTime).toISOString(),
+  };
+  return {
+    header,
+    validTime: new Date(validTime).toISOString(),
+    ...(member !== undefined ? { member } : {}),
+    async read() {
+      if (packing instanceof Error) throw new Error(`Unsupported GRIB2 ${packing.message}`);
+      const values = unpack(packing, await source.read(data.offset, data.length));
+      return arrange(values, bitmap && await source.read(bitmap.offset, bitmap.length), grid);
+    },
+  };
+}
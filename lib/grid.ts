@@ -0,0 +1,144 @@
+import { type GridProjection, fromGridCoords, toGridCoords } from "./gridProjection";
+
+/**
+ * Grid helpers shared by the globe renderer and the readouts: regular lat/lon
+ * grids, and rotated-pole and Lambert conformal ones (see gridProjection.ts)
+ */
+
+export interface GridMeta {
+  nx: number;
+  ny: number;
+  // First column and top row, and spacing; in the projection's coordinates if any
+  lo1: number;
+  la1: number;
+  dx: number;
+  dy: number;
+  projection?: GridProjection;
+}
+
+// Just the grid of a record header
+export const gridMetaOf = ({ nx, ny, lo1, la1, dx, dy, projection }: GridMeta): GridMeta =>
+  projection ? { nx, ny, lo1, la1, dx, dy, projection } : { nx, ny, lo1, la1, dx, dy };
+
+const projectionKey = (projection?: GridProjection) => JSON.stringify({ ...projection, gridRelative: undefined });
+
+// Whether two fields share a grid, so they can be combined point by point
+export const sameGrid = (a: GridMeta, b: GridMeta) =>
+  a.nx === b.nx && a.ny === b.ny && a.lo1 === b.lo1 && a.la1 === b.la1 && a.dx === b.dx && a.dy === b.dy &&
+  projectionKey(a.projection) === projectionKey(b.projection);
+
+// Whether the grid goes all the way round in longitude; regional grids don't
+export const wrapsLongitude = (meta: GridMeta) =>
+  meta.projection?.type !== "lambert" && Math.abs(meta.nx * meta.dx - 360) < meta.dx / 2;
+
+// Wraps longitude into the [-180, 180] range
+export const normalizeLon = (lon: number) => {
+  let normalized = ((lon + 180) % 360) - 180;
+  if (normalized < -180) normalized += 360;
+  if (normalized > 180) normalized -= 360;
+  return normalized;
+};
+
+export interface GridBounds {
+  // Degrees; east is past 180 for grids across the date line
+  west: number;
+  east: number;
+  south: number;
+  north: number;
+}
+
+// Geographic lon/lat of a (fractional) grid point
+export function gridPointLonLat(meta: GridMeta, i: number, j: number): [number, number] {
+  const x = meta.lo1 + i * meta.dx, y = meta.la1 - j * meta.dy;
+  return meta.projection ? fromGridCoords(meta.projection, x, y) : [normalizeLon(x), y];
+}
+
+// The area a grid covers: every longitude for global grids; the box around the outline of projected ones
+export function gridBounds(meta: GridMeta): GridBounds {
+  const { nx, ny, lo1, la1, dx, dy } = meta;
+  if (meta.projection && !wrapsLongitude(meta)) {
+    const ring = gridOutline(meta);
+    const lons = ring.map(p => p[0]), lats = ring.map(p => p[1]);
+    return {
+      west: Math.min(...lons),
+      east: Math.max(...lons),
+      south: Math.min(...lats),
+      north: Math.max(...lats),
+    };
+  }
+  const west = wrapsLongitude(meta) ? -180 : normalizeLon(lo1);
+  return {
+    west,
+    east: wrapsLongitude(meta) ? 180 : west + (nx - 1) * dx,
+    south: Math.max(-90, la1 - (ny - 1) * dy),
+    north: Math.min(90, la1),
+  };
+}
+
+/**
+ * Boundary of a regional grid as a closed ring of lon/lat points, `perEdge`
+ * points along each side
+ */
+export function gridOutline(meta: GridMeta, perEdge = 100): [number, number][] {
+  const right = meta.nx - 1, bottom = meta.ny - 1;
+  const edge = (from: [number, number], to: [number, number]) =>
+    Array.from({ length: perEdge }, (_, k) => gridPointLonLat(
+      meta,
+      from[0] + ((to[0] - from[0]) * k) / perEdge,
+      from[1] + ((to[1] - from[1]) * k) / perEdge
+    ));
+  const ring = [
+    ...edge([0, 0], [right, 0]),
+    ...edge([right, 0], [right, bottom]),
+    ...edge([right, bottom], [0, bottom]),
+    ...edge([0, bottom], [0, 0]),
+  ];
+  return [...ring, ring[0]];
+}
+
+/**
+ * Bilinear sample of a grid field at lon/lat, wrapping in longitude on global
+ * grids. Returns NaN outside the grid or where data is missing.
+ */
+export function sampleGrid(meta: GridMeta, A: Float32Array, lon: number, lat: number): number {
+  const { nx, ny, lo1, la1, dx, dy, projection } = meta;
+  const wraps = wrapsLongitude(meta);
+  const [x, y] = projection ? toGridCoords(projection, lon, lat) : [lon, lat];
+  const i = projection?.type === "lambert" ? (x - lo1) / dx : ((normalizeLon(x) - lo1 + 720) % 360) / dx;
+  if (!wraps && !(i >= 0 && i <= nx - 1)) return NaN;
+  const j = (la1 - y) / dy;
+  if (!(j >= 0 && j <= ny - 1)) return NaN;
+  // The last column of a regional grid samples the cell to its west, the last row the one to its north
+  const i0 = wraps ? Math.floor(i) : Math.min(Math.floor(i), nx - 2), j0 = Math.min(Math.floor(j), ny - 2);
+  const fi = i - i0, fj = j - j0;
+  const idx = (jj: number, ii: number) => jj * nx + ((ii % nx) + nx) % nx;
+
+  const g00 = A[idx(j0, i0)],
+    g10 = A[idx(j0, i0 + 1)],
+    g01 = A[idx(j0 + 1, i0)],
+    g11 = A[idx(j0 + 1, i0 + 1)];
+  if (g00 === undefined || g01 === undefined) return NaN;
+  return g00 * (1 - fi) * (1 - fj) +
+    g10 * fi * (1 - fj) +
+    g01 * (1 - fi) * fj +
+    g11 * fi * fj;
+}
+
+/**
+ * Neighbouring time steps and blend weight for a fractional time position
+ */
+export const timeBlend = (pos: number, count: number) => {
+  const t = Math.max(0, Math.min(count - 1, pos));
+  const t0 = Math.floor(t);
+  return { t0, t1: Math.min(t0 + 1, count - 1), f: t - t0 };
+};
+
+/**
+ * Samples a field stored as one frame per time step, blending linearly in time
+ */
+export function sampleFrames(meta: GridMeta, frames: Float32Array[], pos: number, lon: number, lat: number): number {
+  const { t0, t1, f } = timeBlend(pos, frames.length);
+  const a = sampleGrid(meta, frames[t0], lon, lat);
+  if (f === 0 || t0 === t1) return a;
+  return a + (sampleGrid(meta, frames[t1], lon, lat) - a) * f;
+}
@@ -0,0 +1,115 @@
+import type { GridMeta } from "./grid";
+
+/**
+ * Projected model grids. A grid with a projection gives lo1, la1, dx and dy in
+ * its own coordinates: rotated longitude and latitude in degrees for
+ * rotated-pole grids, metres on the cone for Lambert conformal grids (first
+ * column and top row, x east and y north). The transforms treat the earth as a
+ * sphere.
+ */
+
+export interface RotatedPole {
+  type: "rotated";
+  // Southern pole of the rotated grid, degrees (e.g. 10, -40 for COSMO-DE)
+  southPoleLon: number;
+  southPoleLat: number;
+  // Rotation about the new polar axis, degrees
+  angle?: number;
+  // U and V are along the grid's x and y axes rather than east and north
+  gridRelative?: boolean;
+}
+
+export interface LambertConformal {
+  type: "lambert";
+  // Longitude parallel to the y axis, degrees
+  lov: number;
+  // Standard parallels, degrees; equal for a tangent cone
+  latin1: number;
+  latin2: number;
+  // Earth radius, m
+  radius: number;
+  gridRelative?: boolean;
+}
+
+export type GridProjection = RotatedPole | LambertConformal;
+
+const DEG = Math.PI / 180;
+
+const wrap180 = (lon: number) => ((((lon + 180) % 360) + 360) % 360) - 180;
+
+// Cone constant n and the scaled F of the spherical Lambert conformal projection
+export function lambertCone({ latin1, latin2, radius }: LambertConformal) {
+  const p1 = latin1 * DEG, p2 = latin2 * DEG;
+  const t = (p: number) => Math.tan(Math.PI / 4 + p / 2);
+  const n = Math.abs(latin1 - latin2) < 1e-9
+    ? Math.sin(p1)
+    : Math.log(Math.cos(p1) / Math.cos(p2)) / Math.log(t(p2) / t(p1));
+  return { n, rf: (radius * Math.cos(p1) * t(p1) ** n) / n };
+}
+
+/**
+ * Grid coordinates of a geographic point: rotated lon/lat, or x/y in metres
+ * from the cone's apex
+ */
+export function toGridCoords(projection: GridProjection, lon: number, lat: number): [number, number] {
+  if (projection.type === "rotated") {
+    const theta = (90 + projection.southPoleLat) * DEG;
+    const l = (lon - projection.southPoleLon) * DEG, p = lat * DEG;
+    const x = Math.cos(p) * Math.cos(l), y = Math.cos(p) * Math.sin(l), z = Math.sin(p);
+    const xr = Math.cos(theta) * x + Math.sin(theta) * z;
+    const zr = -Math.sin(theta) * x + Math.cos(theta) * z;
+    return [
+      wrap180(Math.atan2(y, xr) / DEG - (projection.angle ?? 0)),
+      Math.asin(Math.max(-1, Math.min(1, zr))) / DEG,
+    ];
+  }
+  const { n, rf } = lambertCone(projection);
+  const rho = rf / Math.tan(Math.PI / 4 + (lat * DEG) / 2) ** n;
+  const theta = n * wrap180(lon - projection.lov) * DEG;
+  return [rho * Math.sin(theta), -rho * Math.cos(theta)];
+}
+
+// Geographic lon/lat of grid coordinates; the inverse of toGridCoords()
+export function fromGridCoords(projection: GridProjection, gx: number, gy: number): [number, number] {
+  if (projection.type === "rotated") {
+    const theta = (90 + projection.southPoleLat) * DEG;
+    const l = (gx + (projection.angle ?? 0)) * DEG, p = gy * DEG;
+    const xr = Math.cos(p) * Math.cos(l), y = Math.cos(p) * Math.sin(l), zr = Math.sin(p);
+    const x = Math.cos(theta) * xr - Math.sin(theta) * zr;
+    const z = Math.sin(theta) * xr + Math.cos(theta) * zr;
+    return [
+      wrap180(Math.atan2(y, x) / DEG + projection.southPoleLon),
+      Math.asin(Math.max(-1, Math.min(1, z))) / DEG,
+    ];
+  }
+  const { n, rf } = lambertCone(projection);
+  const sign = Math.sign(n);
+  const rho = sign * Math.hypot(gx, gy);
+  const theta = Math.atan2(sign * gx, -sign * gy);
+  return [
+    wrap180(projection.lov + theta / n / DEG),
+    (2 * Math.atan((rf / rho) ** (1 / n)) - Math.PI / 2) / DEG,
+  ];
+}
+
+/**
+ * Rotates grid-relative U/V to east and north components in place, using the
+ * direction of the grid's x axis at each point (both projections are conformal,
+ * so y stays at right angles to it)
+ */
+export function toEarthRelative(meta: GridMeta, U: Float32Array, V: Float32Array) {
+  const { nx, ny, lo1, la1, dx, dy, projection } = meta;
+  if (!projection) return;
+  const step = dx * 0.01;
+  for (let j = 0; j < ny; j++) {
+    for (let i = 0; i < nx; i++) {
+      const gx = lo1 + i * dx, gy = la1 - j * dy;
+      const [lon1, lat1] = fromGridCoords(projection, gx, gy);
+      const [lon2, lat2] = fromGridCoords(projection, gx + step, gy);
+      const alpha = Math.atan2(lat2 - lat1, wrap180(lon2 - lon1) * Math.cos(lat1 * DEG));
+      const k = j * nx + i, u = U[k], v = V[k];
+      U[k] = u * Math.cos(alpha) - v * Math.sin(alpha);
+      V[k] = u * Math.sin(alpha) + v * Math.cos(alpha);
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import * as THREE from "three";
+import type { GridMeta } from "./grid";
+import { lambertCone } from "./gridProjection";
+
+/**
+ * Grid fields on the GPU: packed as RGBA float textures (r, g = values,
+ * b = 1 where valid) and sampled with the same bilinear lookup as sampleGrid(),
+ * wrapping in longitude on global grids. Rotated-pole and Lambert grids are
+ * sampled through the same transforms as gridProjection.ts. A regional grid can
+ * have a global background grid, sampled where the regional one has no data.
+ */
+
+export function createGridTexture(meta: GridMeta, A: Float32Array, B?: Float32Array) {
+  const { nx, ny } = meta;
+  const data = new Float32Array(nx * ny * 4);
+  for (let k = 0; k < nx * ny; k++) {
+    const a = A[k], b = B ? B[k] : 0;
+    const valid = Number.isFinite(a) && Number.isFinite(b);
+    data[4 * k] = valid ? a : 0;
+    data[4 * k + 1] = valid ? b : 0;
+    data[4 * k + 2] = valid ? 1 : 0;
+    data[4 * k + 3] = 1;
+  }
+  const texture = new THREE.DataTexture(data, nx, ny, THREE.RGBAFormat, THREE.FloatType);
+  texture.magFilter = THREE.NearestFilter;
+  texture.minFilter = THREE.NearestFilter;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+// Two time steps of the background grid's field and the blend between them
+export interface BackgroundFields {
+  field0: THREE.Texture;
+  field1: THREE.Texture;
+  blend: number;
+}
+
+// Projection type (0 lat/lon, 1 rotated pole, 2 Lambert) and its parameters for toGridCoords()
+const projectionParams = ({ projection }: GridMeta): [number, THREE.Vector4] => {
+  if (projection?.type === "rotated") {
+    const theta = THREE.MathUtils.degToRad(90 + projection.southPoleLat);
+    return [1, new THREE.Vector4(projection.southPoleLon, Math.sin(theta), Math.cos(theta), projection.angle ?? 0)];
+  }
+  if (projection?.type === "lambert") {
+    const { n, rf } = lambertCone(projection);
+    return [2, new THREE.Vector4(projection.lov, n, rf, 0)];
+  }
+  return [0, new THREE.Vector4()];
+};
+
+export const gridUniforms = (meta: GridMeta, background?: GridMeta | null) => {
+  const [type, params] = projectionParams(meta);
+  const [backType, backParams] = background ? projectionParams(background) : [0, new THREE.Vector4()];
+  return {
+    uGeo: { value: new THREE.Vector4(meta.lo1, meta.la1, meta.dx, meta.dy) },
+    uGrid: { value: new THREE.Vector2(meta.nx, meta.ny) },
+    uGridProj: { value: type },
+    uGridProjParams: { value: params },
+    uBackGeo: { value: new THREE.Vector4(background?.lo1, background?.la1, background?.dx ?? 1, background?.dy ?? 1) },
+    uBackGrid: { value: new THREE.Vector2(background?.nx ?? 0, background?.ny ?? 0) },
+    uBackProj: { value: backType },
+    uBackProjParams: { value: backParams },
+  };
+};
+
+export const GRID_SAMPLING_GLSL = /* glsl */ `
+  uniform vec4 uGeo; // lo1, la1, dx, dy
+  uniform vec2 uGrid; // nx, ny
+  uniform int uGridProj;
+  uniform vec4 uGridProjParams;
+  uniform vec4 uBackGeo; // of the background grid, if any
+  uniform vec2 uBackGrid; // 0, 0 without one
+  uniform int uBackProj;
+  uniform vec4 uBackProjParams;
+
+  // Rotated lon/lat (params: south pole lon, sin and cos of its colatitude
+  // tilt, angle) or Lambert x/y in metres (params: lov, n, R F)
+  vec2 toGridCoords(int type, vec4 p, vec2 lonLat) {
+    if (type == 1) {
+      float l = radians(lonLat.x - p.x);
+      float phi = radians(lonLat.y);
+      vec3 v = vec3(cos(phi) * cos(l), cos(phi) * sin(l), sin(phi));
+      float xr = p.z * v.x + p.y * v.z;
+      float zr = -p.y * v.x + p.z * v.z;
+      return vec2(mod(degrees(atan(v.y, xr)) - p.w + 540.0, 360.0) - 180.0, degrees(asin(clamp(zr, -1.0, 1.0))));
+    }
+    if (type == 2) {
+      float rho = p.z / pow(tan(radians(45.0 + 0.5 * lonLat.y)), p.y);
+      float theta = p.y * radians(mod(lonLat.x - p.x + 540.0, 360.0) - 180.0);
+      return vec2(rho * sin(theta), -rho * cos(theta));
+    }
+    return lonLat;
+  }
+
+  vec3 gridTexel(sampler2D tex, int nx, int i, int j) {
+    return texelFetch(tex, ivec2((i % nx + nx) % nx, j), 0).rgb;
+  }
+
+  // z is 1 only when all four surrounding grid points are valid, so it's 0
+  // outside a regional grid
+  vec3 sampleGridOn(sampler2D tex, vec4 geo, vec2 grid, int type, vec4 params, vec2 lonLat) {
+    vec2 c = toGridCoords(type, params, lonLat);
+    float fi = type == 2 ? (c.x - geo.x) / geo.z : mod(c.x - geo.x + 720.0, 360.0) / geo.z;
+    float fj = (geo.y - c.y) / geo.w;
+    int nx = int(grid.x), ny = int(grid.y);
+    bool wraps = type != 2 && abs(grid.x * geo.z - 360.0) < 0.5 * geo.z;
+    if (fj < 0.0 || fj > float(ny - 1) || (!wraps && (fi < 0.0 || fi > float(nx - 1)))) return vec3(0.0);
+    // The last row and column of a regional grid sample the cell before them, as sampleGrid() does
+    int i0 = wraps ? int(floor(fi)) : min(int(floor(fi)), nx - 2);
+    int j0 = min(int(floor(fj)), ny - 2);
+    vec2 f = vec2(fi - float(i0), fj - float(j0));
+    vec3 g00 = gridTexel(tex, nx, i0, j0);
+    vec3 g10 = gridTexel(tex, nx, i0 + 1, j0);
+    vec3 g01 = gridTexel(tex, nx, i0, j0 + 1);
+    vec3 g11 = gridTexel(tex, nx, i0 + 1, j0 + 1);
+    vec2 v = mix(mix(g00.xy, g10.xy, f.x), mix(g01.xy, g11.xy, f.x), f.y);
+    return vec3(v, min(min(g00.z, g10.z), min(g01.z, g11.z)));
+  }
+
+  vec3 sampleGridTexture(sampler2D tex, vec2 lonLat) {
+    return sampleGridOn(tex, uGeo, uGrid, uGridProj, uGridProjParams, lonLat);
+  }
+
+  vec3 sampleBackgroundTexture(sampler2D tex, vec2 lonLat) {
+    return uBackGrid.x > 0.0 ? sampleGridOn(tex, uBackGeo, uBackGrid, uBackProj, uBackProjParams, lonLat) : vec3(0.0);
+  }
+`;
@@ -0,0 +1,210 @@
+import { type CatalogueRun, type DataCatalogue, type DataManifest, type GribHeader, type LevelInfo, VARIABLES, type VariableInfo, levelInfo, levelSlug, runQuery, timeSlug } from "./dataSource";
+import { scanGrib2 } from "./grib2";
+import { gridMetaOf } from "./grid";
+import { scanNetcdf } from "./netcdf";
+
+/**
+ * Ingestion of model output (GRIB2 and NetCDF) into the records the globe
+ * consumes: a GRIB-style header per 2D field, with values read on demand. The
+ * fields API (app/api/fields) catalogues them per model run, variable, level and
+ * valid time and serves each slice as a SKYF file; a DataManifest per variable
+ * lets the static file source read them like files under public/data too.
+ */
+
+// Random access to a file's bytes
+export interface ByteSource {
+  size: number;
+  read(offset: number, length: number): Promise<Uint8Array>;
+}
+
+export interface IngestRecord {
+  header: GribHeader;
+  // Producing centre or model, when the file says
+  model?: string;
+  // Ensemble member (perturbation number), for ensemble products
+  member?: number;
+  // ISO 8601
+  validTime: string;
+  read(): Promise<Float32Array>;
+}
+
+export interface ScanResult {
+  records: IngestRecord[];
+  // Fields or files left out, for the server log
+  warnings: string[];
+}
+
+/**
+ * Serves small reads from blocks of the underlying source, so scanning many
+ * section headers doesn't cost a read each; larger reads go straight through
+ */
+export function bufferedSource(source: ByteSource, blockSize = 65536): ByteSource {
+  let block: { offset: number; bytes: Uint8Array } | null = null;
+  return {
+    size: source.size,
+    async read(offset, length) {
+      if (length > blockSize) return source.read(offset, length);
+      if (!block || offset < block.offset || offset + length > block.offset + block.bytes.byteLength) {
+        block = { offset, bytes: await source.read(offset, Math.min(blockSize, source.size - offset)) };
+      }
+      return block.bytes.subarray(offset - block.offset, offset - block.offset + length);
+    },
+  };
+}
+
+const startsWith = (bytes: Uint8Array, text: string) => [...text].every((c, i) => bytes[i] === c.charCodeAt(0));
+
+// Picks the reader by the file's magic number
+export async function scanFile(source: ByteSource): Promise<ScanResult> {
+  const magic = await source.read(0, 4);
+  if (startsWith(magic, "GRIB")) return scanGrib2(source);
+  if (startsWith(magic, "CDF")) return scanNetcdf(source);
+  if (startsWith(magic, "\x89HDF")) {
+    throw new Error("NetCDF-4 (HDF5) files are not supported; convert with `nccopy -k cdf5 in.nc out.nc`");
+  }
+  throw new Error("Not a GRIB2 or NetCDF file");
+}
+
+// "20250803_00z", as in the file names of the static data
+const cycleName = (refTime: string) => `${refTime.slice(0, 10).replace(/-/g, "")}_${refTime.slice(11, 13)}z`;
+
+export interface VariableSlices {
+  model: string;
+  refTime: string;
+  member?: number;
+  // Valid times, ascending
+  times: string[];
+  // Surface and height levels first, then pressure levels from the ground up
+  levels: LevelInfo[];
+  // Records of each component, keyed by component key
+  slice(levelId: string, validTime: string): Record<string, IngestRecord> | undefined;
+}
+
+// A model run; either part left out picks the newest run that has the variable.
+// The member defaults to the lowest (the control run, in most ensembles).
+export interface RunSelection {
+  model?: string;
+  refTime?: string;
+  member?: number;
+}
+
+const modelOf = (record: IngestRecord) => record.model ?? "Unknown";
+
+// Ensemble members among the records, ascending
+const runMembers = (records: IngestRecord[]) =>
+  [...new Set(records.flatMap(r => (r.member === undefined ? [] : [r.member])))].sort((a, b) => a - b);
+
+/**
+ * Fields of one variable from one run. A slice exists where every component of
+ * the variable (U and V for wind) is present; a run that repeats a field keeps
+ * the last one found.
+ */
+export function indexVariable(variable: VariableInfo, records: IngestRecord[], run: RunSelection = {}): VariableSlices | null {
+  const keyOf = (header: GribHeader) => variable.components.find(c =>
+    c.parameterCategory === header.parameterCategory &&
+    c.parameterNumber === header.parameterNumber &&
+    (header.discipline ?? 0) === 0
+  )?.key;
+  const matching = records.filter(r =>
+    keyOf(r.header) &&
+    (run.model === undefined || modelOf(r) === run.model) &&
+    (run.refTime === undefined || r.header.refTime === run.refTime) &&
+    (run.member === undefined || r.member === run.member)
+  );
+  if (!matching.length) return null;
+  const newest = matching.reduce((a, b) => (b.header.refTime! > a.header.refTime! ? b : a));
+  const model = modelOf(newest), refTime = newest.header.refTime!;
+  const inRun = matching.filter(r => r.header.refTime === refTime && modelOf(r) === model);
+  const member = run.member ?? runMembers(inRun)[0];
+
+  const slices = new Map<string, Record<string, IngestRecord>>();
+  const levels = new Map<string, LevelInfo>();
+  for (const record of inRun) {
+    if (record.member !== member) continue;
+    const level = levelInfo(record.header);
+    const key = `${level.id}|${record.validTime}`;
+    const components = slices.get(key) ?? {};
+    components[keyOf(record.header)!] = record;
+    slices.set(key, components);
+    levels.set(level.id, level);
+  }
+  const complete = new Map([...slices].filter(([, c]) => variable.components.every(({ key }) => c[key])));
+  const times = [...new Set([...complete.keys()].map(k => k.split("|")[1]))].sort();
+  const isPressure = (l: LevelInfo) => l.surface1Type === 100;
+  if (!times.length) return null;
+  return {
+    model,
+    refTime,
+    ...(member !== undefined ? { member } : {}),
+    times,
+    levels: [...levels.values()]
+      .filter(l => times.some(t => complete.has(`${l.id}|${t}`)))
+      .sort((a, b) =>
+        Number(isPressure(a)) - Number(isPressure(b)) ||
+        (isPressure(a) ? b.surface1Value - a.surface1Value : a.surface1Type - b.surface1Type || a.surface1Value - b.surface1Value)
+      ),
+    slice: (levelId, validTime) => complete.get(`${levelId}|${validTime}`),
+  };
+}
+
+/**
+ * The manifest the static file source reads, with slice paths relative to the
+ * fields API: `<variable>/<level>/<time>`
+ */
+export function sliceManifest(variable: VariableInfo, slices: VariableSlices): DataManifest {
+  return {
+    cycle: cycleName(slices.refTime),
+    times: slices.times.map(validTime => ({
+      validTime,
+      forecastHour: Math.round((Date.parse(validTime) - Date.parse(slices.refTime)) / 3600e3),
+      files: slices.levels
+        .filter(level => slices.slice(level.id, validTime))
+        .map(level => `${variable.id}/${levelSlug(level)}/${timeSlug(validTime)}${runQuery(slices)}`),
+    })),
+  };
+}
+
+/**
+ * Every model run in the records with the variables it has complete fields
+ * for (of its first member) and its ensemble members if it has several; runs
+ * newest first, and by model name within a reference time
+ */
+export function buildCatalogue(records: IngestRecord[]): DataCatalogue {
+  const runs = new Map<string, CatalogueRun>();
+  for (const record of records) {
+    const model = modelOf(record), refTime = record.header.refTime!;
+    const key = `${refTime}|${model}`;
+    if (runs.has(key)) continue;
+    const variables = VARIABLES.flatMap(v => {
+      const slices = indexVariable(v, records, { model, refTime });
+      if (!slices) return [];
+      const { levels, times } = slices;
+      const components = times.map(t => slices.slice(levels[0].id, t)).find(Boolean)!;
+      const grid = gridMetaOf(Object.values(components)[0].header);
+      return [{ id: v.id, name: v.name, units: v.units, levels, times, grid }];
+    });
+    const members = runMembers(records.filter(r => modelOf(r) === model && r.header.refTime === refTime));
+    runs.set(key, { model, refTime, variables, ...(members.length > 1 ? { members } : {}) });
+  }
+  return {
+    runs: [...runs.values()]
+      .filter(run => run.variables.length)
+      .sort((a, b) => (a.refTime < b.refTime ? 1 : a.refTime > b.refTime ? -1 : a.model.localeCompare(b.model))),
+  };
+}
+
+/**
+ * The run named by `model`, `run` (a time slug) and `member` query parameters,
+ * as used by the fields API routes
+ */
+export function runSelection(query: URLSearchParams): RunSelection {
+  const model = query.get("model") ?? undefined;
+  const run = query.get("run");
+  const match = run && /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})Z$/.exec(run);
+  const member = query.get("member");
+  return {
+    model,
+    refTime: match ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3], +match[4], +match[5])).toISOString() : undefined,
+    member: member && /^\d+$/.test(member) ? Number(member) : undefined,
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Meteorological conversions used by the readouts
+ */
+
+const COMPASS_POINTS = [
+  "N", "NNE", "NE", "ENE", "E", "ESE", "SE", "SSE",
+  "S", "SSW", "SW", "WSW", "W", "WNW", "NW", "NNW",
+];
+
+export const windSpeed = (u: number, v: number) => Math.sqrt(u * u + v * v);
+
+// Direction the wind blows FROM, in degrees clockwise from north
+export const windDirection = (u: number, v: number) =>
+  (270 - Math.atan2(v, u) * 180 / Math.PI + 360) % 360;
+
+export const compassPoint = (deg: number) =>
+  COMPASS_POINTS[Math.round(deg / 22.5) % 16];
+
+export const kelvinToC = (k: number) => k - 273.15;
+export const kelvinToF = (k: number) => (k - 273.15) * 9 / 5 + 32;
+export const msToKnots = (ms: number) => ms * 1.943844;
+
+// Standard sea-level pressure, used to place surface / height-above-ground levels
+export const SURFACE_PRESSURE = 1013.25;
+
+// Pressure in hPa from a level label such as "850 hPa"; NaN for height or surface levels
+export const levelPressure = (label: string) => {
+  const match = /^([\d.]+)\s*hPa$/.exec(label);
+  const p = match ? Number(match[1]) : NaN;
+  return p > 0 ? p : NaN;
+};
+
+// Wind speed for every grid point; NaN where either component is missing
+export const windSpeedField = (U: Float32Array, V: Float32Array) => {
+  const S = new Float32Array(U.length);
+  for (let j = 0; j < U.length; j++) {
+    const u = U[j], v = V[j];
+    S[j] = (Number.isFinite(u) && Number.isFinite(v)) ? Math.sqrt(u * u + v * v) : NaN;
+  }
+  return S;
+};
@@ -0,0 +1,321 @@
+import { type GribHeader, VARIABLES, unitConversion } from "./dataSource";
+import type { ByteSource, IngestRecord, ScanResult } from "./ingest";
+
+/**
+ * NetCDF classic reader (CDF-1, 64-bit offset CDF-2 and CDF-5) for CF-style
+ * files on regular lat/lon grids. Variables are recognised by standard_name or
+ * a common short name (ERA5, NCEP reanalysis, GFS converted with wgrib2), and
+ * each 2D slice becomes a record with a GRIB-style header, so NetCDF data is
+ * served like GRIB2. Values are unpacked with scale_factor, add_offset and
+ * _FillValue and converted to the units of the matching GRIB parameter.
+ */
+
+type AttributeValue = string | number[];
+
+interface NcVariable {
+  name: string;
+  dims: number[];
+  attributes: Record<string, AttributeValue>;
+  type: number;
+  begin: number;
+}
+
+interface NcHeader {
+  version: number;
+  records: number;
+  dims: { name: string; length: number }[];
+  variables: NcVariable[];
+}
+
+// Bytes per value of each nc_type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 4, 6: 8, 7: 1, 8: 2, 9: 4, 10: 8, 11: 8 };
+
+// Fill values of variables that don't set _FillValue
+const DEFAULT_FILLS: Record<number, number> = { 3: -32767, 4: -2147483647, 5: Math.fround(9.969209968386869e36), 6: 9.969209968386869e36 };
+
+const pad4 = (n: number) => (n + 3) & ~3;
+
+// Values of one nc_type starting at a byte offset (big-endian)
+function readValues(view: DataView, offset: number, type: number, count: number, out: number[] | Float64Array = new Array(count)) {
+  const size = TYPE_SIZES[type];
+  if (!size) throw new Error(`Unknown NetCDF type ${type}`);
+  for (let k = 0; k < count; k++) {
+    const o = offset + k * size;
+    switch (type) {
+      case 1: out[k] = view.getInt8(o); break;
+      case 2: case 7: out[k] = view.getUint8(o); break;
+      case 3: out[k] = view.getInt16(o); break;
+      case 4: out[k] = view.getInt32(o); break;
+      case 5: out[k] = view.getFloat32(o); break;
+      case 6: out[k] = view.getFloat64(o); break;
+      case 8: out[k] = view.getUint16(o); break;
+      case 9: out[k] = view.getUint32(o); break;
+      default: out[k] = view.getUint32(o) * 2 ** 32 + view.getUint32(o + 4);
+    }
+  }
+  return out;
+}
+
+// Throws a RangeError when the header runs past the bytes read so far
+function parseHeader(bytes: Uint8Array): NcHeader {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = bytes[3];
+  if (![1, 2, 5].includes(version)) throw new Error(`Unsupported NetCDF version ${version}`);
+  let pos = 4;
+  const need = (n: number) => {
+    if (pos + n > bytes.byteLength) throw new RangeError("NetCDF header truncated");
+  };
+  const u32 = () => {
+    need(4);
+    pos += 4;
+    return view.getUint32(pos - 4);
+  };
+  const u64 = () => u32() * 2 ** 32 + u32();
+  // Counts and lengths are 64-bit in CDF-5, file offsets in CDF-2 and CDF-5
+  const count = () => (version === 5 ? u64() : u32());
+  const offset = () => (version === 1 ? u32() : u64());
+  const name = () => {
+    const n = count();
+    need(pad4(n));
+    const text = new TextDecoder().decode(bytes.subarray(pos, pos + n));
+    pos += pad4(n);
+    return text;
+  };
+  const list = <T>(tag: number, item: () => T) => {
+    const found = u32();
+    const n = count();
+    if (found !== tag && !(found === 0 && n === 0)) throw new Error("Corrupt NetCDF header");
+    return Array.from({ length: n }, item);
+  };
+  const attributes = () => Object.fromEntries(list(0x0c, () => {
+    const key = name();
+    const type = u32();
+    const n = count();
+    need(pad4(n * TYPE_SIZES[type]));
+    const value: AttributeValue = type === 2
+      ? new TextDecoder().decode(bytes.subarray(pos, pos + n)).replace(/\0+$/, "")
+      : readValues(view, pos, type, n) as number[];
+    pos += pad4(n * TYPE_SIZES[type]);
+    return [key, value] as const;
+  }));
+
+  const records = count();
+  const dims = list(0x0a, () => ({ name: name(), length: count() }));
+  attributes();
+  const variables = list(0x0b, () => {
+    const variable = { name: name(), dims: [], attributes: {}, type: 0, begin: 0 } as NcVariable;
+    variable.dims = Array.from({ length: count() }, count);
+    variable.attributes = attributes();
+    variable.type = u32();
+    count();
+    variable.begin = offset();
+    return variable;
+  });
+  return { version, records, dims, variables };
+}
+
+async function readHeader(source: ByteSource) {
+  for (let length = 65536; ; length *= 4) {
+    try {
+      return parseHeader(await source.read(0, Math.min(length, source.size)));
+    } catch (error) {
+      if (!(error instanceof RangeError) || length >= source.size) throw error;
+    }
+  }
+}
+
+// CF standard names and common short names of each component's GRIB parameter
+const COMPONENT_NAMES: Record<string, { standard: string[]; names: string[] }> = {
+  U: { standard: ["eastward_wind"], names: ["u", "ugrd", "uwnd", "u10", "u100"] },
+  V: { standard: ["northward_wind"], names: ["v", "vgrd", "vwnd", "v10", "v100"] },
+  T: { standard: ["air_temperature"], names: ["t", "tmp", "air", "t2m"] },
+  P: { standard: ["air_pressure_at_mean_sea_level", "air_pressure_at_sea_level"], names: ["msl", "prmsl", "mslp", "slp"] },
+  RH: { standard: ["relative_humidity"], names: ["r", "rh", "rhum"] },
+  PWAT: { standard: ["atmosphere_mass_content_of_water_vapor"], names: ["tcwv", "pwat", "pr_wtr"] },
+  PRATE: { standard: ["precipitation_flux"], names: ["prate", "mtpr"] },
+  TCDC: { standard: ["cloud_area_fraction"], names: ["tcc", "tcdc", "clt"] },
+};
+
+// GRIB surface of fields without a vertical coordinate: a height in the name (u10, t2m) or the variable's usual one
+const SURFACES: Record<string, [number, number]> = { U: [103, 10], V: [103, 10], T: [103, 2], P: [101, 0], RH: [103, 2], PWAT: [200, 0], PRATE: [1, 0], TCDC: [200, 0] };
+
+const COMPONENTS = VARIABLES.flatMap(v => v.components);
+
+const attribute = (v: NcVariable, key: string) => {
+  const value = v.attributes[key];
+  return typeof value === "string" ? value : "";
+};
+
+const componentOf = (v: NcVariable) => {
+  const standard = attribute(v, "standard_name"), name = v.name.toLowerCase();
+  return Object.keys(COMPONENT_NAMES).find(key => COMPONENT_NAMES[key].standard.includes(standard)) ??
+    Object.keys(COMPONENT_NAMES).find(key => COMPONENT_NAMES[key].names.includes(name));
+};
+
+// Seconds per time unit of a CF "<units> since <date>" attribute
+const TIME_UNITS: Record<string, number> = { second: 1, minute: 60, hour: 3600, day: 86400 };
+
+const timeAxis = (units: string) => {
+  const match = /^\s*(second|minute|hour|day)s?\s+since\s+(\d{4}-\d{1,2}-\d{1,2})(?:[T\s]+(\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?))?\s*(Z|UTC|[+-]\d{2}:?\d{2})?/i.exec(units);
+  if (!match) return null;
+  const [, unit, date, clock = "00:00:00", zone] = match;
+  const [y, m, d] = date.split("-").map(Number);
+  const [hh, mm, ss = 0] = clock.split(":").map(Number);
+  let epoch = Date.UTC(y, m - 1, d, hh, mm, ss);
+  if (zone && !/^(Z|UTC)$/i.test(zone)) {
+    const sign = zone[0] === "-" ? -1 : 1, digits = zone.slice(1).replace(":", "");
+    epoch -= sign * (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2))) * 60e3;
+  }
+  return (value: number) => epoch + value * TIME_UNITS[unit.toLowerCase()] * 1000;
+};
+
+/**
+ * Lists every 2D slice of the recognised variables in a NetCDF classic file.
+ * Variables must end in latitude and longitude dimensions, optionally led by
+ * time and one vertical coordinate (pressure or height); others are skipped.
+ */
+export async function scanNetcdf(source: ByteSource): Promise<ScanResult> {
+  const header = await readHeader(source);
+  const warnings: string[] = [];
+  const byName = new Map(header.variables.map(v => [v.name, v]));
+  // Coordinate variables share their dimension's name
+  const coordinate = (dim: number) => byName.get(header.dims[dim].name);
+  // Record variables are interleaved, one slab of each per record
+  const isRecord = (v: NcVariable) => v.dims.length > 0 && header.dims[v.dims[0]].length === 0;
+  const slabSize = (v: NcVariable) => v.dims.slice(isRecord(v) ? 1 : 0).reduce((p, d) => p * header.dims[d].length, 1) * TYPE_SIZES[v.type];
+  const recordVariables = header.variables.filter(isRecord);
+  const recordSize = recordVariables.length === 1
+    ? slabSize(recordVariables[0])
+    : recordVariables.reduce((sum, v) => sum + pad4(slabSize(v)), 0);
+  const dimLength = (d: number) => header.dims[d].length || header.records;
+
+  // All values of a (small) variable, such as a coordinate
+  const readVariable = async (v: NcVariable) => {
+    const slabs = isRecord(v) ? header.records : 1;
+    const values: number[] = [];
+    for (let r = 0; r < slabs; r++) {
+      const bytes = await source.read(v.begin + r * recordSize, slabSize(v));
+      values.push(...readValues(new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength), 0, v.type, slabSize(v) / TYPE_SIZES[v.type]));
+    }
+    return values;
+  };
+
+  const referenceVariable = byName.get("forecast_reference_time") ?? byName.get("reftime");
+  const records: IngestRecord[] = [];
+  for (const v of header.variables) {
+    const key = componentOf(v);
+    if (!key || v.dims.length < 2) continue;
+    const skip = (reason: string) => warnings.push(`Skipped NetCDF variable ${v.name}: ${reason}`);
+    const latVar = coordinate(v.dims[v.dims.length - 2]), lonVar = coordinate(v.dims[v.dims.length - 1]);
+    if (!latVar || !lonVar || !/north/.test(attribute(latVar, "units")) || !/east/.test(attribute(lonVar, "units"))) {
+      skip("last two dimensions are not latitude and longitude");
+      continue;
+    }
+    const lats = await readVariable(latVar), lons = await readVariable(lonVar);
+    const dx = lons[1] - lons[0], dy = lats[0] - lats[1];
+    const regular = (values: number[], step: number) =>
+      values.every((x, i) => i === 0 || Math.abs(x - values[i - 1] - step) < Math.abs(step) * 1e-3);
+    if (!(dx > 0) || !dy || !regular(lons, dx) || !regular(lats, -dy)) {
+      skip("not a regular latitude/longitude grid");
+      continue;
+    }
+    const nx = lons.length, ny = lats.length;
+
+    // Leading dimensions: time (any position before the grid) and at most one vertical coordinate
+    let times = [NaN], timeDim = -1, levels: [number, number][] = [SURFACES[key]], levelDim = -1;
+    const height = /(\d+)m?$/.exec(v.name.toLowerCase().replace(/^[a-z]+/, ""));
+    if (height && SURFACES[key][0] === 103) levels = [[103, Number(height[1])]];
+    let supported = true;
+    for (const [position, d] of v.dims.slice(0, -2).entries()) {
+      const axis = coordinate(d);
+      const units = axis ? attribute(axis, "units") : "";
+      const toTime = timeAxis(units);
+      const values = axis ? await readVariable(axis) : [];
+      if (toTime) {
+        times = values.map(toTime);
+        timeDim = position;
+      } else if (/^(pa|hpa|mbar|millibars?)$/i.test(units) || attribute(axis!, "standard_name") === "air_pressure") {
+        levels = values.map(p => [100, Number((/^pa$/i.test(units) ? p / 100 : p).toPrecision(6))]);
+        levelDim = position;
+      } else if (/^(m|meters?|metres?)$/i.test(units)) {
+        levels = values.map(h => [103, h]);
+        levelDim = position;
+      } else if (dimLength(d) !== 1) {
+        skip(`unsupported dimension ${header.dims[d].name}`);
+        supported = false;
+        break;
+      }
+    }
+    if (!supported) continue;
+    // A single time may be a scalar coordinate
+    const scalarTime = byName.get("time");
+    const toScalarTime = scalarTime && !scalarTime.dims.length && timeAxis(attribute(scalarTime, "units"));
+    if (timeDim < 0 && toScalarTime) times = [toScalarTime((await readVariable(scalarTime))[0])];
+    if (!Number.isFinite(times[0])) {
+      skip("no time coordinate");
+      continue;
+    }
+
+    const component = COMPONENTS.find(c => c.key === key)!;
+    const [factor, shift] = unitConversion(key, attribute(v, "units"));
+    const numeric = (k: string) => {
+      const value = v.attributes[k];
+      return Array.isArray(value) ? value : [];
+    };
+    const scale = numeric("scale_factor")[0] ?? 1, add = numeric("add_offset")[0] ?? 0;
+    const fills = [...numeric("_FillValue"), ...numeric("missing_value")];
+    if (!fills.length && DEFAULT_FILLS[v.type] !== undefined) fills.push(DEFAULT_FILLS[v.type]);
+    const refTime = referenceVariable ? timeAxis(attribute(referenceVariable, "units"))?.((await readVariable(referenceVariable))[0]) : undefined;
+    const run = refTime ?? Math.min(...times);
+    // Element strides of the leading dimensions, the record dimension excepted
+    const shape = v.dims.map(dimLength);
+    const strides = shape.map((_, i) => shape.slice(i + 1).reduce((p, n) => p * n, 1));
+
+    times.forEach((validTime, t) => {
+      levels.forEach(([surface1Type, surface1Value], l) => {
+        let element = 0, recordOffset = 0;
+        for (const [position, index] of [[timeDim, t], [levelDim, l]]) {
+          if (position < 0) continue;
+          if (position === 0 && isRecord(v)) recordOffset = index * recordSize;
+          else element += index * strides[position];
+        }
+        const gribHeader: GribHeader = {
+          discipline: 0,
+          parameterCategory: component.parameterCategory,
+          parameterNumber: component.parameterNumber,
+          surface1Type,
+          surface1Value,
+          nx,
+          ny,
+          lo1: lons[0],
+          la1: Math.max(lats[0], lats[ny - 1]),
+          dx,
+          dy: Math.abs(dy),
+          refTime: new Date(run).toISOString(),
+          forecastTime: (validTime - run) / 3600e3,
+        };
+        records.push({
+          header: gribHeader,
+          validTime: new Date(validTime).toISOString(),
+          async read() {
+            const size = TYPE_SIZES[v.type];
+            const bytes = await source.read(v.begin + recordOffset + element * size, nx * ny * size);
+            const raw = readValues(new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength), 0, v.type, nx * ny, new Float64Array(nx * ny));
+            const out = new Float32Array(nx * ny);
+            // Rows are stored south to north when latitude ascends
+            const flip = dy < 0;
+            for (let j = 0; j < ny; j++) {
+              const row = (flip ? ny - 1 - j : j) * nx;
+              for (let i = 0; i < nx; i++) {
+                const x = raw[row + i];
+                out[j * nx + i] = fills.includes(x) || Number.isNaN(x) ? NaN : (x * scale + add) * factor + shift;
+              }
+            }
+            return out;
+          },
+        });
+      });
+    });
+  }
+  return { records, warnings };
+}
@@ -0,0 +1,349 @@
+import type { RGBA } from "./scalarOverlay";
+import type { StaticJsonVariable, VariableId } from "./dataSource";
+import {
+  COLORMAPS,
+  colormapById,
+  cloudColorScale,
+  divergingColorScale,
+  humidityColorScale,
+  precipitableWaterColorScale,
+  precipitationColorScale,
+  pressureColorScale,
+  scaleTicks,
+  sinebowColorScale,
+  temperatureColorScale,
+} from "./colormaps";
+
+/**
+ * Scalar overlays shown on the globe. Each entry says where its data lives,
+ * which field component it colours, how raw values convert to display units,
+ * and the range and colormap used for both the overlay and its legend.
+ */
+
+export type OverlayId = "wind" | "temperature" | "mslp" | "humidity" | "pwat" | "precipitation" | "cloud";
+
+// Fields computed from the loaded wind and temperature (see lib/diagnostics.ts)
+export type DiagnosticId = "vorticity" | "divergence" | "shear" | "advection";
+
+// Wind speed and temperature compared between runs (A − B) or across ensemble members
+export type ComparisonId = "windDifference" | "temperatureDifference" | "windSpread" | "temperatureSpread";
+
+// How an overlay is labelled and coloured; shared by overlays and their legends
+export interface OverlayScale {
+  id: OverlayId | DiagnosticId | ComparisonId;
+  // Short name for the overlay selector
+  label: string;
+  name: string;
+  // Display value = raw * scale + offset, in `units`
+  units: string;
+  // Converted to the user's preferred units (lib/units.ts); speeds in m/s, temperatures in °C
+  quantity?: "speed" | "temperature";
+  scale?: number;
+  offset?: number;
+  min: number;
+  max: number;
+  // Logarithmic between min and max (min > 0)
+  log?: boolean;
+  ticks: number[];
+  // Spacing of contour lines, in display units
+  contourInterval: number;
+  // Contour values instead of even spacing (e.g. Beaufort force limits)
+  contourLevels?: number[];
+  // Text for a display value on ticks, contour labels and readouts; the number by default
+  format?: (value: number) => string;
+  alpha: number;
+  // Colour for position t in [0, 1] across min..max
+  colormap: (t: number, alpha: number) => RGBA;
+}
+
+export interface OverlayDefinition extends OverlayScale {
+  id: OverlayId;
+  variable: VariableId;
+  // Field component coloured by the overlay, e.g. wind speed S or temperature T
+  component: string;
+  data: StaticJsonVariable;
+}
+
+export interface DiagnosticDefinition extends OverlayScale {
+  id: DiagnosticId;
+}
+
+export const OVERLAYS: OverlayDefinition[] = [
+  {
+    id: "wind",
+    variable: "wind",
+    component: "S",
+    label: "Wind",
+    name: "Wind speed",
+    data: { dir: "/data/winddata", manifest: "wind_uv_manifest.json" },
+    units: "m/s",
+    quantity: "speed",
+    min: 0,
+    max: 100,
+    ticks: [0, 20, 40, 60, 80, 100],
+    contourInterval: 10,
+    alpha: 0.4,
+    colormap: sinebowColorScale,
+  },
+  {
+    id: "temperature",
+    variable: "temperature",
+    component: "T",
+    label: "Temp",
+    name: "Temperature",
+    data: { dir: "/data/temperature", manifest: "temp_manifest.json" },
+    // Sources deliver temperatures in Kelvin (see unitConversion in lib/dataSource.ts)
+    units: "°C",
+    quantity: "temperature",
+    offset: -273.15,
+    min: -80,
+    max: 50,
+    ticks: [-60, -40, -20, 0, 20, 40],
+    contourInterval: 5,
+    alpha: 0.28,
+    colormap: temperatureColorScale,
+  },
+  {
+    id: "mslp",
+    variable: "mslp",
+    component: "P",
+    label: "MSLP",
+    name: "Mean sea level pressure",
+    data: { dir: "/data/mslp", manifest: "mslp_manifest.json" },
+    units: "hPa",
+    scale: 0.01,
+    min: 960,
+    max: 1050,
+    ticks: [970, 990, 1010, 1030, 1050],
+    contourInterval: 4,
+    alpha: 0.4,
+    colormap: pressureColorScale,
+  },
+  {
+    id: "humidity",
+    variable: "humidity",
+    component: "RH",
+    label: "RH",
+    name: "Relative humidity",
+    data: { dir: "/data/humidity", manifest: "rh_manifest.json" },
+    units: "%",
+    min: 0,
+    max: 100,
+    ticks: [0, 25, 50, 75, 100],
+    contourInterval: 20,
+    alpha: 0.4,
+    colormap: humidityColorScale,
+  },
+  {
+    id: "pwat",
+    variable: "pwat",
+    component: "PWAT",
+    label: "PWAT",
+    name: "Total precipitable water",
+    data: { dir: "/data/pwat", manifest: "pwat_manifest.json" },
+    units: "mm",
+    min: 0,
+    max: 70,
+    ticks: [0, 20, 40, 60],
+    contourInterval: 10,
+    alpha: 0.4,
+    colormap: precipitableWaterColorScale,
+  },
+  {
+    id: "precipitation",
+    variable: "precipitation",
+    component: "PRATE",
+    label: "Precip",
+    name: "Precipitation rate",
+    data: { dir: "/data/precipitation", manifest: "prate_manifest.json" },
+    // kg/m²/s is mm/s of water
+    units: "mm/h",
+    scale: 3600,
+    min: 0,
+    max: 20,
+    ticks: [0, 5, 10, 15, 20],
+    contourInterval: 2,
+    alpha: 0.6,
+    colormap: precipitationColorScale,
+  },
+  {
+    id: "cloud",
+    variable: "cloud",
+    component: "TCDC",
+    label: "Cloud",
+    name: "Total cloud cover",
+    data: { dir: "/data/cloud", manifest: "tcdc_manifest.json" },
+    units: "%",
+    min: 0,
+    max: 100,
+    ticks: [0, 25, 50, 75, 100],
+    contourInterval: 25,
+    alpha: 0.6,
+    colormap: cloudColorScale,
+  },
+];
+
+// Diverging scales are symmetric around zero
+export const DIAGNOSTICS: DiagnosticDefinition[] = [
+  {
+    id: "vorticity",
+    label: "Vort",
+    name: "Relative vorticity",
+    units: "10⁻⁵ s⁻¹",
+    scale: 1e5,
+    min: -20,
+    max: 20,
+    ticks: [-20, -10, 0, 10, 20],
+    contourInterval: 5,
+    alpha: 0.6,
+    colormap: divergingColorScale,
+  },
+  {
+    id: "divergence",
+    label: "Div",
+    name: "Divergence",
+    units: "10⁻⁵ s⁻¹",
+    scale: 1e5,
+    min: -10,
+    max: 10,
+    ticks: [-10, -5, 0, 5, 10],
+    contourInterval: 2,
+    alpha: 0.6,
+    colormap: divergingColorScale,
+  },
+  {
+    id: "shear",
+    label: "Shear",
+    name: "Bulk wind shear",
+    units: "m/s",
+    quantity: "speed",
+    min: 0,
+    max: 40,
+    ticks: [0, 10, 20, 30, 40],
+    contourInterval: 10,
+    alpha: 0.6,
+    // A magnitude, so sequential like wind speed
+    colormap: sinebowColorScale,
+  },
+  {
+    id: "advection",
+    label: "T adv",
+    name: "Temperature advection",
+    units: "K/h",
+    scale: 3600,
+    min: -2,
+    max: 2,
+    ticks: [-2, -1, 0, 1, 2],
+    contourInterval: 0.5,
+    alpha: 0.6,
+    colormap: divergingColorScale,
+  },
+];
+
+// What the wind and temperature overlays show: the field, A − B or A and B side by side
+// (with a second run loaded), or the ensemble mean or spread (for runs with members)
+export type ComparisonMode = "off" | "difference" | "swipe" | "mean" | "spread";
+
+export interface ComparisonDefinition extends OverlayScale {
+  id: ComparisonId;
+  base: OverlayId;
+  mode: "difference" | "spread";
+}
+
+// Differences are in K rather than a temperature unit, which would shift them
+export const COMPARISONS: ComparisonDefinition[] = [
+  {
+    id: "windDifference",
+    base: "wind",
+    mode: "difference",
+    label: "Wind A − B",
+    name: "Wind speed difference",
+    units: "m/s",
+    min: -15,
+    max: 15,
+    ticks: [-15, -10, -5, 0, 5, 10, 15],
+    contourInterval: 5,
+    alpha: 0.6,
+    colormap: divergingColorScale,
+  },
+  {
+    id: "temperatureDifference",
+    base: "temperature",
+    mode: "difference",
+    label: "Temp A − B",
+    name: "Temperature difference",
+    units: "K",
+    min: -6,
+    max: 6,
+    ticks: [-6, -4, -2, 0, 2, 4, 6],
+    contourInterval: 2,
+    alpha: 0.6,
+    colormap: divergingColorScale,
+  },
+  {
+    id: "windSpread",
+    base: "wind",
+    mode: "spread",
+    label: "Wind spread",
+    name: "Wind speed ensemble spread",
+    units: "m/s",
+    min: 0,
+    max: 10,
+    ticks: [0, 2, 4, 6, 8, 10],
+    contourInterval: 2,
+    alpha: 0.6,
+    colormap: COLORMAPS[0].ramp,
+  },
+  {
+    id: "temperatureSpread",
+    base: "temperature",
+    mode: "spread",
+    label: "Temp spread",
+    name: "Temperature ensemble spread",
+    units: "K",
+    min: 0,
+    max: 4,
+    ticks: [0, 1, 2, 3, 4],
+    contourInterval: 1,
+    alpha: 0.6,
+    colormap: COLORMAPS[0].ramp,
+  },
+];
+
+export const overlayById = (id: string) => OVERLAYS.find(o => o.id === id);
+export const diagnosticById = (id: string) => DIAGNOSTICS.find(d => d.id === id);
+// The scale of an overlay shown as a difference or spread; undefined for other modes
+export const comparisonScale = (overlay: string, mode: ComparisonMode) =>
+  COMPARISONS.find(c => c.base === overlay && c.mode === mode);
+
+// Data location of every registered variable, for createStaticJsonSource / createWorkerSource
+export const overlayDataSources = () =>
+  Object.fromEntries(OVERLAYS.map(o => [o.variable, o.data])) as Partial<Record<VariableId, StaticJsonVariable>>;
+
+// User changes to an overlay's colours; unset fields keep the overlay's own
+export interface ColorSettings {
+  // Preset from COLORMAPS; the overlay's colormap when unset
+  colormap?: string;
+  min?: number;
+  max?: number;
+  log?: boolean;
+  reverse?: boolean;
+}
+
+/**
+ * The overlay scale with user colour settings applied. The overlay, its legend
+ * and exported legends all draw from the result. Ranges that are empty fall back
+ * to the overlay's, and log scaling needs a positive minimum.
+ */
+export function withColorSettings<T extends OverlayScale>(def: T, settings?: ColorSettings): T {
+  if (!settings) return def;
+  let { min, max } = settings;
+  min ??= def.min;
+  max ??= def.max;
+  if (!(max > min)) ({ min, max } = def);
+  const log = !!settings.log && min > 0;
+  const base = colormapById(settings.colormap)?.ramp ?? def.colormap;
+  const colormap = settings.reverse ? (t: number, alpha: number) => base(1 - t, alpha) : base;
+  const rescaled = min !== def.min || max !== def.max || log !== !!def.log;
+  return { ...def, min, max, log, colormap, ticks: rescaled ? scaleTicks(min, max, log) : def.ticks };
+}
@@ -0,0 +1,282 @@
+import * as THREE from "three";
+
+/**
+ * Flat map projections for the 2D views. Each projection maps lon/lat to x, y
+ * on a plane (in globe radius units, so the layers keep their sizes) and back.
+ * PROJECTION_GLSL mirrors the same formulas for the overlay and particle shaders.
+ */
+
+export type ProjectionId =
+  | "globe"
+  | "equirectangular"
+  | "mercator"
+  | "orthographic"
+  | "polarNorth"
+  | "polarSouth"
+  | "robinson";
+
+export type FlatProjectionId = Exclude<ProjectionId, "globe">;
+
+export const PROJECTIONS: { id: ProjectionId; label: string; name: string }[] = [
+  { id: "globe", label: "Globe", name: "3D globe" },
+  { id: "equirectangular", label: "Equirect", name: "Equirectangular" },
+  { id: "mercator", label: "Mercator", name: "Mercator" },
+  { id: "orthographic", label: "Ortho", name: "Orthographic" },
+  { id: "polarNorth", label: "Polar N", name: "North polar stereographic" },
+  { id: "polarSouth", label: "Polar S", name: "South polar stereographic" },
+  { id: "robinson", label: "Robinson", name: "Robinson" },
+];
+
+export interface MapProjection {
+  id: FlatProjectionId;
+  // Central meridian, and the centre latitude of the orthographic view, in degrees
+  lon0: number;
+  lat0: number;
+  radius: number;
+  // Plane position of lon/lat, or null where the map doesn't show it
+  forward(lon: number, lat: number): [number, number] | null;
+  // lon/lat at a plane position, or null off the map
+  inverse(x: number, y: number): [number, number] | null;
+  // Whether the segment between two nearby points crosses the map's edge
+  breaks(lonA: number, lonB: number): boolean;
+}
+
+// Uniform index of each projection in PROJECTION_GLSL; 0 is the globe
+const PROJECTION_INDEX: Record<ProjectionId, number> = {
+  globe: 0,
+  equirectangular: 1,
+  mercator: 2,
+  orthographic: 3,
+  polarNorth: 4,
+  polarSouth: 5,
+  robinson: 6,
+};
+
+// Projections cut along the meridian opposite the centre
+const SEAMED: FlatProjectionId[] = ["equirectangular", "mercator", "robinson"];
+
+const MERCATOR_MAX_LAT = 85;
+
+// Robinson's table at 5° steps of latitude: parallel length and distance from the equator
+const ROBINSON_X = [
+  1.0, 0.9986, 0.9954, 0.99, 0.9822, 0.973, 0.96, 0.9427, 0.9216, 0.8962,
+  0.8679, 0.835, 0.7986, 0.7597, 0.7186, 0.6732, 0.6213, 0.5722, 0.5322,
+];
+const ROBINSON_Y = [
+  0.0, 0.062, 0.124, 0.186, 0.248, 0.31, 0.372, 0.434, 0.4958, 0.5571,
+  0.6176, 0.6769, 0.7346, 0.7903, 0.8435, 0.8936, 0.9394, 0.9761, 1.0,
+];
+const ROBINSON_XS = 0.8487;
+const ROBINSON_YS = 1.3523;
+
+const DEG = Math.PI / 180;
+
+// Longitude relative to the central meridian, in [-180, 180)
+const relativeLon = (lon: number, lon0: number) => ((((lon - lon0 + 180) % 360) + 360) % 360) - 180;
+
+const robinsonRow = (absLat: number) => {
+  const f = Math.min(absLat, 90) / 5;
+  const i = Math.min(17, Math.floor(f));
+  const t = f - i;
+  return {
+    x: ROBINSON_X[i] + (ROBINSON_X[i + 1] - ROBINSON_X[i]) * t,
+    y: ROBINSON_Y[i] + (ROBINSON_Y[i + 1] - ROBINSON_Y[i]) * t,
+  };
+};
+
+// Latitude for a Robinson table y in [0, 1], by linear search of the table
+const robinsonLat = (y: number) => {
+  for (let i = 0; i < 18; i++) {
+    if (y <= ROBINSON_Y[i + 1]) return (i + (y - ROBINSON_Y[i]) / (ROBINSON_Y[i + 1] - ROBINSON_Y[i])) * 5;
+  }
+  return 90;
+};
+
+export function createProjection(id: FlatProjectionId, lon0: number, lat0: number, radius: number): MapProjection {
+  const R = radius;
+  const sin0 = Math.sin(lat0 * DEG), cos0 = Math.cos(lat0 * DEG);
+  const fromRelative = (λ: number, φ: number): [number, number] =>
+    [relativeLon(λ / DEG + lon0, 0), φ / DEG];
+
+  const forward = (lon: number, lat: number): [number, number] | null => {
+    const λ = relativeLon(lon, lon0) * DEG, φ = lat * DEG;
+    switch (id) {
+      case "equirectangular":
+        return [R * λ, R * φ];
+      case "mercator":
+        if (Math.abs(lat) > MERCATOR_MAX_LAT) return null;
+        return [R * λ, R * Math.log(Math.tan(Math.PI / 4 + φ / 2))];
+      case "orthographic": {
+        const cosC = sin0 * Math.sin(φ) + cos0 * Math.cos(φ) * Math.cos(λ);
+        if (cosC < 0) return null;
+        return [R * Math.cos(φ) * Math.sin(λ), R * (cos0 * Math.sin(φ) - sin0 * Math.cos(φ) * Math.cos(λ))];
+      }
+      case "polarNorth": {
+        if (lat < 0) return null;
+        const ρ = 2 * R * Math.tan(Math.PI / 4 - φ / 2);
+        return [ρ * Math.sin(λ), -ρ * Math.cos(λ)];
+      }
+      case "polarSouth": {
+        if (lat > 0) return null;
+        const ρ = 2 * R * Math.tan(Math.PI / 4 + φ / 2);
+        return [ρ * Math.sin(λ), ρ * Math.cos(λ)];
+      }
+      case "robinson": {
+        const row = robinsonRow(Math.abs(lat));
+        return [ROBINSON_XS * R * row.x * λ, ROBINSON_YS * R * row.y * Math.sign(lat)];
+      }
+    }
+  };
+
+  const inverse = (x: number, y: number): [number, number] | null => {
+    switch (id) {
+      case "equirectangular":
+        if (Math.abs(x) > Math.PI * R || Math.abs(y) > Math.PI / 2 * R) return null;
+        return fromRelative(x / R, y / R);
+      case "mercator": {
+        const φ = 2 * Math.atan(Math.exp(y / R)) - Math.PI / 2;
+        if (Math.abs(x) > Math.PI * R || Math.abs(φ) > MERCATOR_MAX_LAT * DEG) return null;
+        return fromRelative(x / R, φ);
+      }
+      case "orthographic": {
+        const ρ = Math.hypot(x, y) / R;
+        if (ρ > 1) return null;
+        if (ρ === 0) return [lon0, lat0];
+        const c = Math.asin(ρ);
+        const φ = Math.asin(Math.cos(c) * sin0 + (y / R) * Math.sin(c) * cos0 / ρ);
+        const λ = Math.atan2((x / R) * Math.sin(c), ρ * Math.cos(c) * cos0 - (y / R) * Math.sin(c) * sin0);
+        return fromRelative(λ, φ);
+      }
+      case "polarNorth": {
+        const φ = Math.PI / 2 - 2 * Math.atan(Math.hypot(x, y) / (2 * R));
+        if (φ < 0) return null;
+        return fromRelative(Math.atan2(x, -y), φ);
+      }
+      case "polarSouth": {
+        const φ = 2 * Math.atan(Math.hypot(x, y) / (2 * R)) - Math.PI / 2;
+        if (φ > 0) return null;
+        return fromRelative(Math.atan2(x, y), φ);
+      }
+      case "robinson": {
+        const ty = Math.abs(y) / (ROBINSON_YS * R);
+        if (ty > 1) return null;
+        const lat = robinsonLat(ty) * Math.sign(y);
+        const λ = x / (ROBINSON_XS * R * robinsonRow(Math.abs(lat)).x);
+        if (Math.abs(λ) > Math.PI) return null;
+        return fromRelative(λ, lat * DEG);
+      }
+    }
+  };
+
+  const seamed = SEAMED.includes(id);
+  const breaks = (lonA: number, lonB: number) =>
+    seamed && Math.abs(relativeLon(lonA, lon0) - relativeLon(lonB, lon0)) > 180;
+
+  return { id, lon0, lat0, radius, forward, inverse, breaks };
+}
+
+/** Uniforms read by PROJECTION_GLSL; null selects the globe */
+export const projectionUniforms = (projection: MapProjection | null) => ({
+  uProjection: { value: projection ? PROJECTION_INDEX[projection.id] : 0 },
+  uProjCenter: { value: new THREE.Vector2(projection?.lon0 ?? 0, projection?.lat0 ?? 0) },
+  uProjRadius: { value: projection?.radius ?? 1 },
+});
+
+export const PROJECTION_GLSL = /* glsl */ `
+  uniform int uProjection; // 0 = globe
+  uniform vec2 uProjCenter; // lon0, lat0 in degrees
+  uniform float uProjRadius;
+
+  const float ROBINSON_X[19] = float[19](${ROBINSON_X.map(v => v.toFixed(4)).join(", ")});
+  const float ROBINSON_Y[19] = float[19](${ROBINSON_Y.map(v => v.toFixed(4)).join(", ")});
+
+  float relativeLon(float lon) {
+    return mod(lon - uProjCenter.x + 180.0, 360.0) - 180.0;
+  }
+
+  vec2 robinsonRow(float absLat) {
+    float f = min(absLat, 90.0) / 5.0;
+    int i = min(17, int(floor(f)));
+    float t = f - float(i);
+    return vec2(mix(ROBINSON_X[i], ROBINSON_X[i + 1], t), mix(ROBINSON_Y[i], ROBINSON_Y[i + 1], t));
+  }
+
+  // Plane position of lon/lat (degrees); z is 0 where the map doesn't show it
+  vec3 projectLonLat(vec2 lonLat) {
+    float R = uProjRadius;
+    float lambda = radians(relativeLon(lonLat.x));
+    float phi = radians(lonLat.y);
+    if (uProjection == 1) return vec3(R * lambda, R * phi, 1.0);
+    if (uProjection == 2) {
+      return vec3(R * lambda, R * log(tan(0.78539816 + phi / 2.0)), abs(lonLat.y) <= ${MERCATOR_MAX_LAT.toFixed(1)} ? 1.0 : 0.0);
+    }
+    if (uProjection == 3) {
+      float phi0 = radians(uProjCenter.y);
+      float cosC = sin(phi0) * sin(phi) + cos(phi0) * cos(phi) * cos(lambda);
+      return vec3(R * cos(phi) * sin(lambda), R * (cos(phi0) * sin(phi) - sin(phi0) * cos(phi) * cos(lambda)), cosC >= 0.0 ? 1.0 : 0.0);
+    }
+    if (uProjection == 4) {
+      float rho = 2.0 * R * tan(0.78539816 - phi / 2.0);
+      return vec3(rho * sin(lambda), -rho * cos(lambda), lonLat.y >= 0.0 ? 1.0 : 0.0);
+    }
+    if (uProjection == 5) {
+      float rho = 2.0 * R * tan(0.78539816 + phi / 2.0);
+      return vec3(rho * sin(lambda), rho * cos(lambda), lonLat.y <= 0.0 ? 1.0 : 0.0);
+    }
+    vec2 row = robinsonRow(abs(lonLat.y));
+    return vec3(${ROBINSON_XS} * R * row.x * lambda, ${ROBINSON_YS} * R * row.y * sign(lonLat.y), 1.0);
+  }
+
+  // Whether a segment between two nearby points crosses the map's edge
+  bool projectionBreaks(vec2 a, vec2 b) {
+    bool seamed = uProjection == 1 || uProjection == 2 || uProjection == 6;
+    return seamed && abs(relativeLon(a.x) - relativeLon(b.x)) > 180.0;
+  }
+
+  // lon/lat (degrees) at a plane position; z is 0 off the map
+  vec3 unprojectXY(vec2 xy) {
+    float R = uProjRadius;
+    float lambda;
+    float phi;
+    bool inside = true;
+    if (uProjection == 1) {
+      lambda = xy.x / R;
+      phi = xy.y / R;
+      inside = abs(lambda) <= 3.14159265 && abs(phi) <= 1.57079633;
+    } else if (uProjection == 2) {
+      lambda = xy.x / R;
+      phi = 2.0 * atan(exp(xy.y / R)) - 1.57079633;
+      inside = abs(lambda) <= 3.14159265 && abs(degrees(phi)) <= ${MERCATOR_MAX_LAT.toFixed(1)};
+    } else if (uProjection == 3) {
+      float phi0 = radians(uProjCenter.y);
+      float rho = length(xy) / R;
+      inside = rho <= 1.0;
+      float c = asin(min(rho, 1.0));
+      vec2 n = xy / R;
+      phi = rho > 0.0 ? asin(clamp(cos(c) * sin(phi0) + n.y * sin(c) * cos(phi0) / rho, -1.0, 1.0)) : phi0;
+      lambda = atan(n.x * sin(c), rho * cos(c) * cos(phi0) - n.y * sin(c) * sin(phi0));
+    } else if (uProjection == 4) {
+      phi = 1.57079633 - 2.0 * atan(length(xy) / (2.0 * R));
+      lambda = atan(xy.x, -xy.y);
+      inside = phi >= 0.0;
+    } else if (uProjection == 5) {
+      phi = 2.0 * atan(length(xy) / (2.0 * R)) - 1.57079633;
+      lambda = atan(xy.x, xy.y);
+      inside = phi <= 0.0;
+    } else {
+      float ty = abs(xy.y) / (${ROBINSON_YS} * R);
+      inside = ty <= 1.0;
+      float lat = 90.0;
+      for (int i = 0; i < 18; i++) {
+        if (ty <= ROBINSON_Y[i + 1]) {
+          lat = (float(i) + (ty - ROBINSON_Y[i]) / (ROBINSON_Y[i + 1] - ROBINSON_Y[i])) * 5.0;
+          break;
+        }
+      }
+      lambda = xy.x / (${ROBINSON_XS} * R * robinsonRow(lat).x);
+      phi = radians(lat) * sign(xy.y);
+      inside = inside && abs(lambda) <= 3.14159265;
+    }
+    return vec3(mod(degrees(lambda) + uProjCenter.x + 180.0, 360.0) - 180.0, degrees(phi), inside ? 1.0 : 0.0);
+  }
+`;
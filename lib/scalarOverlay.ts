@@ -0,0 +1,186 @@
+import * as THREE from "three";
+import type { GridMeta } from "./grid";
+import { type BackgroundFields, GRID_SAMPLING_GLSL, gridUniforms } from "./gridShader";
+import { type MapProjection, PROJECTION_GLSL, projectionUniforms } from "./projections";
+
+/**
+ * Scalar field overlay drawn on a sphere just above the globe, or on a plane
+ * for flat maps. The fragment shader derives lon/lat from the surface position,
+ * samples the field texture (blended between two time steps) and colours it
+ * through a colormap lookup. Outside a regional grid it shows the background
+ * field if there is one, and nothing otherwise. A clip limits it to one side of
+ * a vertical line on screen, for swiping between two overlays.
+ */
+
+export type RGBA = [number, number, number, number];
+
+export interface ScalarOverlayOptions {
+  radius: number;
+  colormap: THREE.Texture;
+  min: number;
+  max: number;
+  // Colour by log(value) between min and max (min > 0)
+  log?: boolean;
+  // Field values are mapped as value * scale + offset, e.g. offset -273.15 for
+  // Kelvin fields shown in °C, scale 0.01 for Pa shown in hPa
+  scale?: number;
+  offset?: number;
+  // Cover this flat map instead of the globe; radius - projection.radius lifts the plane
+  projection?: MapProjection | null;
+  // Global grid shown around a regional one
+  background?: GridMeta | null;
+}
+
+export interface ScalarOverlay {
+  mesh: THREE.Mesh;
+  update(field0: THREE.Texture, field1: THREE.Texture, blend: number, background?: BackgroundFields | null): void;
+  // Swap the colormap and value mapping; the caller owns (and disposes) the textures
+  setScale(colormap: THREE.Texture, mapping: Pick<ScalarOverlayOptions, "min" | "max" | "log" | "scale" | "offset">): void;
+  // Draw only left or right of x (drawing buffer pixels); null draws everywhere
+  setClip(clip: OverlayClip | null): void;
+  dispose(): void;
+}
+
+export interface OverlayClip {
+  side: "left" | "right";
+  x: number;
+}
+
+/**
+ * Samples a colour function over [0, 1] into a 1D lookup texture.
+ * Colours and alpha are 0-255 and are used as-is (no colour space conversion).
+ */
+export function createColormapTexture(color: (t: number) => RGBA, steps = 256) {
+  const data = new Uint8Array(steps * 4);
+  for (let i = 0; i < steps; i++) {
+    data.set(color(i / (steps - 1)), i * 4);
+  }
+  const texture = new THREE.DataTexture(data, steps, 1, THREE.RGBAFormat);
+  texture.magFilter = THREE.LinearFilter;
+  texture.minFilter = THREE.LinearFilter;
+  texture.wrapS = THREE.ClampToEdgeWrapping;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+const OVERLAY_VERTEX = /* glsl */ `
+  varying vec3 vPos;
+  void main() {
+    vPos = position;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+const OVERLAY_FRAGMENT = /* glsl */ `
+  varying vec3 vPos;
+  uniform sampler2D uField0;
+  uniform sampler2D uField1;
+  uniform sampler2D uBack0;
+  uniform sampler2D uBack1;
+  uniform sampler2D uColormap;
+  uniform float uBlend;
+  uniform float uBackBlend;
+  uniform float uMin;
+  uniform float uMax;
+  uniform bool uLog;
+  uniform float uScale;
+  uniform float uOffset;
+  // -1 keeps the left of uClipX, 1 the right, 0 everything
+  uniform float uClipSide;
+  uniform float uClipX;
+
+${GRID_SAMPLING_GLSL}
+${PROJECTION_GLSL}
+
+  void main() {
+    if (uClipSide * (gl_FragCoord.x - uClipX) < 0.0) discard;
+    vec2 lonLat;
+    if (uProjection == 0) {
+      // Inverse of lonLatToVec3()
+      vec3 n = normalize(vPos);
+      lonLat = vec2(degrees(atan(n.x, n.z)), degrees(asin(clamp(n.y, -1.0, 1.0))));
+    } else {
+      vec3 g = unprojectXY(vPos.xy);
+      if (g.z < 0.5) discard;
+      lonLat = g.xy;
+    }
+    vec3 a = sampleGridTexture(uField0, lonLat);
+    vec3 b = sampleGridTexture(uField1, lonLat);
+    float blend = uBlend;
+    if (min(a.z, b.z) < 0.999) {
+      a = sampleBackgroundTexture(uBack0, lonLat);
+      b = sampleBackgroundTexture(uBack1, lonLat);
+      blend = uBackBlend;
+    }
+    if (min(a.z, b.z) < 0.999) discard;
+    float value = mix(a.x, b.x, blend) * uScale + uOffset;
+    float t = uLog
+      ? log(max(value, uMin) / uMin) / log(uMax / uMin)
+      : (value - uMin) / (uMax - uMin);
+    t = clamp(t, 0.0, 1.0);
+    gl_FragColor = texture(uColormap, vec2(t, 0.5));
+  }
+`;
+
+export function createScalarOverlay(meta: GridMeta, options: ScalarOverlayOptions): ScalarOverlay {
+  const { projection } = options;
+  // Flat maps get a plane large enough for any projection's extent
+  const geometry = projection
+    ? new THREE.PlaneGeometry(8 * projection.radius, 8 * projection.radius).translate(0, 0, options.radius - projection.radius)
+    : new THREE.SphereGeometry(options.radius, 128, 64);
+  const material = new THREE.ShaderMaterial({
+    vertexShader: OVERLAY_VERTEX,
+    fragmentShader: OVERLAY_FRAGMENT,
+    uniforms: {
+      ...gridUniforms(meta, options.background),
+      uField0: { value: null },
+      uField1: { value: null },
+      uBack0: { value: null },
+      uBack1: { value: null },
+      uColormap: { value: options.colormap },
+      uBlend: { value: 0 },
+      uBackBlend: { value: 0 },
+      uMin: { value: options.min },
+      uMax: { value: options.max },
+      uLog: { value: !!options.log },
+      uScale: { value: options.scale ?? 1 },
+      uOffset: { value: options.offset ?? 0 },
+      uClipSide: { value: 0 },
+      uClipX: { value: 0 },
+      ...projectionUniforms(projection ?? null),
+    },
+    transparent: true,
+    depthWrite: false,
+  });
+  const mesh = new THREE.Mesh(geometry, material);
+
+  return {
+    mesh,
+    update(field0, field1, blend, background) {
+      material.uniforms.uField0.value = field0;
+      material.uniforms.uField1.value = field1;
+      material.uniforms.uBlend.value = blend;
+      if (background) {
+        material.uniforms.uBack0.value = background.field0;
+        material.uniforms.uBack1.value = background.field1;
+        material.uniforms.uBackBlend.value = background.blend;
+      }
+    },
+    setScale(colormap, mapping) {
+      material.uniforms.uColormap.value = colormap;
+      material.uniforms.uMin.value = mapping.min;
+      material.uniforms.uMax.value = mapping.max;
+      material.uniforms.uLog.value = !!mapping.log;
+      material.uniforms.uScale.value = mapping.scale ?? 1;
+      material.uniforms.uOffset.value = mapping.offset ?? 0;
+    },
+    setClip(clip) {
+      material.uniforms.uClipSide.value = clip ? (clip.side === "left" ? -1 : 1) : 0;
+      material.uniforms.uClipX.value = clip?.x ?? 0;
+    },
+    dispose() {
+      geometry.dispose();
+      material.dispose();
+    },
+  };
+}
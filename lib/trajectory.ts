@@ -0,0 +1,168 @@
+import { EARTH_RADIUS } from "./diagnostics";
+import { type GridMeta, sampleFrames } from "./grid";
+
+/**
+ * Air parcel trajectories on one level: fourth-order Runge-Kutta steps through
+ * the horizontal wind, forward or backward in time, blending between valid
+ * times as the parcel moves through them (the field is held beyond the first
+ * and last). Positions are integrated as unit vectors, so paths cross the
+ * poles and the date line without special cases.
+ */
+
+export type TrajectoryDirection = "forward" | "backward";
+
+export interface TrajectoryPoint {
+  lon: number;
+  lat: number;
+  // Hours since the first valid time
+  hours: number;
+}
+
+export interface Trajectory {
+  direction: TrajectoryDirection;
+  level: string;
+  points: TrajectoryPoint[];
+  // Great-circle length, m
+  distance: number;
+  // Hours covered; shorter than asked when the parcel leaves the data
+  duration: number;
+  // distance / duration, m/s
+  meanSpeed: number;
+}
+
+export interface WindFrames {
+  meta: GridMeta;
+  U: Float32Array[];
+  V: Float32Array[];
+  // Hours since the first valid time of each frame, ascending
+  times: number[];
+}
+
+export interface TrajectoryOptions {
+  hours: number;
+  direction: TrajectoryDirection;
+  stepMinutes?: number;
+}
+
+const DEG = Math.PI / 180;
+
+type Vec3 = [number, number, number];
+
+const toVector = (lon: number, lat: number): Vec3 => [
+  Math.cos(lat * DEG) * Math.cos(lon * DEG),
+  Math.cos(lat * DEG) * Math.sin(lon * DEG),
+  Math.sin(lat * DEG),
+];
+
+const toLonLat = ([x, y, z]: Vec3) => {
+  const r = Math.hypot(x, y, z);
+  return { lon: Math.atan2(y, x) / DEG, lat: Math.asin(Math.max(-1, Math.min(1, z / r))) / DEG };
+};
+
+/**
+ * Fractional frame index of a time in hours; clamped to the first and last frame
+ */
+export function timeIndex(times: number[], hours: number) {
+  if (times.length < 2 || hours <= times[0]) return 0;
+  for (let t = 1; t < times.length; t++) {
+    if (hours <= times[t]) return t - 1 + (hours - times[t - 1]) / (times[t] - times[t - 1] || 1);
+  }
+  return times.length - 1;
+}
+
+/**
+ * Traces a parcel from lon/lat at `startHours`; ends early where wind data is missing
+ */
+export function traceTrajectory(
+  wind: WindFrames,
+  start: { lon: number; lat: number },
+  startHours: number,
+  options: TrajectoryOptions
+): TrajectoryPoint[] {
+  const { meta, U, V, times } = wind;
+  const sign = options.direction === "forward" ? 1 : -1;
+  const dt = (options.stepMinutes ?? 10) * 60;
+  const steps = Math.ceil((options.hours * 3600) / dt);
+
+  // Velocity on the unit sphere (rad/s along east and north) at a position and time
+  const velocity = (p: Vec3, hours: number): Vec3 | null => {
+    const { lon, lat } = toLonLat(p);
+    const pos = timeIndex(times, hours);
+    const u = sampleFrames(meta, U, pos, lon, lat);
+    const v = sampleFrames(meta, V, pos, lon, lat);
+    if (!Number.isFinite(u) || !Number.isFinite(v)) return null;
+    const sinLon = Math.sin(lon * DEG), cosLon = Math.cos(lon * DEG);
+    const sinLat = Math.sin(lat * DEG), cosLat = Math.cos(lat * DEG);
+    const east = [-sinLon, cosLon, 0], north = [-sinLat * cosLon, -sinLat * sinLon, cosLat];
+    const k = sign / EARTH_RADIUS;
+    return [0, 1, 2].map(i => (u * east[i] + v * north[i]) * k) as Vec3;
+  };
+  const add = (p: Vec3, d: Vec3, s: number): Vec3 => [p[0] + d[0] * s, p[1] + d[1] * s, p[2] + d[2] * s];
+
+  let p = toVector(start.lon, start.lat);
+  let hours = startHours;
+  const points: TrajectoryPoint[] = [{ ...start, hours }];
+  const h = dt / 3600;
+  for (let n = 0; n < steps; n++) {
+    const k1 = velocity(p, hours);
+    const k2 = k1 && velocity(add(p, k1, dt / 2), hours + (sign * h) / 2);
+    const k3 = k2 && velocity(add(p, k2, dt / 2), hours + (sign * h) / 2);
+    const k4 = k3 && velocity(add(p, k3, dt), hours + sign * h);
+    if (!k1 || !k2 || !k3 || !k4) break;
+    p = add(p, [0, 1, 2].map(i => k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i]) as Vec3, dt / 6);
+    const r = Math.hypot(...p);
+    p = [p[0] / r, p[1] / r, p[2] / r];
+    hours += sign * h;
+    points.push({ ...toLonLat(p), hours });
+  }
+  return points;
+}
+
+// Great-circle distance in m
+export function greatCircleDistance(a: { lon: number; lat: number }, b: { lon: number; lat: number }) {
+  const dLat = (b.lat - a.lat) * DEG, dLon = (b.lon - a.lon) * DEG;
+  const s = Math.sin(dLat / 2) ** 2 + Math.cos(a.lat * DEG) * Math.cos(b.lat * DEG) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(s)));
+}
+
+export function createTrajectory(points: TrajectoryPoint[], direction: TrajectoryDirection, level: string): Trajectory {
+  let distance = 0;
+  for (let i = 1; i < points.length; i++) distance += greatCircleDistance(points[i - 1], points[i]);
+  const duration = Math.abs(points[points.length - 1].hours - points[0].hours);
+  return { direction, level, points, distance, duration, meanSpeed: duration > 0 ? distance / (duration * 3600) : 0 };
+}
+
+/**
+ * Trajectories as a GeoJSON FeatureCollection of lines, split where they cross
+ * the antimeridian; `baseTime` (the first valid time) dates every vertex
+ */
+export function trajectoriesGeoJson(trajectories: Trajectory[], baseTime?: string) {
+  const base = baseTime ? Date.parse(baseTime) : NaN;
+  const isoAt = (hours: number) => (Number.isFinite(base) ? new Date(base + hours * 3600e3).toISOString() : undefined);
+  return {
+    type: "FeatureCollection",
+    features: trajectories.map(({ direction, level, points, distance, duration, meanSpeed }) => {
+      const parts: number[][][] = [[]];
+      points.forEach((p, i) => {
+        if (i > 0 && Math.abs(p.lon - points[i - 1].lon) > 180) parts.push([]);
+        parts[parts.length - 1].push([Number(p.lon.toFixed(4)), Number(p.lat.toFixed(4))]);
+      });
+      return {
+        type: "Feature",
+        geometry: parts.length === 1
+          ? { type: "LineString", coordinates: parts[0] }
+          : { type: "MultiLineString", coordinates: parts },
+        properties: {
+          direction,
+          level,
+          start: isoAt(points[0].hours),
+          end: isoAt(points[points.length - 1].hours),
+          times: points.map(p => isoAt(p.hours) ?? p.hours),
+          distanceKm: Math.round(distance / 100) / 10,
+          durationHours: Number(duration.toFixed(2)),
+          meanSpeedMs: Number(meanSpeed.toFixed(2)),
+        },
+      };
+    }),
+  };
+}
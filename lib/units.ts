@@ -0,0 +1,181 @@
+import { scaleTicks } from "./colormaps";
+import { kelvinToC, kelvinToF, levelPressure } from "./met";
+import type { OverlayScale } from "./overlays";
+
+/**
+ * Display unit preferences for wind speed, temperature and vertical levels,
+ * applied to legends, readouts and level labels and kept in localStorage.
+ * Data stays in SI units (m/s, K, hPa); only what is shown is converted.
+ */
+
+export type SpeedUnit = "ms" | "kmh" | "kt" | "mph" | "bft";
+export type TemperatureUnit = "C" | "F" | "K";
+export type LevelUnit = "hPa" | "m" | "ft" | "FL";
+
+export interface UnitPreferences {
+  speed: SpeedUnit;
+  temperature: TemperatureUnit;
+  level: LevelUnit;
+}
+
+export const DEFAULT_UNITS: UnitPreferences = { speed: "ms", temperature: "C", level: "hPa" };
+
+export const SPEED_UNITS: { id: SpeedUnit; label: string }[] = [
+  { id: "ms", label: "m/s" },
+  { id: "kmh", label: "km/h" },
+  { id: "kt", label: "kt" },
+  { id: "mph", label: "mph" },
+  { id: "bft", label: "Bft" },
+];
+
+export const TEMPERATURE_UNITS: { id: TemperatureUnit; label: string }[] = [
+  { id: "C", label: "°C" },
+  { id: "F", label: "°F" },
+  { id: "K", label: "K" },
+];
+
+export const LEVEL_UNITS: { id: LevelUnit; label: string }[] = [
+  { id: "hPa", label: "hPa" },
+  { id: "m", label: "m" },
+  { id: "ft", label: "ft" },
+  { id: "FL", label: "FL" },
+];
+
+// Multiples of m/s
+const SPEED_FACTORS: Record<Exclude<SpeedUnit, "bft">, number> = { ms: 1, kmh: 3.6, kt: 1.943844, mph: 2.236936 };
+
+// Lower bound of Beaufort forces 1..12, m/s
+const BEAUFORT_LIMITS = [0.5, 1.6, 3.4, 5.5, 8, 10.8, 13.9, 17.2, 20.8, 24.5, 28.5, 32.7];
+
+export const beaufortForce = (ms: number) => {
+  let force = 0;
+  while (force < BEAUFORT_LIMITS.length && ms >= BEAUFORT_LIMITS[force]) force++;
+  return force;
+};
+
+const FEET_PER_METRE = 3.28084;
+
+/**
+ * ICAO standard atmosphere height (m) of a pressure (hPa): the troposphere
+ * lapse rate to 11 km, isothermal above
+ */
+export const pressureAltitude = (hPa: number) =>
+  hPa >= 226.32
+    ? 44330.8 * (1 - Math.pow(hPa / 1013.25, 0.190263))
+    : 11000 + 6341.6 * Math.log(226.32 / hPa);
+
+const speedLabel = (unit: SpeedUnit) => SPEED_UNITS.find(u => u.id === unit)!.label;
+const temperatureLabel = (unit: TemperatureUnit) => TEMPERATURE_UNITS.find(u => u.id === unit)!.label;
+
+export function formatSpeed(ms: number, unit: SpeedUnit, digits = 1) {
+  if (unit === "bft") return `${beaufortForce(ms)} Bft`;
+  return `${(ms * SPEED_FACTORS[unit]).toFixed(digits)} ${speedLabel(unit)}`;
+}
+
+export function formatTemperature(kelvin: number, unit: TemperatureUnit, digits = 1) {
+  const value = unit === "C" ? kelvinToC(kelvin) : unit === "F" ? kelvinToF(kelvin) : kelvin;
+  return `${value.toFixed(digits)} ${temperatureLabel(unit)}`;
+}
+
+/**
+ * Level label in the preferred unit: pressure levels become approximate
+ * standard-atmosphere altitudes ("≈1460 m", "FL050"), heights above ground
+ * ("10 m") are converted to feet; anything else is shown as is
+ */
+export function formatLevel(label: string, unit: LevelUnit) {
+  if (unit === "hPa") return label;
+  const pressure = levelPressure(label);
+  if (Number.isFinite(pressure)) {
+    const metres = pressureAltitude(pressure);
+    if (unit === "m") return `≈${Math.round(metres / 10) * 10} m`;
+    const feet = metres * FEET_PER_METRE;
+    if (unit === "ft") return `≈${Math.round(feet / 10) * 10} ft`;
+    return `FL${String(Math.max(0, Math.round(feet / 1000) * 10)).padStart(3, "0")}`;
+  }
+  const height = /^([\d.]+)\s*m$/.exec(label);
+  if (height && unit !== "m") return `${Math.round(Number(height[1]) * FEET_PER_METRE)} ft`;
+  return label;
+}
+
+// Beaufort forces labelled on legends; every force gets a contour line
+const BEAUFORT_TICKS = [0, 4, 6, 8, 10, 12];
+
+/**
+ * The overlay scale in the preferred units. Speeds and temperatures get a new
+ * linear mapping (scale/offset, range, ticks, contour interval); Beaufort keeps
+ * m/s values and labels ticks, contours and readouts with the force instead.
+ */
+export function withUnits<T extends OverlayScale>(def: T, units: UnitPreferences): T {
+  let factor = 1, shift = 0, label = def.units;
+  if (def.quantity === "speed") {
+    if (units.speed === "ms") return def;
+    if (units.speed === "bft") {
+      const limits = [0, ...BEAUFORT_LIMITS];
+      return {
+        ...def,
+        units: "Bft",
+        ticks: BEAUFORT_TICKS.map(f => limits[f]).filter(v => v >= def.min && v <= def.max),
+        contourLevels: limits.slice(1),
+        format: (ms: number) => String(beaufortForce(ms)),
+      };
+    }
+    factor = SPEED_FACTORS[units.speed];
+    label = speedLabel(units.speed);
+  } else if (def.quantity === "temperature") {
+    if (units.temperature === "C") return def;
+    // Scales are defined in °C
+    factor = units.temperature === "F" ? 9 / 5 : 1;
+    shift = units.temperature === "F" ? 32 : 273.15;
+    label = temperatureLabel(units.temperature);
+  } else {
+    return def;
+  }
+  const convert = (value: number) => value * factor + shift;
+  const min = convert(def.min), max = convert(def.max);
+  const log = !!def.log && min > 0;
+  const interval = scaleTicks(0, def.contourInterval * factor * 5)[1] ?? def.contourInterval * factor;
+  return {
+    ...def,
+    units: label,
+    scale: (def.scale ?? 1) * factor,
+    offset: convert(def.offset ?? 0),
+    min,
+    max,
+    log,
+    ticks: scaleTicks(min, max, log),
+    contourInterval: interval,
+  };
+}
+
+/**
+ * Converts a value typed in the preferred units back to the overlay's own
+ * (the inverse of the mapping withUnits() applies to min and max)
+ */
+export function fromDisplayUnits(def: OverlayScale, units: UnitPreferences, value: number) {
+  const shown = withUnits({ ...def, min: 0, max: 1, log: false }, units);
+  const factor = shown.max - shown.min;
+  return (value - shown.min) / factor;
+}
+
+const STORAGE_KEY = "skyplot.units";
+
+export function loadUnitPreferences(): UnitPreferences {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+    return {
+      speed: SPEED_UNITS.some(u => u.id === stored.speed) ? stored.speed : DEFAULT_UNITS.speed,
+      temperature: TEMPERATURE_UNITS.some(u => u.id === stored.temperature) ? stored.temperature : DEFAULT_UNITS.temperature,
+      level: LEVEL_UNITS.some(u => u.id === stored.level) ? stored.level : DEFAULT_UNITS.level,
+    };
+  } catch {
+    return DEFAULT_UNITS;
+  }
+}
+
+export function saveUnitPreferences(units: UnitPreferences) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(units));
+  } catch {
+    // Storage can be unavailable (private browsing); the preference lasts for the session
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Shareable view state in the page URL, e.g.
+ * ?lat=48.21&lon=16.37&zoom=1.5&level=850hPa&overlay=temperature&time=2025-08-03T06:00Z
+ * Parsing is lenient: missing or malformed values are left out, and the caller
+ * checks names (overlays, levels, projections) against what is loaded.
+ */
+
+export interface UrlViewState {
+  lat?: number;
+  lon?: number;
+  zoom?: number;
+  // Level label without spaces, e.g. 850hPa or 10m
+  level?: string;
+  overlay?: string;
+  // Valid time, ISO 8601
+  time?: string;
+  projection?: string;
+  layers?: string[];
+  contours?: boolean;
+  glyphs?: string;
+  particles?: boolean;
+  // Lower and upper shear level labels
+  shear?: [string, string];
+}
+
+// Level labels as they appear in URLs: "850 hPa" -> "850hPa"
+export const levelKey = (label: string) => label.replace(/\s+/g, "");
+
+// Valid times to the minute: "2025-08-03T06:00:00Z" -> "2025-08-03T06:00Z"
+const timeKey = (iso: string) => {
+  const t = Date.parse(iso);
+  return Number.isFinite(t) ? new Date(t).toISOString().slice(0, 16) + "Z" : iso;
+};
+
+const number = (value: string | null, min: number, max: number) => {
+  if (value === null || value.trim() === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= min && n <= max ? n : undefined;
+};
+
+const flag = (value: string | null) => (value === "1" ? true : value === "0" ? false : undefined);
+
+export function parseUrlState(search: string): UrlViewState {
+  const params = new URLSearchParams(search);
+  const text = (name: string) => params.get(name) || undefined;
+  const shear = params.get("shear")?.split(",");
+  return {
+    lat: number(params.get("lat"), -90, 90),
+    lon: number(params.get("lon"), -180, 180),
+    zoom: number(params.get("zoom"), 0.01, 100),
+    level: text("level"),
+    overlay: text("overlay"),
+    time: text("time"),
+    projection: text("projection"),
+    layers: params.has("layers") ? params.get("layers")!.split(",").filter(Boolean) : undefined,
+    contours: flag(params.get("contours")),
+    glyphs: text("glyphs"),
+    particles: flag(params.get("particles")),
+    shear: shear?.length === 2 && shear[0] && shear[1] ? [shear[0], shear[1]] : undefined,
+  };
+}
+
+export function urlStateQuery(state: UrlViewState): string {
+  const params = new URLSearchParams();
+  const set = (name: string, value: string | undefined) => {
+    if (value !== undefined) params.set(name, value);
+  };
+  set("lat", state.lat?.toFixed(2));
+  set("lon", state.lon?.toFixed(2));
+  set("zoom", state.zoom?.toFixed(2));
+  set("level", state.level && levelKey(state.level));
+  set("overlay", state.overlay);
+  set("time", state.time && timeKey(state.time));
+  set("projection", state.projection);
+  set("layers", state.layers?.join(","));
+  set("contours", state.contours === undefined ? undefined : state.contours ? "1" : "0");
+  set("glyphs", state.glyphs);
+  set("particles", state.particles === undefined ? undefined : state.particles ? "1" : "0");
+  set("shear", state.shear?.map(levelKey).join(","));
+  // Keep commas and times readable in shared links
+  return params.toString().replace(/%2C/g, ",").replace(/%3A/g, ":");
+}
+
+// Index of the valid time matching a URL time, to the minute; -1 if none does
+export const findValidTime = (times: string[], time: string) =>
+  times.findIndex(t => timeKey(t) === timeKey(time));
+
+/**
+ * Replaces the current history entry's query, at most once per `delay` ms
+ * (browsers throttle rapid history updates); the latest state always wins
+ */
+export function createUrlWriter(delay = 400) {
+  let pending: UrlViewState | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const flush = () => {
+    timer = null;
+    if (!pending) return;
+    const query = urlStateQuery(pending);
+    pending = null;
+    const url = `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`;
+    window.history.replaceState(window.history.state, "", url);
+  };
+  return (state: UrlViewState) => {
+    pending = state;
+    timer ??= setTimeout(flush, delay);
+  };
+}
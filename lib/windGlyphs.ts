@@ -0,0 +1,110 @@
+import { barbGeometry } from "./barbs";
+import { msToKnots, windSpeed } from "./met";
+
+/**
+ * Wind glyphs (WMO barbs or arrows) laid flat on the globe surface. Glyphs are
+ * placed on a lat/lon lattice inside the visible cap, with the spacing picked
+ * from the on-screen size of a degree so they get denser as you zoom in.
+ */
+
+export type GlyphKind = "barbs" | "arrows";
+
+// Spacings in degrees, so the lattice (and the rebuild key) only changes in steps
+const NICE_SPACINGS = [0.25, 0.5, 0.75, 1, 1.5, 2, 2.5, 3, 4, 5, 6, 8, 10, 12, 15];
+
+// Arrows reach full length at this speed (m/s)
+const ARROW_FULL_SPEED = 40;
+
+const DEG = Math.PI / 180;
+
+/**
+ * Lattice spacing in degrees for glyphs about `targetPx` apart on screen,
+ * coarsened so a cap of `capRadiusDeg` holds no more than `maxGlyphs`
+ */
+export function glyphSpacing(pxPerDegree: number, targetPx: number, capRadiusDeg: number, maxGlyphs: number) {
+  const capArea = 2 * Math.PI * (1 - Math.cos(capRadiusDeg * DEG)) / (DEG * DEG);
+  const spacing = Math.max(targetPx / pxPerDegree, Math.sqrt(capArea / maxGlyphs));
+  return NICE_SPACINGS.find(s => s >= spacing) ?? NICE_SPACINGS[NICE_SPACINGS.length - 1];
+}
+
+/**
+ * Lattice points within `radiusDeg` of a centre. Longitude steps widen with
+ * 1/cos(lat) so glyphs stay evenly spaced on the sphere.
+ */
+export function glyphSamples(centerLon: number, centerLat: number, radiusDeg: number, spacing: number) {
+  const points: [number, number][] = [];
+  const cosRadius = Math.cos(radiusDeg * DEG);
+  const sinC = Math.sin(centerLat * DEG), cosC = Math.cos(centerLat * DEG);
+  const latMin = Math.max(-90 + spacing / 2, Math.ceil((centerLat - radiusDeg) / spacing) * spacing);
+  const latMax = Math.min(90 - spacing / 2, centerLat + radiusDeg);
+
+  for (let lat = latMin; lat <= latMax; lat += spacing) {
+    const cosLat = Math.cos(lat * DEG), sinLat = Math.sin(lat * DEG);
+    const n = Math.max(1, Math.floor(360 * cosLat / spacing));
+    const step = 360 / n;
+    for (let k = 0; k < n; k++) {
+      const lon = -180 + k * step;
+      const cosDistance = sinC * sinLat + cosC * cosLat * Math.cos((lon - centerLon) * DEG);
+      if (cosDistance >= cosRadius) points.push([lon, lat]);
+    }
+  }
+  return points;
+}
+
+/**
+ * Appends one glyph at lon/lat on a sphere of radius `r`: line segments to
+ * `lines` and filled pennant triangles to `triangles`, as x, y, z triples.
+ * `size` is the barb staff length (or the longest arrow) in world units.
+ */
+export function appendGlyph(
+  lines: number[],
+  triangles: number[],
+  kind: GlyphKind,
+  lon: number,
+  lat: number,
+  u: number,
+  v: number,
+  r: number,
+  size: number
+) {
+  const λ = lon * DEG, φ = lat * DEG;
+  const sinλ = Math.sin(λ), cosλ = Math.cos(λ), sinφ = Math.sin(φ), cosφ = Math.cos(φ);
+  // Same axes as lonLatToVec3(): position, local east and local north
+  const p = [r * cosφ * sinλ, r * sinφ, r * cosφ * cosλ];
+  const east = [cosλ, 0, -sinλ];
+  const north = [-sinφ * sinλ, cosφ, -sinφ * cosλ];
+
+  const speed = windSpeed(u, v);
+  // Local frame for glyph coordinates: +y toward where the wind comes from,
+  // +x to its right when looking down (feathers side), mirrored in the south
+  const ue = speed > 0 ? -u / speed : 0, un = speed > 0 ? -v / speed : 1;
+  const side = lat < 0 ? -1 : 1;
+  const yAxis = [0, 1, 2].map(k => ue * east[k] + un * north[k]);
+  const xAxis = [0, 1, 2].map(k => side * (un * east[k] - ue * north[k]));
+  const at = (x: number, y: number) =>
+    [0, 1, 2].map(k => p[k] + size * (x * xAxis[k] + y * yAxis[k]));
+  const segment = (x0: number, y0: number, x1: number, y1: number) => lines.push(...at(x0, y0), ...at(x1, y1));
+
+  if (kind === "arrows") {
+    if (!(speed > 0)) return;
+    // Centred on the point, pointing downwind
+    const half = 0.5 * Math.max(0.15, Math.min(1, speed / ARROW_FULL_SPEED));
+    segment(0, half, 0, -half);
+    segment(0, -half, 0.12, -half + 0.2);
+    segment(0, -half, -0.12, -half + 0.2);
+    return;
+  }
+
+  const barb = barbGeometry(msToKnots(speed));
+  if (barb.calm) {
+    // Calm: a small circle around the station
+    const n = 8;
+    for (let k = 0; k < n; k++) {
+      const a0 = (k / n) * 2 * Math.PI, a1 = ((k + 1) / n) * 2 * Math.PI;
+      segment(0.1 * Math.cos(a0), 0.1 * Math.sin(a0), 0.1 * Math.cos(a1), 0.1 * Math.sin(a1));
+    }
+    return;
+  }
+  barb.lines.forEach(([x0, y0, x1, y1]) => segment(x0, y0, x1, y1));
+  barb.pennants.forEach(points => points.forEach(([x, y]) => triangles.push(...at(x, y))));
+}
@@ -0,0 +1,47 @@
+import type { DataSource, SourceConfig } from "./dataSource";
+import type { WorkerRequest, WorkerResponse } from "./dataWorker";
+
+/**
+ * DataSource backed by a Web Worker running the static file or fields API
+ * source: fetching, decoding and derived fields (wind speed S) happen off the
+ * main thread and requests are served concurrently.
+ */
+export function createWorkerSource(config: SourceConfig): DataSource & { dispose(): void } {
+  const worker = new Worker(new URL("./dataWorker.ts", import.meta.url), { type: "module" });
+  const pending = new Map<number, { resolve: (v: unknown) => void; reject: (e: Error) => void }>();
+  let nextId = 0;
+
+  worker.onmessage = ({ data }: MessageEvent<WorkerResponse>) => {
+    const call = pending.get(data.id);
+    if (!call) return;
+    pending.delete(data.id);
+    if ("error" in data) call.reject(new Error(data.error));
+    else call.resolve(data.result);
+  };
+  worker.onerror = e => {
+    pending.forEach(call => call.reject(new Error(e.message || "Data worker failed")));
+    pending.clear();
+  };
+
+  const post = (message: WorkerRequest) => worker.postMessage(message);
+  post({ type: "init", config });
+
+  const call = <T>(method: keyof DataSource, ...args: unknown[]) =>
+    new Promise<T>((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve: resolve as (v: unknown) => void, reject });
+      post({ type: "call", id, method, args });
+    });
+
+  return {
+    listVariables: () => call("listVariables"),
+    listLevels: variable => call("listLevels", variable),
+    listTimes: variable => call("listTimes", variable),
+    fetchField: (variable, levelId, timeIdx) => call("fetchField", variable, levelId, timeIdx),
+    dispose() {
+      worker.terminate();
+      pending.forEach(p => p.reject(new Error("Data worker disposed")));
+      pending.clear();
+    },
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Builds the offline place search file public/data/gazetteer.json from a
+ * GeoNames cities dump and the OpenFlights airport list.
+ *
+ *   npm run build-gazetteer -- cities15000.txt airports.dat public/data/gazetteer.json [--min-population 100000]
+ *
+ * Cities are kept from `min-population` inhabitants up, plus every capital;
+ * airports need an ICAO code, which leaves out railway stations and metropolitan
+ * area codes (IATA-only entries such as PAR). Country codes become English names and
+ * coordinates are rounded to 0.001°. See lib/gazetteer.ts for the format.
+ */
+import { readFile, writeFile } from "node:fs/promises";
+import type { GazetteerFile } from "../lib/gazetteer";
+
+const option = (args: string[], name: string, fallback: number) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? Number(args[i + 1]) : fallback;
+};
+
+const round = (v: number) => Math.round(v * 1000) / 1000;
+
+// One CSV line of airports.dat: quoted strings, bare numbers, \N for missing
+function csvFields(line: string) {
+  const fields: string[] = [];
+  let field = "", quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') field += line[++i];
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const [citiesFile, airportsFile, output] = args.filter((a, i) => !a.startsWith("--") && !args[i - 1]?.startsWith("--"));
+  if (!citiesFile || !airportsFile || !output) {
+    console.error("Usage: build-gazetteer <cities.txt> <airports.dat> <output.json> [--min-population 100000]");
+    process.exit(1);
+  }
+  const minPopulation = option(args, "min-population", 100000);
+  const countryNames = new Intl.DisplayNames(["en"], { type: "region" });
+  const country = (code: string) => {
+    try {
+      return countryNames.of(code) ?? code;
+    } catch {
+      return code;
+    }
+  };
+
+  const out: GazetteerFile = { cities: [], airports: [] };
+  for (const line of (await readFile(citiesFile, "utf8")).split("\n")) {
+    const f = line.split("\t");
+    if (f.length < 15) continue;
+    const population = Number(f[14]) || 0;
+    if (population < minPopulation && f[7] !== "PPLC") continue;
+    out.cities.push([f[1], country(f[8]), round(Number(f[4])), round(Number(f[5])), population]);
+  }
+  out.cities.sort((a, b) => b[4] - a[4]);
+
+  for (const line of (await readFile(airportsFile, "utf8")).split("\n")) {
+    const f = csvFields(line.trim());
+    if (f.length < 8) continue;
+    const iata = /^[A-Z0-9]{3}$/.test(f[4]) ? f[4] : "";
+    const icao = /^[A-Z0-9]{4}$/.test(f[5]) ? f[5] : "";
+    const lat = Number(f[6]), lon = Number(f[7]);
+    if (!icao || !Number.isFinite(lat) || !Number.isFinite(lon)) continue;
+    out.airports.push([f[1], f[2] === "\\N" ? "" : f[2], f[3], round(lat), round(lon), iata, icao]);
+  }
+
+  await writeFile(output, JSON.stringify(out));
+  console.log(`${out.cities.length} cities, ${out.airports.length} airports -> ${output}`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,97 @@
+/**
+ * Reduces a detailed GeoJSON layer (e.g. lakes or rivers) to a small outline
+ * file for public/data/geo.
+ *
+ *   npm run build-geo-layer -- input.geo.json public/data/geo/lakes.json [--tolerance 0.05] [--min-size 0.5]
+ *
+ * Every ring and line is simplified with Douglas-Peucker at `tolerance`
+ * degrees, lines whose bounding box is smaller than `min-size` degrees are
+ * dropped, and coordinates are rounded to 0.001°. The output is a GeoJSON
+ * MultiLineString feature.
+ */
+import { readFile, writeFile } from "node:fs/promises";
+import { type Outline, geoJsonOutlines } from "../lib/geoLayers";
+
+const option = (args: string[], name: string, fallback: number) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? Number(args[i + 1]) : fallback;
+};
+
+// Squared distance from p to segment a-b, in degrees
+function segmentDistance2(p: number[], a: number[], b: number[]) {
+  const dx = b[0] - a[0], dy = b[1] - a[1];
+  const len2 = dx * dx + dy * dy;
+  const t = len2 > 0 ? Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / len2)) : 0;
+  const ex = a[0] + t * dx - p[0], ey = a[1] + t * dy - p[1];
+  return ex * ex + ey * ey;
+}
+
+function simplify(line: Outline, tolerance: number): Outline {
+  if (line.length < 3) return line;
+  const keep = new Uint8Array(line.length);
+  keep[0] = keep[line.length - 1] = 1;
+  const stack: [number, number][] = [[0, line.length - 1]];
+  const tol2 = tolerance * tolerance;
+  while (stack.length) {
+    const [first, last] = stack.pop()!;
+    let maxD = 0, index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const d = segmentDistance2(line[i], line[first], line[last]);
+      if (d > maxD) {
+        maxD = d;
+        index = i;
+      }
+    }
+    if (index >= 0 && maxD > tol2) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+  return line.filter((_, i) => keep[i]);
+}
+
+const extent = (line: Outline) => {
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  for (const [x, y] of line) {
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  }
+  return Math.max(maxX - minX, maxY - minY);
+};
+
+async function main() {
+  const args = process.argv.slice(2);
+  const [input, output] = args.filter((a, i) => !a.startsWith("--") && !args[i - 1]?.startsWith("--"));
+  if (!input || !output) {
+    console.error("Usage: build-geo-layer <input.geo.json> <output.json> [--tolerance 0.05] [--min-size 0.5]");
+    process.exit(1);
+  }
+  const tolerance = option(args, "tolerance", 0.05);
+  const minSize = option(args, "min-size", 0.5);
+
+  const lines: Outline[] = [];
+  geoJsonOutlines(JSON.parse(await readFile(input, "utf8")), lines);
+
+  const round = (v: number) => Math.round(v * 1000) / 1000;
+  let points = 0;
+  const kept = lines
+    .filter(line => extent(line) >= minSize)
+    .map(line => simplify(line, tolerance).map(([x, y]) => [round(x), round(y)]))
+    .filter(line => line.length >= 2);
+  kept.forEach(line => points += line.length);
+
+  const out = {
+    type: "Feature",
+    properties: { tolerance, minSize },
+    geometry: { type: "MultiLineString", coordinates: kept },
+  };
+  await writeFile(output, JSON.stringify(out));
+  console.log(`${lines.length} lines -> ${kept.length} lines, ${points} points -> ${output}`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,52 @@
+/**
+ * Converts the JSON field files listed in a manifest to the SKYF binary format.
+ *
+ *   npm run convert-fields -- public/data/winddata/wind_uv_manifest.json [--int16] [--gzip | --deflate] [--update-manifest]
+ *
+ * Each listed `name.json` is written next to it as `name.skyf`. With
+ * --update-manifest the manifest is rewritten to point at the new files.
+ */
+import { readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { type DataManifest, type GribRecord, normalizeManifest } from "../lib/dataSource";
+import { type FieldCompression, encodeFieldFile } from "../lib/fieldFormat";
+
+async function main() {
+  const args = process.argv.slice(2);
+  const manifestPath = args.find(a => !a.startsWith("--"));
+  if (!manifestPath) {
+    console.error("Usage: convert-fields <manifest.json> [--int16] [--gzip | --deflate] [--update-manifest]");
+    process.exit(1);
+  }
+  const encoding = args.includes("--int16") ? "int16" : "float32";
+  const compression: FieldCompression = args.includes("--gzip") ? "gzip" : args.includes("--deflate") ? "deflate" : "none";
+
+  const dir = dirname(manifestPath);
+  const raw: DataManifest | string[] = JSON.parse(await readFile(manifestPath, "utf8"));
+  const manifest = normalizeManifest(raw);
+
+  for (const time of manifest.times) {
+    for (const [i, fname] of time.files.entries()) {
+      if (!fname.endsWith(".json")) continue;
+      const json: GribRecord | GribRecord[] = JSON.parse(await readFile(join(dir, fname), "utf8"));
+      const out = await encodeFieldFile(Array.isArray(json) ? json : [json], { encoding, compression });
+      const outName = fname.replace(/\.json$/, ".skyf");
+      await writeFile(join(dir, outName), out);
+      const before = (await readFile(join(dir, fname))).byteLength;
+      console.log(`${fname} -> ${outName} (${(before / 1024).toFixed(0)} KiB -> ${(out.byteLength / 1024).toFixed(0)} KiB)`);
+      time.files[i] = outName;
+    }
+  }
+
+  if (args.includes("--update-manifest")) {
+    // Keep the legacy flat-list shape if that's what we were given
+    const updated = Array.isArray(raw) ? manifest.times[0].files : manifest;
+    await writeFile(manifestPath, JSON.stringify(updated, null, 2) + "\n");
+    console.log(`Updated ${manifestPath}`);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});